@@ -0,0 +1,160 @@
+import zlib from 'zlib';
+import request from 'supertest';
+import app from '../app';
+import { Comment } from '../models/Comment';
+import { File } from '../models/File';
+import { malwareScanner } from '../utils/malwareScanner';
+import { IssueArchive } from '../utils/issueArchive';
+import { createTestUsers, createTestIssue, getAuthHeader, assertErrorResponse } from './utils/testHelpers';
+
+// Read the entries of a ZIP archive through its central directory
+const readZipEntries = (zip: Buffer): Map<string, Buffer> => {
+  const entries = new Map<string, Buffer>();
+  const end = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = zip.readUInt16LE(end + 10);
+  let offset = zip.readUInt32LE(end + 16);
+
+  for (let i = 0; i < count; i++) {
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+    const data = zip.subarray(dataStart, dataStart + compressedSize);
+    entries.set(name, method === 8 ? zlib.inflateRawSync(data) : data);
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
+
+describe('Issue attachment archives', () => {
+  let users: any;
+  let testIssue: any;
+
+  const upload = async (content: string, filename: string) => {
+    const response = await request(app)
+      .post(`/api/files/issue/${testIssue._id}/upload`)
+      .set(getAuthHeader(users.user1.accessToken))
+      .attach('files', Buffer.from(content), filename);
+    return response.body.data.files[0];
+  };
+
+  const downloadArchive = (query = '') => {
+    return request(app)
+      .get(`/api/files/issue/${testIssue._id}/archive${query}`)
+      .set(getAuthHeader(users.user2.accessToken))
+      .buffer(true)
+      .parse((res, callback) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => callback(null, Buffer.concat(chunks)));
+      });
+  };
+
+  beforeEach(async () => {
+    users = await createTestUsers();
+    testIssue = await createTestIssue(users.user1._id);
+  });
+
+  it('should archive all files with their original names', async () => {
+    await upload('first report', 'report.txt');
+    await upload('second report', 'report.txt');
+    await upload('notes', 'Notes.txt');
+    await malwareScanner.idle();
+
+    const response = await downloadArchive();
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('application/zip');
+    expect(response.headers['content-disposition']).toContain('attachment');
+    const entries = readZipEntries(response.body);
+    expect([...entries.keys()].sort()).toEqual(['Notes.txt', 'report (2).txt', 'report.txt']);
+    expect([entries.get('report.txt')!.toString(), entries.get('report (2).txt')!.toString()].sort())
+      .toEqual(['first report', 'second report']);
+  });
+
+  it('should only archive selected files', async () => {
+    const first = await upload('first report', 'first.txt');
+    await upload('second report', 'second.txt');
+    await malwareScanner.idle();
+
+    const response = await downloadArchive(`?files=${first._id}`);
+
+    const entries = readZipEntries(response.body);
+    expect([...entries.keys()]).toEqual(['first.txt']);
+  });
+
+  it('should include the issue and its comments when asked to', async () => {
+    await upload('first report', 'report.txt');
+    await malwareScanner.idle();
+    await Comment.create({ issueId: testIssue._id, userId: users.user2._id, content: 'Forwarded to the vendor' });
+
+    const response = await downloadArchive('?manifest=true');
+
+    const entries = readZipEntries(response.body);
+    const manifest = JSON.parse(entries.get('issue.json')!.toString());
+    expect(manifest.issue.title).toBe(testIssue.title);
+    expect(manifest.files).toHaveLength(1);
+    expect(manifest.files[0].name).toBe('report.txt');
+    expect(entries.get('comments.md')!.toString()).toContain('Forwarded to the vendor');
+  });
+
+  it('should leave out files that are not scanned clean', async () => {
+    const clean = await upload('first report', 'report.txt');
+    const pending = await upload('second report', 'pending.txt');
+    await malwareScanner.idle();
+    await File.findByIdAndUpdate(pending._id, { scanStatus: 'pending' });
+
+    const response = await downloadArchive('?manifest=true');
+
+    const entries = readZipEntries(response.body);
+    expect(entries.has('pending.txt')).toBe(false);
+    const manifest = JSON.parse(entries.get('issue.json')!.toString());
+    expect(manifest.files.map((file: any) => file.id)).toEqual([clean._id]);
+    expect(manifest.skipped[0].id).toBe(pending._id);
+  });
+
+  it('should reject files of other issues', async () => {
+    const otherIssue = await createTestIssue(users.user1._id);
+    const other = await request(app)
+      .post(`/api/files/issue/${otherIssue._id}/upload`)
+      .set(getAuthHeader(users.user1.accessToken))
+      .attach('files', Buffer.from('other'), 'other.txt');
+    await malwareScanner.idle();
+
+    const response = await request(app)
+      .get(`/api/files/issue/${testIssue._id}/archive?files=${other.body.data.files[0]._id}`)
+      .set(getAuthHeader(users.user1.accessToken));
+
+    assertErrorResponse(response, 404);
+  });
+
+  it('should answer 409 when no file can be downloaded', async () => {
+    const response = await request(app)
+      .get(`/api/files/issue/${testIssue._id}/archive`)
+      .set(getAuthHeader(users.user1.accessToken));
+
+    assertErrorResponse(response, 409);
+  });
+
+  describe('IssueArchive.uniqueName', () => {
+    it('should number names that are already used', () => {
+      const used = new Set<string>(['issue.json']);
+
+      expect(IssueArchive.uniqueName('log.txt', used)).toBe('log.txt');
+      expect(IssueArchive.uniqueName('LOG.txt', used)).toBe('LOG (2).txt');
+      expect(IssueArchive.uniqueName('log.txt', used)).toBe('log (3).txt');
+      expect(IssueArchive.uniqueName('issue.json', used)).toBe('issue (2).json');
+    });
+
+    it('should not allow names that leave the archive folder', () => {
+      expect(IssueArchive.uniqueName('../../etc/passwd', new Set())).toBe('__.._etc_passwd');
+    });
+  });
+});
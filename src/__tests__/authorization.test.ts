@@ -0,0 +1,206 @@
+import request from 'supertest';
+import app from '../app';
+import { User } from '../models/User';
+import { mailer, MemoryTransport } from '../utils/mailer';
+import { createTestUsers, createTestIssue, getAuthHeader, createIssueViaAPI, registerUser, assertErrorResponse, assertSuccessResponse } from './utils/testHelpers';
+
+describe('Role-based access control', () => {
+  let users: any;
+
+  const setRole = (userId: string, role: string) => User.findByIdAndUpdate(userId, { role });
+
+  beforeEach(async () => {
+    users = await createTestUsers();
+  });
+
+  describe('Global roles', () => {
+    it('should let admins edit any issue', async () => {
+      const testIssue = await createTestIssue(users.user1._id);
+
+      const response = await request(app)
+        .put(`/api/issues/${testIssue._id}`)
+        .set(getAuthHeader(users.admin.accessToken))
+        .send({ title: 'Moderated title' });
+
+      assertSuccessResponse(response, 200);
+      expect(response.body.data.issue.title).toBe('Moderated title');
+    });
+
+    it('should let admins delete any issue', async () => {
+      const testIssue = await createTestIssue(users.user1._id);
+
+      const response = await request(app)
+        .delete(`/api/issues/${testIssue._id}`)
+        .set(getAuthHeader(users.admin.accessToken));
+
+      assertSuccessResponse(response, 200);
+    });
+
+    it('should let reporters file issues but not reassign them', async () => {
+      await setRole(users.user2._id, 'reporter');
+
+      const createResponse = await createIssueViaAPI(users.user2.accessToken);
+      assertSuccessResponse(createResponse, 201);
+
+      const response = await request(app)
+        .put(`/api/issues/${createResponse.body.data.issue._id}`)
+        .set(getAuthHeader(users.user2.accessToken))
+        .send({ assignedTo: users.user1._id });
+
+      assertErrorResponse(response, 403);
+    });
+
+    it('should not let reporters assign issues they file', async () => {
+      await setRole(users.user2._id, 'reporter');
+
+      const response = await createIssueViaAPI(users.user2.accessToken, {
+        title: 'Assigned on creation',
+        description: 'Reporter tries to assign',
+        assignedTo: users.user1._id
+      });
+
+      assertErrorResponse(response, 403);
+    });
+
+    it('should not let viewers create issues', async () => {
+      await setRole(users.user2._id, 'viewer');
+
+      const response = await createIssueViaAPI(users.user2.accessToken);
+
+      assertErrorResponse(response, 403);
+    });
+
+    it('should let maintainers change status of any issue', async () => {
+      await setRole(users.user2._id, 'maintainer');
+      const testIssue = await createTestIssue(users.user1._id);
+
+      const response = await request(app)
+        .patch(`/api/issues/${testIssue._id}/status`)
+        .set(getAuthHeader(users.user2.accessToken))
+        .send({ status: 'complete' });
+
+      assertSuccessResponse(response, 200);
+    });
+
+    it('should not let members manage labels', async () => {
+      const response = await request(app)
+        .post('/api/labels')
+        .set(getAuthHeader(users.user1.accessToken))
+        .send({ name: 'frontend' });
+
+      assertErrorResponse(response, 403);
+    });
+  });
+
+  describe('Project roles', () => {
+    let project: any;
+
+    beforeEach(async () => {
+      const response = await request(app)
+        .post('/api/projects')
+        .set(getAuthHeader(users.user1.accessToken))
+        .send({ name: 'Payments', key: 'PAY' });
+      project = response.body.data.project;
+    });
+
+    it('should apply the role a member holds in the project', async () => {
+      await request(app)
+        .post(`/api/projects/${project._id}/members`)
+        .set(getAuthHeader(users.user1.accessToken))
+        .send({ userId: users.user2._id, role: 'viewer' });
+
+      const response = await request(app)
+        .post(`/api/projects/${project._id}/issues`)
+        .set(getAuthHeader(users.user2.accessToken))
+        .send({ title: 'Viewer issue', description: 'Should be rejected' });
+
+      assertErrorResponse(response, 403);
+    });
+
+    it('should let the owner change member roles', async () => {
+      await request(app)
+        .post(`/api/projects/${project._id}/members`)
+        .set(getAuthHeader(users.user1.accessToken))
+        .send({ userId: users.user2._id, role: 'viewer' });
+
+      const response = await request(app)
+        .patch(`/api/projects/${project._id}/members/${users.user2._id}`)
+        .set(getAuthHeader(users.user1.accessToken))
+        .send({ role: 'maintainer' });
+
+      assertSuccessResponse(response, 200);
+      const member = response.body.data.members.find((entry: any) => entry.user._id === users.user2._id);
+      expect(member.role).toBe('maintainer');
+    });
+
+    it('should let admins access projects they are not a member of', async () => {
+      const response = await request(app)
+        .get(`/api/projects/${project._id}`)
+        .set(getAuthHeader(users.admin.accessToken));
+
+      assertSuccessResponse(response, 200);
+    });
+  });
+
+  describe('User administration', () => {
+    it('should let admins change user roles', async () => {
+      const response = await request(app)
+        .patch(`/api/users/${users.user1._id}/role`)
+        .set(getAuthHeader(users.admin.accessToken))
+        .send({ role: 'reporter' });
+
+      assertSuccessResponse(response, 200);
+      expect(response.body.data.user.role).toBe('reporter');
+    });
+
+    it('should not demote the last admin', async () => {
+      const response = await request(app)
+        .patch(`/api/users/${users.admin._id}/role`)
+        .set(getAuthHeader(users.admin.accessToken))
+        .send({ role: 'member' });
+
+      assertErrorResponse(response, 409);
+    });
+
+    it('should not let non-admins list users', async () => {
+      const response = await request(app)
+        .get('/api/users')
+        .set(getAuthHeader(users.user1.accessToken));
+
+      assertErrorResponse(response, 403);
+    });
+
+    it('should only promote addresses listed in ADMIN_EMAILS once they are verified', async () => {
+      process.env.ADMIN_EMAILS = 'owner@example.com';
+      const outbox = mailer.getTransport() as MemoryTransport;
+      outbox.clear();
+
+      try {
+        const response = await registerUser({
+          email: 'owner@example.com',
+          password: 'password123',
+          firstName: 'Site',
+          lastName: 'Owner'
+        });
+
+        assertSuccessResponse(response, 201);
+        expect(response.body.data.user.role).toBe('member');
+
+        const listResponse = await request(app)
+          .get('/api/users')
+          .set(getAuthHeader(response.body.data.accessToken));
+        assertErrorResponse(listResponse, 403);
+
+        const token = outbox.lastTo('owner@example.com')!.text.match(/token=([a-f0-9]{64})/)![1];
+        await request(app)
+          .post('/api/auth/verify-email')
+          .send({ token });
+
+        const user = await User.findOne({ email: 'owner@example.com' });
+        expect(user!.role).toBe('admin');
+      } finally {
+        delete process.env.ADMIN_EMAILS;
+      }
+    });
+  });
+});
@@ -1,5 +1,8 @@
 import request from 'supertest';
 import app from '../app';
+import { Comment } from '../models/Comment';
+import { CommentRevision } from '../models/CommentRevision';
+import { User } from '../models/User';
 import { createTestUsers, createTestIssue, createTestComment, getAuthHeader, assertErrorResponse, assertSuccessResponse, assertPaginationStructure } from './utils/testHelpers';
 
 describe('Comments API', () => {
@@ -258,6 +261,79 @@ describe('Comments API', () => {
     });
   });
 
+  describe('GET /api/comments/:id/revisions', () => {
+    let testComment: any;
+
+    const edit = (content: string, token = users.user1.accessToken) => {
+      return request(app)
+        .put(`/api/comments/${testComment._id}`)
+        .set(getAuthHeader(token))
+        .send({ content });
+    };
+
+    const getRevisions = (token: string) => {
+      return request(app)
+        .get(`/api/comments/${testComment._id}/revisions`)
+        .set(getAuthHeader(token));
+    };
+
+    beforeEach(async () => {
+      testComment = await createTestComment(testIssue._id, users.user2._id, 'Will be fixed by Friday');
+    });
+
+    it('should mark edited comments and keep every earlier revision', async () => {
+      await edit('Will be fixed next week', users.user2.accessToken);
+      const response = await edit('Will be fixed next month', users.user2.accessToken);
+
+      expect(response.body.data.comment.edited).toBe(true);
+      expect(response.body.data.comment.editedAt).toBeDefined();
+
+      const revisions = await getRevisions(users.user2.accessToken);
+
+      assertSuccessResponse(revisions, 200);
+      expect(revisions.body.data.comment.content).toBe('Will be fixed next month');
+      expect(revisions.body.data.revisions.map((revision: any) => [revision.revision, revision.content])).toEqual([
+        [1, 'Will be fixed by Friday'],
+        [2, 'Will be fixed next week']
+      ]);
+      expect(revisions.body.data.revisions[0].editedBy.email).toBe(users.user2.email);
+    });
+
+    it('should not keep a revision when the content is unchanged', async () => {
+      const response = await edit('Will be fixed by Friday', users.user2.accessToken);
+
+      assertSuccessResponse(response, 200);
+      expect(response.body.data.comment.edited).toBe(false);
+      expect(await CommentRevision.countDocuments({ commentId: testComment._id })).toBe(0);
+    });
+
+    it('should allow the issue owner and admins to see revisions', async () => {
+      await edit('Will be fixed next week', users.user2.accessToken);
+
+      assertSuccessResponse(await getRevisions(users.user1.accessToken), 200);
+      assertSuccessResponse(await getRevisions(users.admin.accessToken), 200);
+    });
+
+    it('should not show revisions to other users', async () => {
+      const adminIssue = await createTestIssue(users.admin._id);
+      testComment = await createTestComment(adminIssue._id, users.admin._id, 'Admin comment');
+
+      const response = await getRevisions(users.user1.accessToken);
+
+      assertErrorResponse(response, 403);
+    });
+
+    it('should remove revisions with the comment', async () => {
+      await edit('Will be fixed next week', users.user2.accessToken);
+
+      await request(app)
+        .delete(`/api/comments/${testComment._id}`)
+        .set(getAuthHeader(users.user2.accessToken));
+
+      expect(await CommentRevision.countDocuments({ commentId: testComment._id })).toBe(0);
+    });
+  });
+
   describe('DELETE /api/comments/:id', () => {
     let testComment: any;
 
@@ -421,6 +497,125 @@ describe('Comments API', () => {
     });
   });
 
+  describe('POST /api/comments/:id/replies', () => {
+    let parent: any;
+
+    const reply = (commentId: string, token: string, content = 'A reply') => {
+      return request(app)
+        .post(`/api/comments/${commentId}/replies`)
+        .set(getAuthHeader(token))
+        .send({ content });
+    };
+
+    beforeEach(async () => {
+      parent = await createTestComment(testIssue._id, users.user1._id, 'Parent comment');
+    });
+
+    it('should reply to a comment', async () => {
+      const response = await reply(parent._id, users.user2.accessToken);
+
+      assertSuccessResponse(response, 201);
+      expect(response.body.data.comment.parentId).toBe(parent._id.toString());
+      expect(response.body.data.comment.issueId).toBe(testIssue._id);
+      expect(response.body.data.comment.depth).toBe(1);
+    });
+
+    it('should return threads with their replies and reply counts', async () => {
+      await reply(parent._id, users.user2.accessToken, 'First reply');
+      await reply(parent._id, users.user1.accessToken, 'Second reply');
+      await createTestComment(testIssue._id, users.user2._id, 'Other thread');
+
+      const response = await request(app)
+        .get(`/api/comments/issue/${testIssue._id}`)
+        .set(getAuthHeader(users.user1.accessToken));
+
+      assertSuccessResponse(response, 200);
+      expect(response.body.pagination.total).toBe(2);
+      const thread = response.body.data.find((comment: any) => comment._id === parent._id.toString());
+      expect(thread.replyCount).toBe(2);
+      expect(thread.replies.map((comment: any) => comment.content)).toEqual(['First reply', 'Second reply']);
+    });
+
+    it('should not nest replies deeper than allowed', async () => {
+      const first = await reply(parent._id, users.user2.accessToken);
+
+      const response = await reply(first.body.data.comment._id, users.user1.accessToken);
+
+      assertErrorResponse(response, 400);
+    });
+
+    it('should not reply to a comment on an issue the user cannot comment on', async () => {
+      await User.findByIdAndUpdate(users.user2._id, { role: 'viewer' });
+
+      const response = await reply(parent._id, users.user2.accessToken);
+
+      assertErrorResponse(response, 403);
+    });
+  });
+
+  describe('Deleting threaded comments', () => {
+    let parent: any;
+    let replyComment: any;
+
+    beforeEach(async () => {
+      parent = await createTestComment(testIssue._id, users.user1._id, 'Parent comment');
+      const response = await request(app)
+        .post(`/api/comments/${parent._id}/replies`)
+        .set(getAuthHeader(users.user2.accessToken))
+        .send({ content: 'A reply' });
+      replyComment = response.body.data.comment;
+    });
+
+    it('should keep a deleted comment with replies as a placeholder', async () => {
+      const response = await request(app)
+        .delete(`/api/comments/${parent._id}`)
+        .set(getAuthHeader(users.user1.accessToken));
+
+      assertSuccessResponse(response, 200);
+      expect(response.body.data.placeholder).toBe(true);
+
+      const threads = await request(app)
+        .get(`/api/comments/issue/${testIssue._id}`)
+        .set(getAuthHeader(users.user1.accessToken));
+
+      const thread = threads.body.data[0];
+      expect(thread.deleted).toBe(true);
+      expect(thread.content).toBeUndefined();
+      expect(thread.replies[0].content).toBe('A reply');
+    });
+
+    it('should remove the placeholder with its last reply', async () => {
+      await request(app)
+        .delete(`/api/comments/${parent._id}`)
+        .set(getAuthHeader(users.user1.accessToken));
+
+      const response = await request(app)
+        .delete(`/api/comments/${replyComment._id}`)
+        .set(getAuthHeader(users.user2.accessToken));
+
+      assertSuccessResponse(response, 200);
+      expect(await Comment.countDocuments({ issueId: testIssue._id })).toBe(0);
+    });
+
+    it('should not edit or reply to a placeholder', async () => {
+      await request(app)
+        .delete(`/api/comments/${parent._id}`)
+        .set(getAuthHeader(users.user1.accessToken));
+
+      const update = await request(app)
+        .put(`/api/comments/${parent._id}`)
+        .set(getAuthHeader(users.user1.accessToken))
+        .send({ content: 'Restored' });
+      const reply = await request(app)
+        .post(`/api/comments/${parent._id}/replies`)
+        .set(getAuthHeader(users.user2.accessToken))
+        .send({ content: 'Another reply' });
+
+      assertErrorResponse(update, 409);
+      assertErrorResponse(reply, 409);
+    });
+  });
+
   describe('Comment Validation', () => {
     it('should validate comment content length', async () => {
       const commentData = {
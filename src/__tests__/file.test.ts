@@ -2,6 +2,13 @@ import request from 'supertest';
 import app from '../app';
 import path from 'path';
 import fs from 'fs';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { File } from '../models/File';
+import { FileBlob } from '../models/FileBlob';
+import { SignedUrl } from '../utils/signedUrl';
+import { storage } from '../utils/storage';
+import { malwareScanner } from '../utils/malwareScanner';
 import { createTestUsers, createTestIssue, getAuthHeader, assertErrorResponse,  assertSuccessResponse } from './utils/testHelpers';
 
 describe('Files API', () => {
@@ -153,6 +160,60 @@ describe('Files API', () => {
     });
   });
 
+  describe('Content type detection', () => {
+    const uploadBuffer = (buffer: Buffer, filename: string, contentType?: string) => {
+      return request(app)
+        .post(`/api/files/issue/${testIssue._id}/upload`)
+        .set(getAuthHeader(users.user1.accessToken))
+        .attach('files', buffer, contentType ? { filename, contentType } : filename);
+    };
+
+    it('should store the type detected from the content', async () => {
+      const response = await request(app)
+        .post(`/api/files/issue/${testIssue._id}/upload`)
+        .set(getAuthHeader(users.user1.accessToken))
+        .attach('files', testImagePath);
+
+      assertSuccessResponse(response, 201);
+      expect(response.body.data.files[0].detectedMimetype).toBe('image/png');
+    });
+
+    it('should reject content that does not match the declared type', async () => {
+      const response = await uploadBuffer(Buffer.from('<script>alert(1)</script>'), 'avatar.png', 'image/png');
+
+      assertErrorResponse(response, 400);
+      expect(response.body.error.message).toContain('does not match its declared type');
+    });
+
+    it('should reject content that does not match the extension', async () => {
+      const pdf = Buffer.from('%PDF-1.4\n%test document\n');
+      const response = await uploadBuffer(pdf, 'report.txt', 'application/pdf');
+
+      assertErrorResponse(response, 400);
+      expect(response.body.error.message).toContain('does not match its file extension');
+    });
+
+    it('should reject binary content that is not an allowed type', async () => {
+      const response = await uploadBuffer(Buffer.from([0x00, 0x01, 0x02, 0xfe, 0xff]), 'notes.txt', 'text/plain');
+
+      assertErrorResponse(response, 400);
+      expect(response.body.error.message).toContain('does not match any allowed file type');
+    });
+
+    it('should accept a ZIP archive declared as a spreadsheet', async () => {
+      const zip = Buffer.concat([Buffer.from([0x50, 0x4b, 0x03, 0x04]), Buffer.alloc(26), Buffer.from('xl/workbook.xml')]);
+      const response = await uploadBuffer(
+        zip,
+        'budget.xlsx',
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      );
+
+      assertSuccessResponse(response, 201);
+      expect(response.body.data.files[0].detectedMimetype)
+        .toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    });
+  });
+
   describe('GET /api/files/issue/:issueId', () => {
     let uploadedFile: any;
 
@@ -248,6 +309,8 @@ describe('Files API', () => {
         .attach('files', testFilePath);
       
       uploadedFile = uploadResponse.body.data.files[0];
+      // Downloads are only allowed once the malware scan passed
+      await malwareScanner.idle();
     });
 
     it('should download file successfully', async () => {
@@ -280,6 +343,197 @@ describe('Files API', () => {
     });
   });
 
+  describe('Range and conditional downloads', () => {
+    const content = 'This is a test file content for uploading';
+    let uploadedFile: any;
+
+    const download = (headers: Record<string, string> = {}, query = '') => {
+      return request(app)
+        .get(`/api/files/${uploadedFile._id}/download${query}`)
+        .set(getAuthHeader(users.user1.accessToken))
+        .set(headers);
+    };
+
+    beforeEach(async () => {
+      const uploadResponse = await request(app)
+        .post(`/api/files/issue/${testIssue._id}/upload`)
+        .set(getAuthHeader(users.user1.accessToken))
+        .attach('files', testFilePath);
+
+      uploadedFile = uploadResponse.body.data.files[0];
+      // Downloads are only allowed once the malware scan passed
+      await malwareScanner.idle();
+    });
+
+    it('should send an ETag derived from the content checksum', async () => {
+      const response = await download();
+
+      const checksum = crypto.createHash('sha256').update(content).digest('hex');
+      expect(response.headers.etag).toBe(`"${checksum}"`);
+      expect(response.headers['last-modified']).toBeDefined();
+      expect(response.headers['accept-ranges']).toBe('bytes');
+    });
+
+    it('should return partial content for a byte range', async () => {
+      const response = await download({ Range: 'bytes=5-11' });
+
+      expect(response.status).toBe(206);
+      expect(response.text).toBe(content.slice(5, 12));
+      expect(response.headers['content-range']).toBe(`bytes 5-11/${content.length}`);
+      expect(response.headers['content-length']).toBe('7');
+    });
+
+    it('should return the end of the file for a suffix range', async () => {
+      const response = await download({ Range: 'bytes=-9' });
+
+      expect(response.status).toBe(206);
+      expect(response.text).toBe(content.slice(-9));
+    });
+
+    it('should reject a range outside the file', async () => {
+      const response = await download({ Range: `bytes=${content.length + 10}-` });
+
+      assertErrorResponse(response, 416);
+      expect(response.headers['content-range']).toBe(`bytes */${content.length}`);
+    });
+
+    it('should send the whole file when If-Range does not match', async () => {
+      const response = await download({ Range: 'bytes=0-3', 'If-Range': '"outdated"' });
+
+      expect(response.status).toBe(200);
+      expect(response.text).toBe(content);
+    });
+
+    it('should answer 304 when the ETag matches', async () => {
+      const first = await download();
+      const response = await download({ 'If-None-Match': first.headers.etag });
+
+      expect(response.status).toBe(304);
+      expect(response.text).toBe('');
+    });
+
+    it('should answer 304 when not modified since', async () => {
+      const first = await download();
+      const response = await download({ 'If-Modified-Since': first.headers['last-modified'] });
+
+      expect(response.status).toBe(304);
+    });
+
+    it('should serve previewable types inline on request', async () => {
+      const response = await download({}, '?disposition=inline');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-disposition']).toMatch(/^inline; filename="test-file.txt"/);
+    });
+
+    it('should allow range and conditional headers from other origins', async () => {
+      const preflight = await request(app)
+        .options(`/api/files/${uploadedFile._id}/download`)
+        .set('Origin', 'http://localhost:4200')
+        .set('Access-Control-Request-Method', 'GET')
+        .set('Access-Control-Request-Headers', 'authorization,range,if-none-match');
+
+      expect(preflight.headers['access-control-allow-headers']).toContain('Range');
+      expect(preflight.headers['access-control-allow-headers']).toContain('If-None-Match');
+
+      const response = await download({ Origin: 'http://localhost:4200', Range: 'bytes=0-3' });
+      expect(response.headers['access-control-expose-headers']).toContain('Content-Range');
+      expect(response.headers['access-control-expose-headers']).toContain('ETag');
+    });
+
+    it('should reject an unknown disposition', async () => {
+      const response = await download({}, '?disposition=preview');
+
+      assertErrorResponse(response, 400);
+    });
+  });
+
+  describe('GET /api/files/:id/url', () => {
+    let uploadedFile: any;
+
+    const getSignedPath = async (fileId: string, token: string) => {
+      const response = await request(app)
+        .get(`/api/files/${fileId}/url`)
+        .set(getAuthHeader(token));
+      return response;
+    };
+
+    beforeEach(async () => {
+      const uploadResponse = await request(app)
+        .post(`/api/files/issue/${testIssue._id}/upload`)
+        .set(getAuthHeader(users.user1.accessToken))
+        .attach('files', testFilePath);
+
+      uploadedFile = uploadResponse.body.data.files[0];
+      // Downloads are only allowed once the malware scan passed
+      await malwareScanner.idle();
+    });
+
+    it('should return a signed URL that downloads without a token', async () => {
+      const urlResponse = await getSignedPath(uploadedFile._id, users.user1.accessToken);
+
+      assertSuccessResponse(urlResponse, 200);
+      expect(new Date(urlResponse.body.data.expiresAt).getTime()).toBeGreaterThan(Date.now());
+
+      const signedUrl = new URL(urlResponse.body.data.url);
+      const response = await request(app).get(signedUrl.pathname + signedUrl.search);
+
+      expect(response.status).toBe(200);
+      expect(response.text).toContain('This is a test file content');
+    });
+
+    it('should reject a tampered signature', async () => {
+      const urlResponse = await getSignedPath(uploadedFile._id, users.user1.accessToken);
+      const signedUrl = new URL(urlResponse.body.data.url);
+      signedUrl.searchParams.set('signature', '0'.repeat(64));
+
+      const response = await request(app).get(signedUrl.pathname + signedUrl.search);
+
+      assertErrorResponse(response, 401);
+    });
+
+    it('should reject an expired signed URL', async () => {
+      const expires = Math.floor(Date.now() / 1000) - 10;
+      const signature = SignedUrl.createSignature(uploadedFile._id, 'download', expires);
+
+      const response = await request(app)
+        .get(`/api/files/${uploadedFile._id}/download?expires=${expires}&signature=${signature}`);
+
+      assertErrorResponse(response, 401);
+    });
+
+    it('should require authentication to get a signed URL', async () => {
+      const response = await request(app).get(`/api/files/${uploadedFile._id}/url`);
+
+      assertErrorResponse(response, 401);
+    });
+
+    it('should still require a token when no signature is given', async () => {
+      const response = await request(app).get(`/api/files/${uploadedFile._id}/download`);
+
+      assertErrorResponse(response, 401);
+    });
+
+    it('should require a file URL secret of its own', () => {
+      const secret = process.env.FILE_URL_SECRET;
+      try {
+        delete process.env.FILE_URL_SECRET;
+        expect(() => SignedUrl.assertConfigured()).toThrow('FILE_URL_SECRET environment variable is not defined');
+
+        process.env.FILE_URL_SECRET = process.env.JWT_SECRET;
+        expect(() => SignedUrl.assertConfigured()).toThrow('FILE_URL_SECRET must differ from JWT_SECRET');
+      } finally {
+        process.env.FILE_URL_SECRET = secret;
+      }
+    });
+
+    it('should not serve uploads publicly', async () => {
+      const response = await request(app).get(`/uploads/${uploadedFile.filename}`);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
   describe('DELETE /api/files/:id', () => {
     let uploadedFile: any;
 
@@ -483,6 +737,176 @@ describe('Files API', () => {
       expect(response.body.data.existingFiles).toBe(1);
       expect(response.body.data.missingFiles).toBe(0);
       expect(response.body.data.files[0].exists).toBe(true);
+      expect(response.body.data.files[0].status).toBe('ok');
+    });
+
+    it('should detect corrupted contents', async () => {
+      const fileDoc = await File.findById(uploadedFile._id);
+      await storage.put(fileDoc!.storageKey, Readable.from(['tampered contents']));
+
+      const response = await request(app)
+        .get(`/api/files/issue/${testIssue._id}/validate`)
+        .set(getAuthHeader(users.user1.accessToken));
+
+      assertSuccessResponse(response, 200);
+      expect(response.body.data.corruptedFiles).toBe(1);
+      expect(response.body.data.missingFiles).toBe(0);
+      expect(response.body.data.files[0].status).toBe('corrupted');
+    });
+
+    it('should detect missing contents', async () => {
+      const fileDoc = await File.findById(uploadedFile._id);
+      await storage.delete(fileDoc!.storageKey);
+
+      const response = await request(app)
+        .get(`/api/files/issue/${testIssue._id}/validate`)
+        .set(getAuthHeader(users.user1.accessToken));
+
+      expect(response.body.data.missingFiles).toBe(1);
+      expect(response.body.data.files[0].status).toBe('missing');
+    });
+  });
+
+  describe('Deduplication', () => {
+    let otherIssue: any;
+
+    const upload = async (issueId: string) => {
+      const response = await request(app)
+        .post(`/api/files/issue/${issueId}/upload`)
+        .set(getAuthHeader(users.user1.accessToken))
+        .attach('files', testFilePath);
+      return response.body.data.files[0];
+    };
+
+    beforeEach(async () => {
+      otherIssue = await createTestIssue(users.user1._id);
+    });
+
+    it('should store identical uploads once', async () => {
+      const first = await upload(testIssue._id);
+      const second = await upload(otherIssue._id);
+
+      const [firstDoc, secondDoc] = await Promise.all([File.findById(first._id), File.findById(second._id)]);
+      expect(firstDoc!.checksum).toBe(secondDoc!.checksum);
+      expect(firstDoc!.storageKey).toBe(secondDoc!.storageKey);
+
+      const blob = await FileBlob.findOne({ checksum: firstDoc!.checksum });
+      expect(blob!.refCount).toBe(2);
+    });
+
+    it('should keep shared contents until the last file is deleted', async () => {
+      const first = await upload(testIssue._id);
+      const second = await upload(otherIssue._id);
+      const storageKey = (await File.findById(first._id))!.storageKey;
+
+      await malwareScanner.idle();
+      await request(app)
+        .delete(`/api/files/${first._id}`)
+        .set(getAuthHeader(users.user1.accessToken));
+
+      expect(await storage.exists(storageKey)).toBe(true);
+      const downloadResponse = await request(app)
+        .get(`/api/files/${second._id}/download`)
+        .set(getAuthHeader(users.user1.accessToken));
+      expect(downloadResponse.text).toContain('This is a test file content');
+
+      await request(app)
+        .delete(`/api/files/${second._id}`)
+        .set(getAuthHeader(users.user1.accessToken));
+
+      expect(await storage.exists(storageKey)).toBe(false);
+      expect(await FileBlob.countDocuments()).toBe(0);
+    });
+  });
+
+  describe('File versions', () => {
+    let original: any;
+
+    const uploadVersion = (fileId: string, content: string, token = users.user1.accessToken) => {
+      return request(app)
+        .post(`/api/files/${fileId}/versions`)
+        .set(getAuthHeader(token))
+        .attach('file', Buffer.from(content), 'app.log');
+    };
+
+    beforeEach(async () => {
+      const response = await request(app)
+        .post(`/api/files/issue/${testIssue._id}/upload`)
+        .set(getAuthHeader(users.user1.accessToken))
+        .attach('files', Buffer.from('first log'), 'app.log');
+      original = response.body.data.files[0];
+    });
+
+    it('should upload a new version and list only the latest for the issue', async () => {
+      const response = await uploadVersion(original._id, 'second log', users.admin.accessToken);
+
+      assertSuccessResponse(response, 201);
+      expect(response.body.data.file.version).toBe(2);
+      expect(response.body.data.file.versionOf).toBe(original._id);
+      expect(response.body.data.file.uploadedBy._id).toBe(users.admin._id.toString());
+
+      const listResponse = await request(app)
+        .get(`/api/files/issue/${testIssue._id}`)
+        .set(getAuthHeader(users.user1.accessToken));
+      expect(listResponse.body.data.files).toHaveLength(1);
+      expect(listResponse.body.data.files[0]._id).toBe(response.body.data.file._id);
+    });
+
+    it('should list all versions with their uploaders', async () => {
+      await uploadVersion(original._id, 'second log', users.admin.accessToken);
+      const third = await uploadVersion(original._id, 'third log');
+
+      const response = await request(app)
+        .get(`/api/files/${third.body.data.file._id}/versions`)
+        .set(getAuthHeader(users.user2.accessToken));
+
+      assertSuccessResponse(response, 200);
+      const versions = response.body.data.versions;
+      expect(versions.map((version: any) => version.version)).toEqual([3, 2, 1]);
+      expect(versions.map((version: any) => version.uploadedBy.email)).toEqual([
+        users.user1.email, users.admin.email, users.user1.email
+      ]);
+      expect(versions.map((version: any) => version.isLatest)).toEqual([true, false, false]);
+    });
+
+    it('should keep earlier versions downloadable', async () => {
+      await uploadVersion(original._id, 'second log');
+      await malwareScanner.idle();
+
+      const firstResponse = await request(app)
+        .get(`/api/files/${original._id}/versions/1/download`)
+        .set(getAuthHeader(users.user1.accessToken));
+      const latestResponse = await request(app)
+        .get(`/api/files/${original._id}/versions/2/download`)
+        .set(getAuthHeader(users.user1.accessToken));
+
+      expect(firstResponse.text).toBe('first log');
+      expect(latestResponse.text).toBe('second log');
+    });
+
+    it('should return 404 for unknown versions', async () => {
+      const response = await request(app)
+        .get(`/api/files/${original._id}/versions/5/download`)
+        .set(getAuthHeader(users.user1.accessToken));
+
+      assertErrorResponse(response, 404);
+    });
+
+    it('should make the previous version the latest when the latest is deleted', async () => {
+      const second = await uploadVersion(original._id, 'second log');
+
+      await request(app)
+        .delete(`/api/files/${second.body.data.file._id}`)
+        .set(getAuthHeader(users.user1.accessToken));
+
+      const file = await File.findById(original._id);
+      expect(file!.isLatest).toBe(true);
+    });
+
+    it('should not allow uploading versions to issues of other users', async () => {
+      const response = await uploadVersion(original._id, 'second log', users.user2.accessToken);
+
+      assertErrorResponse(response, 403);
     });
   });
 
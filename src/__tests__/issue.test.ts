@@ -1,6 +1,7 @@
 import request from 'supertest';
 import app from '../app';
 import { Issue } from '../models/Issue';
+import { IssueHistory } from '../models/IssueHistory';
 import { createTestUsers, createTestIssue, getAuthHeader, createIssueViaAPI, assertErrorResponse, assertSuccessResponse, assertPaginationStructure } from './utils/testHelpers';
 
 describe('Issues API', () => {
@@ -283,6 +284,19 @@ describe('Issues API', () => {
       expect(response.body.data.issue.status).toBe('complete');
     });
 
+    it('should apply only one of two concurrent transitions', async () => {
+      const responses = await Promise.all([1, 2].map(() => request(app)
+        .patch(`/api/issues/${testIssue._id}/status`)
+        .set(getAuthHeader(users.user1.accessToken))
+        .send({ status: 'complete' })));
+
+      const statuses = responses.map(response => response.status).sort();
+      expect(statuses[0]).toBe(200);
+      // The loser either saw the old status and lost the update, or already saw the new one
+      expect([409, 422]).toContain(statuses[1]);
+      expect(await IssueHistory.countDocuments({ issueId: testIssue._id, action: 'status_changed' })).toBe(1);
+    });
+
     it('should not update status with invalid value', async () => {
       const response = await request(app)
         .patch(`/api/issues/${testIssue._id}/status`)
@@ -300,6 +314,116 @@ describe('Issues API', () => {
 
       assertErrorResponse(response, 403);
     });
+
+    it('should reject transitions the workflow does not permit', async () => {
+      const workflowResponse = await request(app)
+        .post('/api/workflows')
+        .set(getAuthHeader(users.user1.accessToken))
+        .send({
+          name: 'Triage Flow',
+          statuses: [
+            { key: 'triage', name: 'Triage', isInitial: true },
+            { key: 'in-progress', name: 'In Progress' },
+            { key: 'done', name: 'Done', isFinal: true }
+          ],
+          transitions: [
+            { from: 'triage', to: 'in-progress' },
+            { from: 'in-progress', to: 'done' }
+          ]
+        });
+
+      const issueResponse = await createIssueViaAPI(users.user1.accessToken, {
+        title: 'Workflow Issue',
+        description: 'Governed by the triage workflow',
+        workflow: workflowResponse.body.data.workflow._id
+      });
+      expect(issueResponse.body.data.issue.status).toBe('triage');
+
+      const response = await request(app)
+        .patch(`/api/issues/${issueResponse.body.data.issue._id}/status`)
+        .set(getAuthHeader(users.user1.accessToken))
+        .send({ status: 'done' });
+
+      assertErrorResponse(response, 422);
+      expect(response.body.error.message).toContain('in-progress');
+    });
+  });
+
+  describe('GET /api/issues/:id/history', () => {
+    it('should record who changed which field and why', async () => {
+      const createResponse = await createIssueViaAPI(users.user1.accessToken, {
+        title: 'Tracked Issue',
+        description: 'History should be kept',
+        priority: 'high'
+      });
+      const issueId = createResponse.body.data.issue._id;
+
+      await request(app)
+        .put(`/api/issues/${issueId}`)
+        .set(getAuthHeader(users.user1.accessToken))
+        .send({ priority: 'low', assignedTo: users.user2._id, reason: 'Workaround available' });
+
+      await request(app)
+        .patch(`/api/issues/${issueId}/status`)
+        .set(getAuthHeader(users.user1.accessToken))
+        .send({ status: 'complete' });
+
+      const response = await request(app)
+        .get(`/api/issues/${issueId}/history`)
+        .set(getAuthHeader(users.user1.accessToken));
+
+      assertSuccessResponse(response, 200);
+      assertPaginationStructure(response);
+      expect(response.body.data.map((entry: any) => entry.action)).toEqual(['status_changed', 'updated', 'created']);
+
+      const update = response.body.data[1];
+      expect(update.changedBy._id).toBe(users.user1._id);
+      expect(update.reason).toBe('Workaround available');
+      expect(update.changes).toEqual(expect.arrayContaining([
+        { field: 'priority', from: 'high', to: 'low' },
+        { field: 'assignedTo', from: null, to: users.user2._id }
+      ]));
+    });
+
+    it('should paginate history entries', async () => {
+      const testIssue = await createTestIssue(users.user1._id);
+      for (const priority of ['low', 'high', 'low']) {
+        await request(app)
+          .put(`/api/issues/${testIssue._id}`)
+          .set(getAuthHeader(users.user1.accessToken))
+          .send({ priority });
+      }
+
+      const response = await request(app)
+        .get(`/api/issues/${testIssue._id}/history?page=1&limit=2`)
+        .set(getAuthHeader(users.user1.accessToken));
+
+      assertSuccessResponse(response, 200);
+      expect(response.body.data.length).toBe(2);
+      expect(response.body.pagination.total).toBe(3);
+    });
+
+    it('should not get history for non-existent issue', async () => {
+      const response = await request(app)
+        .get('/api/issues/507f1f77bcf86cd799439011/history')
+        .set(getAuthHeader(users.user1.accessToken));
+
+      assertErrorResponse(response, 404);
+    });
+  });
+
+  describe('GET /api/issues/:id/transitions', () => {
+    it('should list statuses reachable from the current status', async () => {
+      const testIssue = await createTestIssue(users.user1._id);
+
+      const response = await request(app)
+        .get(`/api/issues/${testIssue._id}/transitions`)
+        .set(getAuthHeader(users.user1.accessToken));
+
+      assertSuccessResponse(response, 200);
+      expect(response.body.data.currentStatus).toBe('pending');
+      expect(response.body.data.transitions.map((status: any) => status.key)).toEqual(['complete']);
+    });
   });
 
   describe('DELETE /api/issues/:id', () => {
@@ -324,6 +448,58 @@ describe('Issues API', () => {
       expect(getResponse.status).toBe(404);
     });
 
+    it('should keep the history of a deleted issue', async () => {
+      await request(app)
+        .delete(`/api/issues/${testIssue._id}`)
+        .set(getAuthHeader(users.user1.accessToken));
+
+      const history = await IssueHistory.find({ issueId: testIssue._id });
+      expect(history.map(entry => entry.action)).toEqual(['deleted']);
+      expect(history[0].changedBy.toString()).toBe(users.user1._id.toString());
+      expect(history[0].changes).toEqual(expect.arrayContaining([
+        expect.objectContaining({ field: 'title', from: testIssue.title, to: null })
+      ]));
+    });
+
+    it('should serve the history of a deleted issue', async () => {
+      await request(app)
+        .delete(`/api/issues/${testIssue._id}`)
+        .set(getAuthHeader(users.user1.accessToken));
+
+      const response = await request(app)
+        .get(`/api/issues/${testIssue._id}/history`)
+        .set(getAuthHeader(users.admin.accessToken));
+
+      assertSuccessResponse(response);
+      expect(response.body.data.map((entry: any) => entry.action)).toEqual(['deleted']);
+    });
+
+    it('should keep the history of a deleted project issue restricted to the project', async () => {
+      const created = await request(app)
+        .post('/api/projects')
+        .set(getAuthHeader(users.user1.accessToken))
+        .send({ name: 'Payments', key: 'PAY' });
+      const project = created.body.data.project;
+      const issue = (await request(app)
+        .post(`/api/projects/${project._id}/issues`)
+        .set(getAuthHeader(users.user1.accessToken))
+        .send({ title: 'Project Issue', description: 'Belongs to a project', priority: 'medium' })).body.data.issue;
+
+      await request(app)
+        .delete(`/api/issues/${issue._id}`)
+        .set(getAuthHeader(users.user1.accessToken));
+
+      const memberResponse = await request(app)
+        .get(`/api/issues/${issue._id}/history`)
+        .set(getAuthHeader(users.user1.accessToken));
+      assertSuccessResponse(memberResponse);
+
+      const outsiderResponse = await request(app)
+        .get(`/api/issues/${issue._id}/history`)
+        .set(getAuthHeader(users.user2.accessToken));
+      assertErrorResponse(outsiderResponse, 403);
+    });
+
     it('should not delete issue created by another user', async () => {
       const response = await request(app)
         .delete(`/api/issues/${testIssue._id}`)
@@ -0,0 +1,115 @@
+import request from 'supertest';
+import app from '../app';
+import { Issue } from '../models/Issue';
+import { createTestUsers, getAuthHeader, createIssueViaAPI, assertErrorResponse, assertSuccessResponse } from './utils/testHelpers';
+
+describe('Labels API', () => {
+  let users: any;
+
+  const createLabel = (token: string, name: string, color = '#1d76db') => {
+    return request(app)
+      .post('/api/labels')
+      .set(getAuthHeader(token))
+      .send({ name, color });
+  };
+
+  beforeEach(async () => {
+    users = await createTestUsers();
+  });
+
+  describe('POST /api/labels', () => {
+    it('should create a label successfully', async () => {
+      const response = await createLabel(users.admin.accessToken, 'Frontend');
+
+      assertSuccessResponse(response, 201);
+      expect(response.body.data.label.name).toBe('frontend');
+      expect(response.body.data.label.color).toBe('#1d76db');
+    });
+
+    it('should not create duplicate label', async () => {
+      await createLabel(users.admin.accessToken, 'billing');
+      const response = await createLabel(users.admin.accessToken, 'Billing');
+
+      assertErrorResponse(response, 409);
+    });
+
+    it('should not create label with invalid color', async () => {
+      const response = await createLabel(users.admin.accessToken, 'regression', 'red');
+
+      assertErrorResponse(response, 400);
+    });
+  });
+
+  describe('DELETE /api/labels/:id', () => {
+    it('should detach deleted label from issues', async () => {
+      const labelResponse = await createLabel(users.admin.accessToken, 'frontend');
+      const issueResponse = await createIssueViaAPI(users.user1.accessToken, {
+        title: 'Labelled Issue',
+        description: 'Has a label',
+        labels: ['frontend']
+      });
+
+      const response = await request(app)
+        .delete(`/api/labels/${labelResponse.body.data.label._id}`)
+        .set(getAuthHeader(users.admin.accessToken));
+
+      assertSuccessResponse(response, 200);
+      const issue = await Issue.findById(issueResponse.body.data.issue._id);
+      expect(issue!.labels!.length).toBe(0);
+    });
+  });
+
+  describe('Issue label filtering', () => {
+    beforeEach(async () => {
+      for (const name of ['frontend', 'billing', 'regression']) {
+        await createLabel(users.admin.accessToken, name);
+      }
+      await createIssueViaAPI(users.user1.accessToken, {
+        title: 'Checkout button broken',
+        description: 'Frontend billing regression',
+        labels: ['frontend', 'billing', 'regression']
+      });
+      await createIssueViaAPI(users.user1.accessToken, {
+        title: 'Invoice totals wrong',
+        description: 'Billing only',
+        labels: ['billing']
+      });
+      await createIssueViaAPI(users.user1.accessToken, {
+        title: 'Unlabelled issue',
+        description: 'No labels'
+      });
+    });
+
+    it('should filter issues having any of the labels', async () => {
+      const response = await request(app)
+        .get('/api/issues?labels=frontend,billing')
+        .set(getAuthHeader(users.user1.accessToken));
+
+      assertSuccessResponse(response, 200);
+      expect(response.body.data.length).toBe(2);
+    });
+
+    it('should filter issues having all of the labels', async () => {
+      const response = await request(app)
+        .get('/api/issues?labels=frontend,billing&labelMatch=all')
+        .set(getAuthHeader(users.user1.accessToken));
+
+      assertSuccessResponse(response, 200);
+      expect(response.body.data.length).toBe(1);
+      expect(response.body.data[0].title).toBe('Checkout button broken');
+      expect(response.body.data[0].labels.map((label: any) => label.name).sort())
+        .toEqual(['billing', 'frontend', 'regression']);
+    });
+
+    it('should not attach unknown labels to an issue', async () => {
+      const response = await createIssueViaAPI(users.user1.accessToken, {
+        title: 'Bad label',
+        description: 'Unknown label',
+        labels: ['does-not-exist']
+      });
+
+      assertErrorResponse(response, 400);
+      expect(response.body.error.message).toContain('does-not-exist');
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import request from 'supertest';
+import app from '../app';
+import { Comment } from '../models/Comment';
+import { Issue } from '../models/Issue';
+import { Notification } from '../models/Notification';
+import { User } from '../models/User';
+import { Mentions } from '../utils/mentions';
+import { createTestUsers, createTestIssue, createTestComment, getAuthHeader, assertErrorResponse, assertSuccessResponse } from './utils/testHelpers';
+
+describe('Mentions', () => {
+  let users: any;
+  let testIssue: any;
+
+  const comment = (content: string, accessToken = users.user1.accessToken) => {
+    return request(app)
+      .post(`/api/comments/issue/${testIssue._id}`)
+      .set(getAuthHeader(accessToken))
+      .send({ content });
+  };
+
+  beforeEach(async () => {
+    users = await createTestUsers();
+    testIssue = await createTestIssue(users.user1._id);
+  });
+
+  describe('Mentions.extractHandles', () => {
+    it('should find usernames, email handles and full addresses', () => {
+      const handles = Mentions.extractHandles('Hi @Jane, can @test1@example.com and @john.doe. check? Not mail@example.com');
+
+      expect(handles).toEqual(['jane', 'test1@example.com', 'john.doe']);
+    });
+  });
+
+  describe('Comments', () => {
+    it('should store mentioned users and notify them', async () => {
+      const response = await comment('@test2 please take a look');
+
+      assertSuccessResponse(response, 201);
+      expect(response.body.data.comment.mentions).toEqual([users.user2._id.toString()]);
+
+      const notifications = await Notification.find({ user: users.user2._id });
+      expect(notifications).toHaveLength(1);
+      expect(notifications[0].type).toBe('mention');
+      expect(notifications[0].commentId!.toString()).toBe(response.body.data.comment._id);
+      expect(notifications[0].message).toContain('John Doe mentioned you');
+    });
+
+    it('should resolve usernames before email handles', async () => {
+      await User.findByIdAndUpdate(users.user2._id, { username: 'test1' });
+
+      await comment('@test1 is Jane now', users.admin.accessToken);
+
+      expect(await Notification.countDocuments({ user: users.user2._id })).toBe(1);
+      expect(await Notification.countDocuments({ user: users.user1._id, type: 'mention' })).toBe(0);
+    });
+
+    it('should ignore ambiguous email handles and the author', async () => {
+      await User.create({ email: 'test2@example.org', password: 'password123', firstName: 'Other', lastName: 'Jane' });
+
+      await comment('@test2 and @test1, thoughts?');
+
+      expect(await Notification.countDocuments()).toBe(0);
+    });
+
+    it('should only notify users mentioned by an edit for the first time', async () => {
+      const created = await comment('@test2 first');
+
+      const response = await request(app)
+        .put(`/api/comments/${created.body.data.comment._id}`)
+        .set(getAuthHeader(users.user1.accessToken))
+        .send({ content: '@test2 and @admin second' });
+
+      assertSuccessResponse(response);
+      expect(response.body.data.comment.mentions).toHaveLength(2);
+      expect(await Notification.countDocuments({ user: users.user2._id })).toBe(1);
+      expect(await Notification.countDocuments({ user: users.admin._id })).toBe(1);
+    });
+  });
+
+  describe('Issues', () => {
+    it('should notify users mentioned in the description', async () => {
+      const response = await request(app)
+        .post('/api/issues')
+        .set(getAuthHeader(users.user1.accessToken))
+        .send({ title: 'Broken login', description: 'Seen by @test2 as well', priority: 'high' });
+
+      assertSuccessResponse(response, 201);
+      const issue = await Issue.findById(response.body.data.issue._id);
+      expect(issue!.mentions!.map(id => id.toString())).toEqual([users.user2._id.toString()]);
+
+      const notification = await Notification.findOne({ user: users.user2._id });
+      expect(notification!.commentId).toBeNull();
+      expect(notification!.message).toBe('John Doe mentioned you in "Broken login"');
+    });
+
+    it('should not mention users outside the project of the issue', async () => {
+      const project = await request(app)
+        .post('/api/projects')
+        .set(getAuthHeader(users.user1.accessToken))
+        .send({ name: 'Payments', key: 'PAY' });
+
+      const response = await request(app)
+        .post(`/api/projects/${project.body.data.project._id}/issues`)
+        .set(getAuthHeader(users.user1.accessToken))
+        .send({ title: 'Refunds', description: 'Ask @test2 and @admin', priority: 'medium' });
+
+      assertSuccessResponse(response, 201);
+      expect(await Notification.countDocuments({ user: users.user2._id })).toBe(0);
+      expect(await Notification.countDocuments({ user: users.admin._id })).toBe(1);
+    });
+  });
+
+  describe('GET /api/users/mentionable', () => {
+    it('should suggest users with the handle that mentions them', async () => {
+      await User.findByIdAndUpdate(users.user2._id, { username: 'jane' });
+
+      const response = await request(app)
+        .get(`/api/users/mentionable?q=ja&issueId=${testIssue._id}`)
+        .set(getAuthHeader(users.user1.accessToken));
+
+      assertSuccessResponse(response);
+      expect(response.body.data.users).toHaveLength(1);
+      expect(response.body.data.users[0].handle).toBe('jane');
+      expect(response.body.data.users[0].email).toBeUndefined();
+    });
+
+    it('should require an issue to suggest users for', async () => {
+      const response = await request(app)
+        .get('/api/users/mentionable?q=test')
+        .set(getAuthHeader(users.user1.accessToken));
+
+      assertErrorResponse(response, 400);
+    });
+
+    it('should fall back to the email handle', async () => {
+      const response = await request(app)
+        .get(`/api/users/mentionable?q=test&issueId=${testIssue._id}`)
+        .set(getAuthHeader(users.user2.accessToken));
+
+      assertSuccessResponse(response);
+      expect(response.body.data.users.map((user: any) => user.handle)).toEqual(['test1', 'test2']);
+    });
+
+    it('should return 404 for an unknown issue', async () => {
+      const response = await request(app)
+        .get('/api/users/mentionable?issueId=507f1f77bcf86cd799439011')
+        .set(getAuthHeader(users.user1.accessToken));
+
+      assertErrorResponse(response, 404);
+    });
+  });
+
+  it('should remove notifications with their issue', async () => {
+    await createTestComment(testIssue._id, users.user1._id, 'plain comment');
+    await comment('@test2 ping');
+
+    await request(app)
+      .delete(`/api/issues/${testIssue._id}`)
+      .set(getAuthHeader(users.user1.accessToken));
+
+    expect(await Comment.countDocuments({ issueId: testIssue._id })).toBe(0);
+    expect(await Notification.countDocuments()).toBe(0);
+  });
+});
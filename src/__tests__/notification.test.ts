@@ -0,0 +1,201 @@
+import request from 'supertest';
+import app from '../app';
+import { Notification } from '../models/Notification';
+import { createTestUsers, getAuthHeader, assertErrorResponse, assertSuccessResponse, assertPaginationStructure } from './utils/testHelpers';
+
+describe('Notifications API', () => {
+  let users: any;
+
+  const createIssue = async (accessToken: string, body: Record<string, unknown> = {}) => {
+    const response = await request(app)
+      .post('/api/issues')
+      .set(getAuthHeader(accessToken))
+      .send({ title: 'Broken login', description: 'Users cannot log in', priority: 'high', ...body });
+    return response.body.data.issue;
+  };
+
+  const comment = (issueId: string, accessToken: string, content: string) => {
+    return request(app)
+      .post(`/api/comments/issue/${issueId}`)
+      .set(getAuthHeader(accessToken))
+      .send({ content });
+  };
+
+  const notificationsOf = (user: any, type?: string) => {
+    return Notification.find({ user: user._id, ...(type && { type }) });
+  };
+
+  beforeEach(async () => {
+    users = await createTestUsers();
+  });
+
+  describe('Generated notifications', () => {
+    it('should notify the assignee of a new issue', async () => {
+      await createIssue(users.user1.accessToken, { assignedTo: users.user2._id });
+
+      const notifications = await notificationsOf(users.user2, 'assigned');
+      expect(notifications).toHaveLength(1);
+      expect(notifications[0].message).toBe('John Doe assigned "Broken login" to you');
+    });
+
+    it('should notify a new assignee only when the assignee changes', async () => {
+      const issue = await createIssue(users.user1.accessToken);
+
+      for (const title of ['First title', 'Second title']) {
+        await request(app)
+          .put(`/api/issues/${issue._id}`)
+          .set(getAuthHeader(users.user1.accessToken))
+          .send({ title, assignedTo: users.user2._id });
+      }
+
+      expect(await notificationsOf(users.user2, 'assigned')).toHaveLength(1);
+    });
+
+    it('should notify followers about status changes', async () => {
+      const issue = await createIssue(users.user1.accessToken);
+
+      await request(app)
+        .put(`/api/issues/${issue._id}/follow`)
+        .set(getAuthHeader(users.user2.accessToken));
+
+      await request(app)
+        .patch(`/api/issues/${issue._id}/status`)
+        .set(getAuthHeader(users.admin.accessToken))
+        .send({ status: 'complete' });
+
+      const notifications = await notificationsOf(users.user1, 'status_changed');
+      expect(notifications).toHaveLength(1);
+      expect(notifications[0].message).toContain('from pending to complete');
+      expect(await notificationsOf(users.user2, 'status_changed')).toHaveLength(1);
+      expect(await notificationsOf(users.admin)).toHaveLength(0);
+    });
+
+    it('should not notify users who stopped following an issue', async () => {
+      const issue = await createIssue(users.user1.accessToken);
+
+      const response = await request(app)
+        .delete(`/api/issues/${issue._id}/follow`)
+        .set(getAuthHeader(users.user1.accessToken));
+
+      assertSuccessResponse(response);
+      expect(response.body.data.following).toBe(false);
+
+      await request(app)
+        .patch(`/api/issues/${issue._id}/status`)
+        .set(getAuthHeader(users.admin.accessToken))
+        .send({ status: 'complete' });
+
+      expect(await notificationsOf(users.user1)).toHaveLength(0);
+    });
+
+    it('should notify the creator about comments on their issue', async () => {
+      const issue = await createIssue(users.user1.accessToken);
+
+      await comment(issue._id, users.user2.accessToken, 'I can reproduce this');
+      await comment(issue._id, users.user1.accessToken, 'Thanks');
+
+      const notifications = await notificationsOf(users.user1, 'comment');
+      expect(notifications).toHaveLength(1);
+      expect(notifications[0].actor.toString()).toBe(users.user2._id.toString());
+      expect(await notificationsOf(users.user2)).toHaveLength(0);
+    });
+
+    it('should only send a mention when the comment mentions the creator', async () => {
+      const issue = await createIssue(users.user1.accessToken);
+
+      await comment(issue._id, users.user2.accessToken, '@test1 I can reproduce this');
+
+      const notifications = await notificationsOf(users.user1);
+      expect(notifications.map(notification => notification.type)).toEqual(['mention']);
+    });
+  });
+
+  describe('GET /api/notifications', () => {
+    beforeEach(async () => {
+      await createIssue(users.user1.accessToken, { assignedTo: users.user2._id });
+      await createIssue(users.admin.accessToken, { title: 'Slow search', assignedTo: users.user2._id });
+    });
+
+    it('should get the notifications of the current user, newest first', async () => {
+      const response = await request(app)
+        .get('/api/notifications')
+        .set(getAuthHeader(users.user2.accessToken));
+
+      assertSuccessResponse(response);
+      assertPaginationStructure(response);
+      expect(response.body.data).toHaveLength(2);
+      expect(response.body.data[0].issueId.title).toBe('Slow search');
+      expect(response.body.data[0].actor.firstName).toBe('Admin');
+      expect(response.body.unreadCount).toBe(2);
+    });
+
+    it('should only get unread notifications when asked to', async () => {
+      const [notification] = await notificationsOf(users.user2);
+      await request(app)
+        .patch(`/api/notifications/${notification._id}/read`)
+        .set(getAuthHeader(users.user2.accessToken));
+
+      const response = await request(app)
+        .get('/api/notifications?unread=true')
+        .set(getAuthHeader(users.user2.accessToken));
+
+      assertSuccessResponse(response);
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.unreadCount).toBe(1);
+    });
+
+    it('should not show notifications of other users', async () => {
+      const response = await request(app)
+        .get('/api/notifications')
+        .set(getAuthHeader(users.user1.accessToken));
+
+      assertSuccessResponse(response);
+      expect(response.body.data).toHaveLength(0);
+    });
+  });
+
+  describe('Read state', () => {
+    let notification: any;
+
+    beforeEach(async () => {
+      await createIssue(users.user1.accessToken, { assignedTo: users.user2._id });
+      await createIssue(users.user1.accessToken, { title: 'Slow search', assignedTo: users.user2._id });
+      [notification] = await notificationsOf(users.user2);
+    });
+
+    it('should mark a notification as read', async () => {
+      const response = await request(app)
+        .patch(`/api/notifications/${notification._id}/read`)
+        .set(getAuthHeader(users.user2.accessToken));
+
+      assertSuccessResponse(response);
+      expect(response.body.data.notification.read).toBe(true);
+      expect(response.body.data.notification.readAt).toBeDefined();
+
+      const count = await request(app)
+        .get('/api/notifications/unread-count')
+        .set(getAuthHeader(users.user2.accessToken));
+
+      assertSuccessResponse(count);
+      expect(count.body.data.count).toBe(1);
+    });
+
+    it('should return 404 for notifications of other users', async () => {
+      const response = await request(app)
+        .patch(`/api/notifications/${notification._id}/read`)
+        .set(getAuthHeader(users.user1.accessToken));
+
+      assertErrorResponse(response, 404);
+    });
+
+    it('should mark all notifications as read', async () => {
+      const response = await request(app)
+        .post('/api/notifications/read-all')
+        .set(getAuthHeader(users.user2.accessToken));
+
+      assertSuccessResponse(response);
+      expect(response.body.data.updated).toBe(2);
+      expect(await Notification.countDocuments({ user: users.user2._id, read: false })).toBe(0);
+    });
+  });
+});
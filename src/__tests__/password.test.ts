@@ -0,0 +1,151 @@
+import request from 'supertest';
+import app from '../app';
+import { User } from '../models/User';
+import { UserToken } from '../models/UserToken';
+import { mailer, ConsoleTransport, MemoryTransport } from '../utils/mailer';
+import { logger } from '../utils/logger';
+import { testUsers, createTestUser, registerUser, getAuthHeader, assertErrorResponse, assertSuccessResponse } from './utils/testHelpers';
+
+describe('Password reset and email verification', () => {
+  let outbox: MemoryTransport;
+
+  // Pull the token out of the link in a mail
+  const tokenFrom = (to: string): string => {
+    const message = outbox.lastTo(to);
+    const match = message?.text.match(/token=([a-f0-9]{64})/);
+    if (!match) {
+      throw new Error(`No token mailed to ${to}`);
+    }
+    return match[1];
+  };
+
+  beforeEach(() => {
+    outbox = mailer.getTransport() as MemoryTransport;
+    outbox.clear();
+  });
+
+  describe('Email verification', () => {
+    it('should send a verification link on register and verify the address once', async () => {
+      const registerResponse = await registerUser(testUsers.user1);
+      expect(registerResponse.body.data.user.emailVerified).toBe(false);
+
+      const token = tokenFrom(testUsers.user1.email);
+      const response = await request(app)
+        .post('/api/auth/verify-email')
+        .send({ token });
+
+      assertSuccessResponse(response, 200);
+      const user = await User.findOne({ email: testUsers.user1.email });
+      expect(user!.emailVerified).toBe(true);
+
+      const reuseResponse = await request(app)
+        .post('/api/auth/verify-email')
+        .send({ token });
+      assertErrorResponse(reuseResponse, 400);
+    });
+
+    it('should resend the verification link to unverified users', async () => {
+      const testUser = await createTestUser();
+
+      const response = await request(app)
+        .post('/api/auth/resend-verification')
+        .set(getAuthHeader(testUser.accessToken));
+
+      assertSuccessResponse(response, 200);
+      expect(outbox.lastTo(testUser.email)!.subject).toBe('Verify your email address');
+    });
+  });
+
+  describe('POST /api/auth/forgot-password', () => {
+    it('should mail a reset link to registered users', async () => {
+      await createTestUser();
+
+      const response = await request(app)
+        .post('/api/auth/forgot-password')
+        .send({ email: testUsers.user1.email });
+
+      assertSuccessResponse(response, 200);
+      expect(outbox.lastTo(testUsers.user1.email)!.subject).toBe('Reset your password');
+
+      const stored = await UserToken.findOne({ purpose: 'password_reset' });
+      expect(stored!.tokenHash).not.toBe(tokenFrom(testUsers.user1.email));
+    });
+
+    it('should respond the same way for unknown addresses', async () => {
+      const response = await request(app)
+        .post('/api/auth/forgot-password')
+        .send({ email: 'nobody@example.com' });
+
+      assertSuccessResponse(response, 200);
+      expect(outbox.messages.length).toBe(0);
+    });
+  });
+
+  describe('POST /api/auth/reset-password', () => {
+    let testUser: any;
+
+    beforeEach(async () => {
+      testUser = await createTestUser();
+      await request(app)
+        .post('/api/auth/forgot-password')
+        .send({ email: testUser.email });
+    });
+
+    it('should reset the password with a valid token only once', async () => {
+      const token = tokenFrom(testUser.email);
+
+      const response = await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token, password: 'brandnewpassword' });
+      assertSuccessResponse(response, 200);
+
+      const loginResponse = await request(app)
+        .post('/api/auth/login')
+        .send({ email: testUser.email, password: 'brandnewpassword' });
+      expect(loginResponse.status).toBe(200);
+
+      const reuseResponse = await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token, password: 'anotherpassword' });
+      assertErrorResponse(reuseResponse, 400);
+    });
+
+    it('should revoke existing sessions', async () => {
+      await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token: tokenFrom(testUser.email), password: 'brandnewpassword' });
+
+      const refreshResponse = await request(app)
+        .post('/api/auth/refresh-token')
+        .send({ refreshToken: testUser.refreshToken });
+      assertErrorResponse(refreshResponse, 401);
+    });
+
+    it('should not accept an expired token', async () => {
+      await UserToken.updateMany({ purpose: 'password_reset' }, { expiresAt: new Date(Date.now() - 1000) });
+
+      const response = await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token: tokenFrom(testUser.email), password: 'brandnewpassword' });
+
+      assertErrorResponse(response, 400);
+    });
+  });
+
+  describe('ConsoleTransport', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should not log the links of a message outside development and test', async () => {
+      const info = jest.spyOn(logger, 'info').mockImplementation(() => logger);
+      const warn = jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+
+      await new ConsoleTransport(false).send({ to: 'test1@example.com', subject: 'Reset your password', text: 'token=secret' });
+
+      const logged = [...info.mock.calls, ...warn.mock.calls].map(call => String(call[0])).join('\n');
+      expect(logged).toContain('test1@example.com');
+      expect(logged).not.toContain('token=secret');
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import request from 'supertest';
+import app from '../app';
+import { createTestUsers, getAuthHeader, assertErrorResponse, assertSuccessResponse, assertPaginationStructure } from './utils/testHelpers';
+
+describe('Projects API', () => {
+  let users: any;
+  let project: any;
+
+  const createProjectIssue = (token: string, projectId: string, title = 'Project Issue') => {
+    return request(app)
+      .post(`/api/projects/${projectId}/issues`)
+      .set(getAuthHeader(token))
+      .send({ title, description: 'Belongs to a project', priority: 'medium' });
+  };
+
+  beforeEach(async () => {
+    users = await createTestUsers();
+
+    const response = await request(app)
+      .post('/api/projects')
+      .set(getAuthHeader(users.user1.accessToken))
+      .send({ name: 'Payments', key: 'pay' });
+    project = response.body.data.project;
+  });
+
+  describe('POST /api/projects', () => {
+    it('should create a project with the creator as owner and member', async () => {
+      expect(project.key).toBe('PAY');
+      expect(project.owner._id).toBe(users.user1._id);
+      expect(project.memberCount).toBe(1);
+    });
+
+    it('should not create project with a duplicate key', async () => {
+      const response = await request(app)
+        .post('/api/projects')
+        .set(getAuthHeader(users.user2.accessToken))
+        .send({ name: 'Other Payments', key: 'PAY' });
+
+      assertErrorResponse(response, 409);
+    });
+
+    it('should not create project with an invalid key', async () => {
+      const response = await request(app)
+        .post('/api/projects')
+        .set(getAuthHeader(users.user1.accessToken))
+        .send({ name: 'Bad Key', key: '1-bad' });
+
+      assertErrorResponse(response, 400);
+    });
+  });
+
+  describe('POST /api/projects/:projectId/issues', () => {
+    it('should assign sequential issue keys', async () => {
+      const first = await createProjectIssue(users.user1.accessToken, project._id);
+      const second = await createProjectIssue(users.user1.accessToken, project._id);
+
+      assertSuccessResponse(first, 201);
+      expect(first.body.data.issue.key).toBe('PAY-1');
+      expect(second.body.data.issue.key).toBe('PAY-2');
+    });
+
+    it('should assign unique keys to concurrently created issues', async () => {
+      const responses = await Promise.all(
+        Array.from({ length: 5 }, (_, i) => createProjectIssue(users.user1.accessToken, project._id, `Issue ${i}`))
+      );
+
+      const keys = responses.map(response => response.body.data.issue.key);
+      expect(new Set(keys).size).toBe(5);
+    });
+
+    it('should not let non-members create issues', async () => {
+      const response = await createProjectIssue(users.user2.accessToken, project._id);
+
+      assertErrorResponse(response, 403);
+    });
+
+    it('should not assign issues to non-members', async () => {
+      const response = await request(app)
+        .post(`/api/projects/${project._id}/issues`)
+        .set(getAuthHeader(users.user1.accessToken))
+        .send({ title: 'Assigned', description: 'To outsider', assignedTo: users.user2._id });
+
+      assertErrorResponse(response, 400);
+    });
+  });
+
+  describe('GET /api/projects/:projectId/issues/:issueRef', () => {
+    it('should get a project issue by key', async () => {
+      await createProjectIssue(users.user1.accessToken, project._id);
+
+      const response = await request(app)
+        .get(`/api/projects/${project._id}/issues/pay-1`)
+        .set(getAuthHeader(users.user1.accessToken));
+
+      assertSuccessResponse(response, 200);
+      expect(response.body.data.issue.key).toBe('PAY-1');
+    });
+
+    it('should add comments through the project scoped route', async () => {
+      await createProjectIssue(users.user1.accessToken, project._id);
+
+      const response = await request(app)
+        .post(`/api/projects/${project._id}/issues/PAY-1/comments`)
+        .set(getAuthHeader(users.user1.accessToken))
+        .send({ content: 'Scoped comment' });
+
+      assertSuccessResponse(response, 201);
+    });
+  });
+
+  describe('Project visibility', () => {
+    it('should hide project issues from non-members', async () => {
+      const issueResponse = await createProjectIssue(users.user1.accessToken, project._id);
+
+      const listResponse = await request(app)
+        .get('/api/issues')
+        .set(getAuthHeader(users.user2.accessToken));
+      assertSuccessResponse(listResponse, 200);
+      expect(listResponse.body.data.length).toBe(0);
+
+      const getResponse = await request(app)
+        .get(`/api/issues/${issueResponse.body.data.issue._id}`)
+        .set(getAuthHeader(users.user2.accessToken));
+      assertErrorResponse(getResponse, 403);
+    });
+
+    it('should show project issues to added members', async () => {
+      await createProjectIssue(users.user1.accessToken, project._id);
+
+      const memberResponse = await request(app)
+        .post(`/api/projects/${project._id}/members`)
+        .set(getAuthHeader(users.user1.accessToken))
+        .send({ userId: users.user2._id });
+      assertSuccessResponse(memberResponse, 201);
+
+      const response = await request(app)
+        .get(`/api/projects/${project._id}/issues`)
+        .set(getAuthHeader(users.user2.accessToken));
+
+      assertSuccessResponse(response, 200);
+      assertPaginationStructure(response);
+      expect(response.body.data.length).toBe(1);
+    });
+  });
+
+  describe('DELETE /api/projects/:projectId', () => {
+    it('should not delete a project that still has issues', async () => {
+      await createProjectIssue(users.user1.accessToken, project._id);
+
+      const response = await request(app)
+        .delete(`/api/projects/${project._id}`)
+        .set(getAuthHeader(users.user1.accessToken));
+
+      assertErrorResponse(response, 409);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import crypto from 'crypto';
+import request from 'supertest';
+import app from '../app';
+import { File } from '../models/File';
+import { User } from '../models/User';
+import { Project } from '../models/Project';
+import { createTestUsers, createTestIssue, getAuthHeader, assertErrorResponse, assertSuccessResponse } from './utils/testHelpers';
+
+describe('Storage quotas', () => {
+  let users: any;
+  let testIssue: any;
+
+  const upload = (content: string, filename = 'test.txt') => {
+    return request(app)
+      .post(`/api/files/issue/${testIssue._id}/upload`)
+      .set(getAuthHeader(users.user1.accessToken))
+      .attach('files', Buffer.from(content), filename);
+  };
+
+  const createSession = (content: Buffer) => {
+    return request(app)
+      .post(`/api/files/issue/${testIssue._id}/uploads`)
+      .set(getAuthHeader(users.user1.accessToken))
+      .send({
+        filename: 'large.txt',
+        mimetype: 'text/plain',
+        size: content.length,
+        checksum: crypto.createHash('sha256').update(content).digest('hex')
+      });
+  };
+
+  beforeEach(async () => {
+    users = await createTestUsers();
+    testIssue = await createTestIssue(users.user1._id);
+  });
+
+  describe('Uploads', () => {
+    it('should reject uploads exceeding the user quota', async () => {
+      await User.findByIdAndUpdate(users.user1._id, { storageQuota: 20 });
+      await upload('0123456789');
+
+      const response = await upload('0123456789abcdef');
+
+      assertErrorResponse(response, 413);
+      expect(await File.countDocuments({ uploadedBy: users.user1._id })).toBe(1);
+    });
+
+    it('should reject uploads exceeding the project quota', async () => {
+      const created = await request(app)
+        .post('/api/projects')
+        .set(getAuthHeader(users.user1.accessToken))
+        .send({ name: 'Payments', key: 'PAY' });
+      const project = created.body.data.project;
+      await Project.findByIdAndUpdate(project._id, { storageQuota: 5 });
+
+      const issue = await request(app)
+        .post(`/api/projects/${project._id}/issues`)
+        .set(getAuthHeader(users.user1.accessToken))
+        .send({ title: 'Project Issue', description: 'Belongs to a project', priority: 'medium' });
+
+      const response = await request(app)
+        .post(`/api/projects/${project._id}/issues/${issue.body.data.issue.key}/files`)
+        .set(getAuthHeader(users.user1.accessToken))
+        .attach('files', Buffer.from('0123456789'), 'test.txt');
+
+      assertErrorResponse(response, 413);
+      expect(response.body.error.message).toContain('PAY');
+    });
+
+    it('should reject resumable uploads exceeding the user quota', async () => {
+      await User.findByIdAndUpdate(users.user1._id, { storageQuota: 20 });
+
+      const response = await request(app)
+        .post(`/api/files/issue/${testIssue._id}/uploads`)
+        .set(getAuthHeader(users.user1.accessToken))
+        .send({ filename: 'large.txt', mimetype: 'text/plain', size: 100, checksum: 'a'.repeat(64) });
+
+      assertErrorResponse(response, 413);
+    });
+
+    it('should count unfinished resumable uploads against the quota', async () => {
+      await User.findByIdAndUpdate(users.user1._id, { storageQuota: 120 });
+      assertSuccessResponse(await createSession(Buffer.alloc(100, 'a')), 201);
+
+      assertErrorResponse(await createSession(Buffer.alloc(50, 'b')), 413);
+      assertErrorResponse(await upload('0123456789abcdefghijklmnopqrstuvwxyz'), 413);
+
+      const response = await request(app)
+        .get('/api/files/quota')
+        .set(getAuthHeader(users.user1.accessToken));
+      expect(response.body.data.user.used).toBe(100);
+    });
+
+    it('should not count a resumable upload twice when completing it', async () => {
+      await User.findByIdAndUpdate(users.user1._id, { storageQuota: 100 });
+      const content = Buffer.from('crash dump line\n'.repeat(6));
+      const sessionId = (await createSession(content)).body.data.upload._id;
+
+      await request(app)
+        .patch(`/api/files/uploads/${sessionId}`)
+        .set(getAuthHeader(users.user1.accessToken))
+        .set('Content-Type', 'application/offset+octet-stream')
+        .set('Upload-Offset', '0')
+        .send(content);
+
+      const response = await request(app)
+        .post(`/api/files/uploads/${sessionId}/complete`)
+        .set(getAuthHeader(users.user1.accessToken));
+
+      assertSuccessResponse(response, 201);
+    });
+
+    it('should reject uploads by their request size before storing them', async () => {
+      await User.findByIdAndUpdate(users.user1._id, { storageQuota: 20 });
+
+      // A disallowed type would be rejected by the upload middleware with 400
+      const response = await request(app)
+        .post(`/api/files/issue/${testIssue._id}/upload`)
+        .set(getAuthHeader(users.user1.accessToken))
+        .attach('files', Buffer.alloc(40 * 1024), 'tool.exe');
+
+      assertErrorResponse(response, 413);
+    });
+  });
+
+  describe('GET /api/files/quota', () => {
+    it('should return used and remaining bytes', async () => {
+      await User.findByIdAndUpdate(users.user1._id, { storageQuota: 100 });
+      await upload('0123456789');
+
+      const response = await request(app)
+        .get('/api/files/quota')
+        .set(getAuthHeader(users.user1.accessToken));
+
+      assertSuccessResponse(response);
+      expect(response.body.data.user).toEqual({ used: 10, limit: 100, remaining: 90 });
+      expect(response.body.data.projects).toEqual([]);
+    });
+  });
+
+  describe('PATCH /api/users/:id/quota', () => {
+    it('should allow admins to change the quota of a user', async () => {
+      const response = await request(app)
+        .patch(`/api/users/${users.user1._id}/quota`)
+        .set(getAuthHeader(users.admin.accessToken))
+        .send({ storageQuota: 0 });
+
+      assertSuccessResponse(response);
+      expect(response.body.data.quota.limit).toBeNull();
+    });
+
+    it('should not allow users to change their own quota', async () => {
+      const response = await request(app)
+        .patch(`/api/users/${users.user1._id}/quota`)
+        .set(getAuthHeader(users.user1.accessToken))
+        .send({ storageQuota: null });
+
+      assertErrorResponse(response, 403);
+    });
+  });
+});
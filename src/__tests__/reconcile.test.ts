@@ -0,0 +1,132 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import app from '../app';
+import { File } from '../models/File';
+import { FileBlob } from '../models/FileBlob';
+import { Issue } from '../models/Issue';
+import { fileReconciler } from '../utils/fileReconciler';
+import { malwareScanner } from '../utils/malwareScanner';
+import { storage, LocalStorageProvider } from '../utils/storage';
+import { createTestUsers, createTestIssue, getAuthHeader } from './utils/testHelpers';
+
+describe('File reconciliation', () => {
+  let directory: string;
+  let users: any;
+  let testIssue: any;
+
+  const upload = async (content: string, filename = 'test.txt') => {
+    const response = await request(app)
+      .post(`/api/files/issue/${testIssue._id}/upload`)
+      .set(getAuthHeader(users.user1.accessToken))
+      .attach('files', Buffer.from(content), filename);
+    return response.body.data.files[0];
+  };
+
+  // Write an object directly to storage, dated back past the grace period
+  const writeObject = (key: string, content = 'orphaned') => {
+    const filePath = path.join(directory, key);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    const past = new Date(Date.now() - 2 * 60 * 60 * 1000);
+    fs.utimesSync(filePath, past, past);
+  };
+
+  beforeAll(() => {
+    process.env.RECONCILE_REPORT_DIR = path.join(os.tmpdir(), 'reconcile-test-reports');
+  });
+
+  beforeEach(async () => {
+    // Orphans of other test files must not be found or deleted
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'reconcile-test-'));
+    storage.setProvider(new LocalStorageProvider(directory));
+
+    users = await createTestUsers();
+    testIssue = await createTestIssue(users.user1._id);
+  });
+
+  afterEach(async () => {
+    await malwareScanner.idle();
+    storage.setProvider(new LocalStorageProvider(process.env.UPLOAD_DIR || 'uploads'));
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(process.env.RECONCILE_REPORT_DIR!, { recursive: true, force: true });
+  });
+
+  it('should report stored objects without documents and keep recent ones', async () => {
+    await upload('referenced contents');
+    writeObject('lost_upload.txt');
+    writeObject('thumbnails/lost_upload.txt.small.webp');
+    writeObject('chunks/000000000000000000000000/0-abcd');
+    fs.writeFileSync(path.join(directory, 'in_flight.txt'), 'being uploaded');
+
+    const report = await fileReconciler.run({ gracePeriod: 60 * 60 * 1000 });
+
+    expect(report.orphanedObjects!.map(object => object.key)).toEqual(['lost_upload.txt']);
+    expect(report.orphanedThumbnails!.map(object => object.key)).toEqual(['thumbnails/lost_upload.txt.small.webp']);
+    expect(report.orphanedChunks!.map(object => object.key)).toEqual(['chunks/000000000000000000000000']);
+    expect(report.missingContents).toHaveLength(0);
+    expect(fs.existsSync(path.join(directory, 'lost_upload.txt'))).toBe(true);
+
+    const reports = fs.readdirSync(process.env.RECONCILE_REPORT_DIR!);
+    expect(reports.some(name => name.startsWith('reconciliation-'))).toBe(true);
+  });
+
+  it('should delete orphaned objects and chunks when fixing', async () => {
+    writeObject('lost_upload.txt');
+    writeObject('chunks/000000000000000000000000/0-abcd');
+
+    const report = await fileReconciler.run({ fix: true, gracePeriod: 60 * 60 * 1000 });
+
+    expect(report.fixed).toBe(2);
+    expect(fs.existsSync(path.join(directory, 'lost_upload.txt'))).toBe(false);
+    expect(fs.existsSync(path.join(directory, 'chunks', '000000000000000000000000'))).toBe(false);
+  });
+
+  it('should remove documents of missing contents and of deleted issues when fixing', async () => {
+    const kept = await upload('kept contents', 'kept.txt');
+    const missing = await upload('missing contents', 'missing.txt');
+    await malwareScanner.idle();
+
+    const missingFile = await File.findById(missing._id);
+    fs.rmSync(path.join(directory, missingFile!.storageKey));
+
+    const otherIssue = await createTestIssue(users.user1._id);
+    writeObject('dangling.txt');
+    const dangling = await File.create({
+      filename: 'dangling.txt',
+      originalName: 'dangling.txt',
+      mimetype: 'text/plain',
+      size: 8,
+      storageKey: 'dangling.txt',
+      issueId: otherIssue._id,
+      uploadedBy: users.user1._id
+    });
+    await Issue.collection.deleteOne({ _id: dangling.issueId });
+
+    const report = await fileReconciler.run({ fix: true });
+
+    expect(report.missingContents.map(file => file.fileId)).toEqual([missing._id]);
+    expect(report.danglingFiles.map(file => file.fileId)).toEqual([dangling._id.toString()]);
+    expect(await File.exists({ _id: missing._id })).toBeNull();
+    expect(await File.exists({ _id: dangling._id })).toBeNull();
+    expect(await File.exists({ _id: kept._id })).not.toBeNull();
+    expect(await FileBlob.countDocuments()).toBe(1);
+    expect(fs.existsSync(path.join(directory, 'dangling.txt'))).toBe(false);
+  });
+
+  it('should not delete documents when no contents are found at all', async () => {
+    const file = await upload('contents');
+    await malwareScanner.idle();
+    storage.setProvider(new LocalStorageProvider(path.join(directory, 'wrong')));
+
+    const report = await fileReconciler.run({ fix: true });
+
+    expect(report.missingContents).toHaveLength(1);
+    expect(report.errors).toHaveLength(1);
+    expect(await File.exists({ _id: file._id })).not.toBeNull();
+  });
+});
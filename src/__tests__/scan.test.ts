@@ -0,0 +1,209 @@
+import net from 'net';
+import { AddressInfo } from 'net';
+import { Readable } from 'stream';
+import request from 'supertest';
+import app from '../app';
+import { File } from '../models/File';
+import { storage } from '../utils/storage';
+import { malwareScanner, Scanner, ScanResult, EicarScanner, NoopScanner, ClamAVScanner, QUARANTINE_PREFIX } from '../utils/malwareScanner';
+import { createTestUsers, createTestIssue, getAuthHeader, assertErrorResponse, assertSuccessResponse } from './utils/testHelpers';
+
+// Built from parts so this file is not flagged by antivirus software
+const EICAR = 'X5O!P%@AP[4\\PZX54(P^)7CC)7}$' + 'EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*';
+
+// Scanner whose scans only finish when the test allows it
+class ControlledScanner implements Scanner {
+  public readonly name = 'controlled';
+  private waiting: ((result: ScanResult | Error) => void)[] = [];
+
+  public async scan(content: Readable): Promise<ScanResult> {
+    content.resume();
+    const result = await new Promise<ScanResult | Error>(resolve => this.waiting.push(resolve));
+    if (result instanceof Error) {
+      throw result;
+    }
+    return result;
+  }
+
+  public finish(result: ScanResult | Error): void {
+    this.waiting.splice(0).forEach(resolve => resolve(result));
+  }
+
+  public async waitForScan(): Promise<void> {
+    while (this.waiting.length === 0) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  }
+}
+
+describe('Malware scanning', () => {
+  let users: any;
+  let testIssue: any;
+
+  const upload = async (content: string, filename = 'notes.txt') => {
+    const response = await request(app)
+      .post(`/api/files/issue/${testIssue._id}/upload`)
+      .set(getAuthHeader(users.user1.accessToken))
+      .attach('files', Buffer.from(content), filename);
+    return response.body.data.files[0];
+  };
+
+  const download = (fileId: string) => {
+    return request(app)
+      .get(`/api/files/${fileId}/download`)
+      .set(getAuthHeader(users.user1.accessToken));
+  };
+
+  beforeEach(async () => {
+    users = await createTestUsers();
+    testIssue = await createTestIssue(users.user1._id);
+    malwareScanner.setScanner(new EicarScanner());
+  });
+
+  afterEach(async () => {
+    await malwareScanner.idle();
+  });
+
+  it('should block downloads until the scan is finished', async () => {
+    const scanner = new ControlledScanner();
+    malwareScanner.setScanner(scanner);
+
+    const uploaded = await upload('harmless notes');
+    expect(uploaded.scanStatus).toBe('pending');
+
+    await scanner.waitForScan();
+    const pendingResponse = await download(uploaded._id);
+    assertErrorResponse(pendingResponse, 409);
+
+    scanner.finish({ infected: false });
+    await malwareScanner.idle();
+
+    const response = await download(uploaded._id);
+    expect(response.status).toBe(200);
+    expect(response.text).toBe('harmless notes');
+  });
+
+  it('should quarantine infected files', async () => {
+    const uploaded = await upload(EICAR, 'eicar.txt');
+    const originalKey = (await File.findById(uploaded._id))!.storageKey;
+    await malwareScanner.idle();
+
+    const file = await File.findById(uploaded._id);
+    expect(file!.scanStatus).toBe('infected');
+    expect(file!.scanSignature).toBe('Eicar-Test-Signature');
+    expect(file!.storageKey).toBe(QUARANTINE_PREFIX + originalKey);
+    expect(await storage.exists(originalKey)).toBe(false);
+    expect(await storage.exists(file!.storageKey)).toBe(true);
+
+    const response = await download(uploaded._id);
+    assertErrorResponse(response, 409);
+    expect(response.body.error.message).toContain('quarantined');
+  });
+
+  it('should record scan errors and let admins rescan', async () => {
+    const scanner = new ControlledScanner();
+    malwareScanner.setScanner(scanner);
+
+    const uploaded = await upload('harmless notes');
+    await scanner.waitForScan();
+    scanner.finish(new Error('scanner unavailable'));
+    await malwareScanner.idle();
+
+    expect((await File.findById(uploaded._id))!.scanStatus).toBe('error');
+
+    malwareScanner.setScanner(new EicarScanner());
+    const response = await request(app)
+      .post(`/api/files/${uploaded._id}/rescan`)
+      .set(getAuthHeader(users.admin.accessToken));
+
+    assertSuccessResponse(response, 200);
+    expect(response.body.data.file.scanStatus).toBe('clean');
+    expect((await download(uploaded._id)).status).toBe(200);
+  });
+
+  it('should release files from quarantine when a rescan finds them clean', async () => {
+    const uploaded = await upload(EICAR, 'eicar.txt');
+    await malwareScanner.idle();
+
+    malwareScanner.setScanner(new NoopScanner());
+    const response = await request(app)
+      .post(`/api/files/${uploaded._id}/rescan`)
+      .set(getAuthHeader(users.admin.accessToken));
+
+    assertSuccessResponse(response, 200);
+    const file = await File.findById(uploaded._id);
+    expect(file!.scanStatus).toBe('clean');
+    expect(file!.storageKey.startsWith(QUARANTINE_PREFIX)).toBe(false);
+    expect((await download(uploaded._id)).text).toBe(EICAR);
+  });
+
+  it('should only let admins rescan files', async () => {
+    const uploaded = await upload('harmless notes');
+
+    const response = await request(app)
+      .post(`/api/files/${uploaded._id}/rescan`)
+      .set(getAuthHeader(users.user1.accessToken));
+
+    assertErrorResponse(response, 403);
+  });
+
+  describe('ClamAVScanner', () => {
+    let clamd: net.Server;
+    let port: number;
+
+    beforeAll(async () => {
+      // Stand-in for clamd that understands the INSTREAM command
+      clamd = net.createServer(socket => {
+        let buffer = Buffer.alloc(0);
+        socket.on('data', chunk => {
+          buffer = Buffer.concat([buffer, chunk]);
+          const command = 'zINSTREAM\0';
+          if (buffer.length < command.length || buffer.toString('latin1', 0, command.length) !== command) {
+            return;
+          }
+
+          // Read length-prefixed chunks until the zero-length terminator
+          const content: Buffer[] = [];
+          let offset = command.length;
+          while (offset + 4 <= buffer.length) {
+            const length = buffer.readUInt32BE(offset);
+            if (length === 0) {
+              const scanned = Buffer.concat(content).toString('latin1');
+              socket.end(scanned.includes(EICAR) ? 'stream: Win.Test.EICAR_HDB-1 FOUND\0' : 'stream: OK\0');
+              return;
+            }
+            if (offset + 4 + length > buffer.length) {
+              return;
+            }
+            content.push(buffer.subarray(offset + 4, offset + 4 + length));
+            offset += 4 + length;
+          }
+        });
+      });
+      await new Promise<void>(resolve => clamd.listen(0, '127.0.0.1', resolve));
+      port = (clamd.address() as AddressInfo).port;
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => clamd.close(resolve));
+    });
+
+    const scanner = () => new ClamAVScanner({ host: '127.0.0.1', port, timeout: 5000 });
+
+    it('should report clean contents', async () => {
+      const result = await scanner().scan(Readable.from([Buffer.from('harmless '), Buffer.from('notes')]));
+
+      expect(result).toEqual({ infected: false });
+    });
+
+    it('should report the signature of infected contents', async () => {
+      const result = await scanner().scan(Readable.from([Buffer.from(EICAR)]));
+
+      expect(result).toEqual({ infected: true, signature: 'Win.Test.EICAR_HDB-1' });
+    });
+
+    it('should fail on error replies', () => {
+      expect(() => ClamAVScanner.parseReply('INSTREAM size limit exceeded. ERROR\0')).toThrow('ClamAV scan failed');
+    });
+  });
+});
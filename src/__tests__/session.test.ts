@@ -0,0 +1,126 @@
+import request from 'supertest';
+import app from '../app';
+import { RefreshToken } from '../models/RefreshToken';
+import { testUsers, createTestUser, getAuthHeader, assertErrorResponse, assertSuccessResponse } from './utils/testHelpers';
+
+describe('Sessions and refresh token rotation', () => {
+  let testUser: any;
+
+  const refresh = (refreshToken: string) => {
+    return request(app)
+      .post('/api/auth/refresh-token')
+      .send({ refreshToken });
+  };
+
+  beforeEach(async () => {
+    testUser = await createTestUser();
+  });
+
+  it('should store refresh tokens hashed', async () => {
+    const stored = await RefreshToken.findOne({ user: testUser._id });
+
+    expect(stored).not.toBeNull();
+    expect(stored!.tokenHash).not.toBe(testUser.refreshToken);
+    expect(stored!.tokenHash).toHaveLength(64);
+  });
+
+  it('should rotate the refresh token and reject the old one', async () => {
+    const response = await refresh(testUser.refreshToken);
+
+    assertSuccessResponse(response, 200);
+    expect(response.body.data.refreshToken).not.toBe(testUser.refreshToken);
+
+    const reuseResponse = await refresh(testUser.refreshToken);
+    assertErrorResponse(reuseResponse, 401);
+  });
+
+  it('should revoke the whole family when a rotated token is reused', async () => {
+    const rotated = await refresh(testUser.refreshToken);
+    const latestRefreshToken = rotated.body.data.refreshToken;
+
+    await refresh(testUser.refreshToken);
+
+    const response = await refresh(latestRefreshToken);
+    assertErrorResponse(response, 401);
+
+    const profileResponse = await request(app)
+      .get('/api/auth/profile')
+      .set(getAuthHeader(rotated.body.data.accessToken));
+    assertErrorResponse(profileResponse, 401);
+  });
+
+  it('should revoke the session on logout', async () => {
+    await request(app)
+      .post('/api/auth/logout')
+      .set(getAuthHeader(testUser.accessToken));
+
+    const response = await refresh(testUser.refreshToken);
+    assertErrorResponse(response, 401);
+  });
+
+  it('should revoke all sessions when the password changes', async () => {
+    const response = await request(app)
+      .post('/api/auth/change-password')
+      .set(getAuthHeader(testUser.accessToken))
+      .send({ currentPassword: testUsers.user1.password, newPassword: 'newpassword123' });
+
+    assertSuccessResponse(response, 200);
+
+    const refreshResponse = await refresh(testUser.refreshToken);
+    assertErrorResponse(refreshResponse, 401);
+
+    const profileResponse = await request(app)
+      .get('/api/auth/profile')
+      .set(getAuthHeader(response.body.data.accessToken));
+    assertSuccessResponse(profileResponse, 200);
+  });
+
+  describe('GET /api/auth/sessions', () => {
+    it('should list active sessions and mark the current one', async () => {
+      const loginResponse = await request(app)
+        .post('/api/auth/login')
+        .set('User-Agent', 'session-test-browser')
+        .send({ email: testUsers.user1.email, password: testUsers.user1.password });
+
+      const response = await request(app)
+        .get('/api/auth/sessions')
+        .set(getAuthHeader(loginResponse.body.data.accessToken));
+
+      assertSuccessResponse(response, 200);
+      expect(response.body.data.sessions.length).toBe(2);
+      const current = response.body.data.sessions.find((session: any) => session.current);
+      expect(current.userAgent).toBe('session-test-browser');
+    });
+  });
+
+  describe('DELETE /api/auth/sessions/:id', () => {
+    it('should revoke another session', async () => {
+      const otherSession = await createTestUser({ ...testUsers.user2 });
+      const secondLogin = await request(app)
+        .post('/api/auth/login')
+        .send({ email: testUsers.user1.email, password: testUsers.user1.password });
+
+      const listResponse = await request(app)
+        .get('/api/auth/sessions')
+        .set(getAuthHeader(secondLogin.body.data.accessToken));
+      const original = listResponse.body.data.sessions.find((session: any) => !session.current);
+
+      const response = await request(app)
+        .delete(`/api/auth/sessions/${original.id}`)
+        .set(getAuthHeader(secondLogin.body.data.accessToken));
+
+      assertSuccessResponse(response, 200);
+      const refreshResponse = await refresh(testUser.refreshToken);
+      assertErrorResponse(refreshResponse, 401);
+
+      // Sessions of other users cannot be revoked
+      const otherResponse = await request(app)
+        .get('/api/auth/sessions')
+        .set(getAuthHeader(otherSession.accessToken));
+      const foreignResponse = await request(app)
+        .delete(`/api/auth/sessions/${otherResponse.body.data.sessions[0].id}`)
+        .set(getAuthHeader(secondLogin.body.data.accessToken));
+      assertErrorResponse(foreignResponse, 404);
+    });
+  });
+});
@@ -15,6 +15,11 @@ beforeAll(async () => {
   process.env.NODE_ENV = 'test';
   process.env.JWT_SECRET = 'test-jwt-secret';
   process.env.JWT_REFRESH_SECRET = 'test-refresh-secret';
+  process.env.FILE_URL_SECRET = 'test-file-url-secret';
+  // Keep outgoing mail in memory so tests can read it
+  process.env.MAIL_TRANSPORT = 'memory';
+  // Scan uploads for the EICAR test string only
+  process.env.SCANNER = 'eicar';
   
   // Connect to the in-memory database
   await database.connect();
@@ -0,0 +1,137 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import request from 'supertest';
+import mongoose from 'mongoose';
+import app from '../app';
+import { eventBus } from '../utils/eventBus';
+import { createTestUsers, createTestIssue, getAuthHeader, createIssueViaAPI, createCommentViaAPI, assertErrorResponse } from './utils/testHelpers';
+
+describe('Event stream API', () => {
+  let users: any;
+  let server: http.Server;
+  let baseUrl: string;
+  const openStreams: http.ClientRequest[] = [];
+
+  // Open a stream and collect the raw text it receives
+  const openStream = (token: string, query = ''): Promise<{ received: () => string }> => {
+    return new Promise((resolve, reject) => {
+      let buffer = '';
+      const req = http.get(`${baseUrl}/api/stream${query}`, { headers: getAuthHeader(token) }, res => {
+        res.setEncoding('utf8');
+        res.on('data', chunk => {
+          buffer += chunk;
+          // The ready event confirms the subscription is active
+          if (buffer.includes('event: ready')) {
+            resolve({ received: () => buffer });
+          }
+        });
+      });
+      req.on('error', reject);
+      openStreams.push(req);
+    });
+  };
+
+  const waitFor = async (check: () => boolean, timeout = 2000) => {
+    const started = Date.now();
+    while (!check()) {
+      if (Date.now() - started > timeout) {
+        throw new Error('Timed out waiting for stream event');
+      }
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+  };
+
+  beforeAll(async () => {
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    users = await createTestUsers();
+  });
+
+  afterEach(() => {
+    openStreams.splice(0).forEach(req => req.destroy());
+  });
+
+  it('should require authentication', async () => {
+    const response = await request(app).get('/api/stream');
+
+    assertErrorResponse(response, 401);
+  });
+
+  it('should push issue creation and comment events', async () => {
+    const stream = await openStream(users.user2.accessToken);
+
+    const issueResponse = await createIssueViaAPI(users.user1.accessToken);
+    await createCommentViaAPI(users.user1.accessToken, issueResponse.body.data.issue._id);
+
+    await waitFor(() => stream.received().includes('event: comment.created'));
+    expect(stream.received()).toContain('event: issue.created');
+    expect(stream.received()).toContain(issueResponse.body.data.issue._id);
+  });
+
+  it('should only push events for the subscribed issue', async () => {
+    const watched = await createTestIssue(users.user1._id);
+    const other = await createTestIssue(users.user1._id);
+    const stream = await openStream(users.user1.accessToken, `?issue=${watched._id}`);
+
+    await request(app)
+      .patch(`/api/issues/${other._id}/status`)
+      .set(getAuthHeader(users.user1.accessToken))
+      .send({ status: 'complete' });
+    await request(app)
+      .patch(`/api/issues/${watched._id}/status`)
+      .set(getAuthHeader(users.user1.accessToken))
+      .send({ status: 'complete' });
+
+    await waitFor(() => stream.received().includes('event: issue.status_changed'));
+    expect(stream.received()).toContain(`"issueId":"${watched._id}"`);
+    expect(stream.received()).not.toContain(`"issueId":"${other._id}"`);
+  });
+
+  it('should not push project issue events to non-members', async () => {
+    const projectResponse = await request(app)
+      .post('/api/projects')
+      .set(getAuthHeader(users.user1.accessToken))
+      .send({ name: 'Payments', key: 'PAY' });
+    const outsider = await openStream(users.user2.accessToken);
+    const member = await openStream(users.user1.accessToken);
+
+    await request(app)
+      .post(`/api/projects/${projectResponse.body.data.project._id}/issues`)
+      .set(getAuthHeader(users.user1.accessToken))
+      .send({ title: 'Private issue', description: 'Members only' });
+    await createIssueViaAPI(users.user1.accessToken);
+
+    await waitFor(() => (outsider.received().match(/event: issue\.created/g) || []).length >= 1 &&
+      (member.received().match(/event: issue\.created/g) || []).length >= 2);
+    expect(outsider.received()).not.toContain('PAY-1');
+    expect(member.received()).toContain('PAY-1');
+  });
+
+  it('should only push events of projects that cannot be loaded to admins', async () => {
+    const issue = await createTestIssue(users.user1._id);
+    const member = await openStream(users.user1.accessToken);
+    const admin = await openStream(users.admin.accessToken);
+
+    eventBus.publish('issue.deleted', { _id: issue._id, project: new mongoose.Types.ObjectId() } as any, users.admin._id);
+    await createIssueViaAPI(users.user1.accessToken);
+
+    await waitFor(() => admin.received().includes('event: issue.deleted') &&
+      member.received().includes('event: issue.created'));
+    expect(member.received()).not.toContain('event: issue.deleted');
+  });
+
+  it('should reject invalid filters', async () => {
+    const response = await request(app)
+      .get('/api/stream?issue=not-an-id')
+      .set(getAuthHeader(users.user1.accessToken));
+
+    assertErrorResponse(response, 400);
+  });
+});
@@ -0,0 +1,137 @@
+import sharp from 'sharp';
+import request from 'supertest';
+import app from '../app';
+import { File } from '../models/File';
+import { malwareScanner } from '../utils/malwareScanner';
+import { storage } from '../utils/storage';
+import { Thumbnails } from '../utils/thumbnails';
+import { createTestUsers, createTestIssue, getAuthHeader, assertErrorResponse, assertSuccessResponse } from './utils/testHelpers';
+
+describe('File thumbnails', () => {
+  let users: any;
+  let testIssue: any;
+  let image: Buffer;
+
+  const upload = async (content: Buffer, filename: string) => {
+    const response = await request(app)
+      .post(`/api/files/issue/${testIssue._id}/upload`)
+      .set(getAuthHeader(users.user1.accessToken))
+      .attach('files', content, filename);
+    await malwareScanner.idle();
+    return response.body.data.files[0];
+  };
+
+  const getThumbnail = (fileId: string, query = '') => {
+    return request(app)
+      .get(`/api/files/${fileId}/thumbnail${query}`)
+      .set(getAuthHeader(users.user1.accessToken))
+      .buffer(true)
+      .parse((res, callback) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => callback(null, Buffer.concat(chunks)));
+      });
+  };
+
+  beforeAll(async () => {
+    image = await sharp({ create: { width: 800, height: 400, channels: 3, background: '#3366cc' } }).png().toBuffer();
+  });
+
+  beforeEach(async () => {
+    users = await createTestUsers();
+    testIssue = await createTestIssue(users.user1._id);
+  });
+
+  it('should create a thumbnail in the requested size', async () => {
+    const uploaded = await upload(image, 'screenshot.png');
+
+    const response = await getThumbnail(uploaded._id, '?size=small');
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('image/webp');
+    const metadata = await sharp(response.body).metadata();
+    expect(metadata.format).toBe('webp');
+    expect(metadata.width).toBe(128);
+    expect(metadata.height).toBe(64);
+  });
+
+  it('should keep thumbnails in storage and reuse them', async () => {
+    const uploaded = await upload(image, 'screenshot.png');
+    const fileDoc = await File.findById(uploaded._id);
+
+    await getThumbnail(uploaded._id);
+    expect(await storage.exists(Thumbnails.getKey(fileDoc!.storageKey, 'medium'))).toBe(true);
+
+    const response = await getThumbnail(uploaded._id);
+    expect(response.status).toBe(200);
+    expect((await sharp(response.body).metadata()).width).toBe(256);
+  });
+
+  it('should answer 304 when the thumbnail did not change', async () => {
+    const uploaded = await upload(image, 'screenshot.png');
+
+    const first = await getThumbnail(uploaded._id);
+    const response = await getThumbnail(uploaded._id).set('If-None-Match', first.headers.etag);
+
+    expect(response.status).toBe(304);
+  });
+
+  it('should not create thumbnails for other file types', async () => {
+    const uploaded = await upload(Buffer.from('plain notes'), 'notes.txt');
+
+    const response = await getThumbnail(uploaded._id);
+
+    assertErrorResponse(response, 404);
+  });
+
+  it('should reject unknown sizes', async () => {
+    const uploaded = await upload(image, 'screenshot.png');
+
+    const response = await getThumbnail(uploaded._id, '?size=huge');
+
+    assertErrorResponse(response, 400);
+  });
+
+  it('should return a signed thumbnail URL for images', async () => {
+    const uploaded = await upload(image, 'screenshot.png');
+
+    const urlResponse = await request(app)
+      .get(`/api/files/${uploaded._id}/url`)
+      .set(getAuthHeader(users.user1.accessToken));
+
+    assertSuccessResponse(urlResponse, 200);
+    const thumbnailUrl = new URL(urlResponse.body.data.thumbnailUrl);
+    const response = await request(app).get(thumbnailUrl.pathname + thumbnailUrl.search);
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('image/webp');
+  });
+
+  it('should only accept a signature for the resource it was made for', async () => {
+    const uploaded = await upload(image, 'screenshot.png');
+
+    const urlResponse = await request(app)
+      .get(`/api/files/${uploaded._id}/url`)
+      .set(getAuthHeader(users.user1.accessToken));
+
+    const downloadUrl = new URL(urlResponse.body.data.url);
+    const thumbnailResponse = await request(app).get(`/api/files/${uploaded._id}/thumbnail${downloadUrl.search}`);
+    assertErrorResponse(thumbnailResponse, 401);
+
+    const thumbnailUrl = new URL(urlResponse.body.data.thumbnailUrl);
+    thumbnailUrl.searchParams.set('size', 'large');
+    const largeResponse = await request(app).get(thumbnailUrl.pathname + thumbnailUrl.search);
+    assertErrorResponse(largeResponse, 401);
+  });
+
+  it('should delete thumbnails together with the file', async () => {
+    const uploaded = await upload(image, 'screenshot.png');
+    const fileDoc = await File.findById(uploaded._id);
+    await getThumbnail(uploaded._id, '?size=large');
+
+    await request(app)
+      .delete(`/api/files/${uploaded._id}`)
+      .set(getAuthHeader(users.user1.accessToken));
+
+    expect(await storage.exists(Thumbnails.getKey(fileDoc!.storageKey, 'large'))).toBe(false);
+  });
+});
@@ -0,0 +1,234 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import app from '../app';
+import { File } from '../models/File';
+import { UploadSession } from '../models/UploadSession';
+import { malwareScanner } from '../utils/malwareScanner';
+import { storage, LocalStorageProvider } from '../utils/storage';
+import { createTestUsers, createTestIssue, getAuthHeader, assertErrorResponse, assertSuccessResponse } from './utils/testHelpers';
+
+const sha256 = (content: Buffer): string => crypto.createHash('sha256').update(content).digest('hex');
+
+describe('Resumable uploads', () => {
+  let users: any;
+  let testIssue: any;
+  const content = Buffer.from('crash dump line\n'.repeat(1000));
+
+  const createSession = (overrides: Record<string, unknown> = {}) => {
+    return request(app)
+      .post(`/api/files/issue/${testIssue._id}/uploads`)
+      .set(getAuthHeader(users.user1.accessToken))
+      .send({ filename: 'crash.txt', mimetype: 'text/plain', size: content.length, checksum: sha256(content), ...overrides });
+  };
+
+  const sendChunk = (sessionId: string, offset: number, chunk: Buffer, token = users.user1.accessToken) => {
+    return request(app)
+      .patch(`/api/files/uploads/${sessionId}`)
+      .set(getAuthHeader(token))
+      .set('Content-Type', 'application/offset+octet-stream')
+      .set('Upload-Offset', offset.toString())
+      .send(chunk);
+  };
+
+  const complete = (sessionId: string) => {
+    return request(app)
+      .post(`/api/files/uploads/${sessionId}/complete`)
+      .set(getAuthHeader(users.user1.accessToken));
+  };
+
+  beforeEach(async () => {
+    users = await createTestUsers();
+    testIssue = await createTestIssue(users.user1._id);
+  });
+
+  afterEach(async () => {
+    await malwareScanner.idle();
+  });
+
+  it('should upload a file in chunks and attach it to the issue', async () => {
+    const createResponse = await createSession();
+    assertSuccessResponse(createResponse, 201);
+    const sessionId = createResponse.body.data.upload._id;
+    expect(createResponse.headers['upload-offset']).toBe('0');
+
+    const first = await sendChunk(sessionId, 0, content.subarray(0, 6000));
+    expect(first.status).toBe(200);
+    expect(first.headers['upload-offset']).toBe('6000');
+
+    const second = await sendChunk(sessionId, 6000, content.subarray(6000));
+    expect(second.body.data.upload.offset).toBe(content.length);
+
+    const response = await complete(sessionId);
+
+    assertSuccessResponse(response, 201);
+    const file = response.body.data.file;
+    expect(file.originalName).toBe('crash.txt');
+    expect(file.size).toBe(content.length);
+    expect(file.checksum).toBe(sha256(content));
+    expect(file.detectedMimetype).toBe('text/plain');
+    expect(await UploadSession.countDocuments()).toBe(0);
+
+    await malwareScanner.idle();
+    const download = await request(app)
+      .get(`/api/files/${file._id}/download`)
+      .set(getAuthHeader(users.user1.accessToken));
+    expect(download.status).toBe(200);
+    expect(download.text).toBe(content.toString());
+  });
+
+  it('should report the offset to resume from', async () => {
+    const sessionId = (await createSession()).body.data.upload._id;
+    await sendChunk(sessionId, 0, content.subarray(0, 4000));
+
+    const response = await request(app)
+      .head(`/api/files/uploads/${sessionId}`)
+      .set(getAuthHeader(users.user1.accessToken));
+
+    expect(response.status).toBe(200);
+    expect(response.headers['upload-offset']).toBe('4000');
+    expect(response.headers['upload-length']).toBe(content.length.toString());
+  });
+
+  it('should let browsers from other origins send and read the upload headers', async () => {
+    const createResponse = await createSession().set('Origin', 'http://localhost:4200');
+    const exposed = createResponse.headers['access-control-expose-headers'].split(',');
+    expect(exposed).toEqual(expect.arrayContaining(['Upload-Offset', 'Upload-Length', 'Location']));
+
+    const preflight = await request(app)
+      .options(`/api/files/uploads/${createResponse.body.data.upload._id}`)
+      .set('Origin', 'http://localhost:4200')
+      .set('Access-Control-Request-Method', 'PATCH')
+      .set('Access-Control-Request-Headers', 'authorization,content-type,upload-offset');
+
+    expect(preflight.headers['access-control-allow-headers']).toContain('Upload-Offset');
+  });
+
+  it('should reject chunks sent for the wrong offset', async () => {
+    const sessionId = (await createSession()).body.data.upload._id;
+    await sendChunk(sessionId, 0, content.subarray(0, 4000));
+
+    const response = await sendChunk(sessionId, 0, content.subarray(0, 4000));
+
+    assertErrorResponse(response, 409);
+    expect(response.headers['upload-offset']).toBe('4000');
+  });
+
+  it('should reject chunks beyond the announced size', async () => {
+    const sessionId = (await createSession({ size: 10, checksum: sha256(content.subarray(0, 10)) })).body.data.upload._id;
+
+    const response = await sendChunk(sessionId, 0, content.subarray(0, 20));
+
+    assertErrorResponse(response, 400);
+    const session = await UploadSession.findById(sessionId);
+    expect(session!.offset).toBe(0);
+    expect(session!.chunks).toHaveLength(0);
+  });
+
+  it('should not complete unfinished uploads', async () => {
+    const sessionId = (await createSession()).body.data.upload._id;
+    await sendChunk(sessionId, 0, content.subarray(0, 4000));
+
+    const response = await complete(sessionId);
+
+    assertErrorResponse(response, 409);
+  });
+
+  it('should only complete an upload once', async () => {
+    const sessionId = (await createSession()).body.data.upload._id;
+    await sendChunk(sessionId, 0, content);
+    await UploadSession.findByIdAndUpdate(sessionId, { status: 'completing' });
+
+    const response = await complete(sessionId);
+    assertErrorResponse(response, 409);
+
+    const abortResponse = await request(app)
+      .delete(`/api/files/uploads/${sessionId}`)
+      .set(getAuthHeader(users.user1.accessToken));
+    assertErrorResponse(abortResponse, 409);
+    expect(await File.countDocuments()).toBe(0);
+  });
+
+  it('should remove partly assembled contents when completing fails', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'upload-session-test-'));
+    storage.setProvider(new LocalStorageProvider(directory));
+    try {
+      const sessionId = (await createSession()).body.data.upload._id;
+      await sendChunk(sessionId, 0, content.subarray(0, 6000));
+      await sendChunk(sessionId, 6000, content.subarray(6000));
+      await storage.delete((await UploadSession.findById(sessionId))!.chunks[1].key);
+
+      const response = await complete(sessionId);
+
+      assertErrorResponse(response, 500);
+      expect(fs.readdirSync(directory)).toEqual(['chunks']);
+      expect((await UploadSession.findById(sessionId))!.status).toBe('open');
+    } finally {
+      storage.setProvider(new LocalStorageProvider(process.env.UPLOAD_DIR || 'uploads'));
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should reject uploads whose checksum does not match', async () => {
+    const sessionId = (await createSession({ checksum: sha256(Buffer.from('other contents')) })).body.data.upload._id;
+    await sendChunk(sessionId, 0, content);
+
+    const response = await complete(sessionId);
+
+    assertErrorResponse(response, 400);
+    expect(response.body.error.message).toContain('Checksum');
+    expect(await File.countDocuments()).toBe(0);
+    expect(await UploadSession.countDocuments()).toBe(0);
+  });
+
+  it('should reject contents that do not match the declared type', async () => {
+    const sessionId = (await createSession({ filename: 'crash.png', mimetype: 'image/png' })).body.data.upload._id;
+    await sendChunk(sessionId, 0, content);
+
+    const response = await complete(sessionId);
+
+    assertErrorResponse(response, 400);
+    expect(await File.countDocuments()).toBe(0);
+  });
+
+  it('should reject file types that are not allowed', async () => {
+    const response = await createSession({ filename: 'tool.exe', mimetype: 'application/x-msdownload' });
+
+    assertErrorResponse(response, 400);
+  });
+
+  it('should only let the uploader use a session', async () => {
+    const sessionId = (await createSession()).body.data.upload._id;
+
+    const response = await sendChunk(sessionId, 0, content, users.user2.accessToken);
+
+    assertErrorResponse(response, 404);
+  });
+
+  it('should delete the chunks of aborted uploads', async () => {
+    const sessionId = (await createSession()).body.data.upload._id;
+    await sendChunk(sessionId, 0, content.subarray(0, 4000));
+    const chunkKey = (await UploadSession.findById(sessionId))!.chunks[0].key;
+
+    const response = await request(app)
+      .delete(`/api/files/uploads/${sessionId}`)
+      .set(getAuthHeader(users.user1.accessToken));
+
+    assertSuccessResponse(response, 200);
+    expect(await storage.exists(chunkKey)).toBe(false);
+    expect(await UploadSession.countDocuments()).toBe(0);
+  });
+
+  it('should remove expired sessions with their chunks', async () => {
+    const sessionId = (await createSession()).body.data.upload._id;
+    await sendChunk(sessionId, 0, content.subarray(0, 4000));
+    const session = await UploadSession.findByIdAndUpdate(sessionId, { expiresAt: new Date(Date.now() - 1000) }, { new: true });
+
+    const removed = await (UploadSession as any).removeExpired();
+
+    expect(removed).toBe(1);
+    expect(await storage.exists(session!.chunks[0].key)).toBe(false);
+  });
+});
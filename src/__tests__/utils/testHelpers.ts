@@ -5,7 +5,7 @@ import app from '../../app';
 import { User } from '../../models/User';
 import { Issue } from '../../models/Issue';
 import { Comment } from '../../models/Comment';
-import { JWTUtils } from '../../utils/jwt';
+import { TokenService } from '../../utils/tokenService';
 
 export interface TestUser {
   _id: string;
@@ -21,7 +21,7 @@ export interface TestIssue {
   _id: string;
   title: string;
   description: string;
-  status: 'pending' | 'complete';
+  status: string;
   priority: 'low' | 'medium' | 'high';
   createdBy: string;
   assignedTo?: string;
@@ -44,7 +44,8 @@ export const testUsers = {
     email: 'admin@example.com',
     password: 'adminpass123',
     firstName: 'Admin',
-    lastName: 'User'
+    lastName: 'User',
+    role: 'admin'
   }
 };
 
@@ -53,10 +54,8 @@ export const createTestUser = async (userData = testUsers.user1): Promise<TestUs
   const user = new User(userData);
   await user.save();
 
-  const tokens = JWTUtils.generateTokens({
-    userId: user._id,
-    email: user.email
-  });
+  // Persist the refresh token like a real login does
+  const tokens = await TokenService.issueTokens(user);
 
   return {
     _id: user._id,
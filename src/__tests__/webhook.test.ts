@@ -0,0 +1,265 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import request from 'supertest';
+import app from '../app';
+import { WebhookDelivery } from '../models/WebhookDelivery';
+import { WebhookDispatcher } from '../utils/webhookDispatcher';
+import { createTestUsers, getAuthHeader, createIssueViaAPI, assertErrorResponse, assertSuccessResponse, assertPaginationStructure } from './utils/testHelpers';
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('Webhooks API', () => {
+  let users: any;
+  let receiver: http.Server;
+  let receiverUrl: string;
+  let received: ReceivedRequest[];
+  let responseStatus: number;
+
+  const secret = 'a-very-secret-webhook-key';
+
+  const createWebhook = (events: string[] = ['issue.created']) => {
+    return request(app)
+      .post('/api/webhooks')
+      .set(getAuthHeader(users.admin.accessToken))
+      .send({ url: receiverUrl, secret, events });
+  };
+
+  const waitFor = async (check: () => boolean | Promise<boolean>, timeout = 3000) => {
+    const started = Date.now();
+    while (!(await check())) {
+      if (Date.now() - started > timeout) {
+        throw new Error('Timed out waiting for webhook delivery');
+      }
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+  };
+
+  beforeAll(async () => {
+    // Local receiver standing in for the chat bot and CI
+    receiver = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(responseStatus, { 'Content-Type': 'text/plain' });
+        res.end(responseStatus < 300 ? 'ok' : 'receiver error');
+      });
+    });
+    await new Promise<void>(resolve => receiver.listen(0, '127.0.0.1', resolve));
+    receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/hooks`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => receiver.close(resolve));
+  });
+
+  beforeEach(async () => {
+    users = await createTestUsers();
+    received = [];
+    responseStatus = 200;
+    process.env.WEBHOOK_RETRY_BASE_DELAY = '60000';
+  });
+
+  afterEach(() => {
+    delete process.env.WEBHOOK_RETRY_BASE_DELAY;
+    delete process.env.WEBHOOK_MAX_ATTEMPTS;
+  });
+
+  describe('POST /api/webhooks', () => {
+    it('should create a webhook and hide the secret afterwards', async () => {
+      const response = await createWebhook();
+
+      assertSuccessResponse(response, 201);
+      expect(response.body.data.webhook.secret).toBe(secret);
+
+      const getResponse = await request(app)
+        .get(`/api/webhooks/${response.body.data.webhook._id}`)
+        .set(getAuthHeader(users.admin.accessToken));
+      expect(getResponse.body.data.webhook.secret).toBeUndefined();
+    });
+
+    it('should not create a webhook with an unknown event', async () => {
+      const response = await request(app)
+        .post('/api/webhooks')
+        .set(getAuthHeader(users.admin.accessToken))
+        .send({ url: receiverUrl, events: ['issue.exploded'] });
+
+      assertErrorResponse(response, 400);
+    });
+
+    it('should not let members manage webhooks', async () => {
+      const response = await request(app)
+        .post('/api/webhooks')
+        .set(getAuthHeader(users.user1.accessToken))
+        .send({ url: receiverUrl, events: ['issue.created'] });
+
+      assertErrorResponse(response, 403);
+    });
+  });
+
+  describe('Project webhooks', () => {
+    let payments: any;
+    let search: any;
+
+    const createProject = async (accessToken: string, name: string, key: string) => {
+      const response = await request(app)
+        .post('/api/projects')
+        .set(getAuthHeader(accessToken))
+        .send({ name, key });
+      return response.body.data.project;
+    };
+
+    const createProjectWebhook = (accessToken: string, project?: string) => {
+      return request(app)
+        .post('/api/webhooks')
+        .set(getAuthHeader(accessToken))
+        .send({ url: receiverUrl, events: ['issue.created'], ...(project && { project }) });
+    };
+
+    beforeEach(async () => {
+      payments = await createProject(users.user1.accessToken, 'Payments', 'PAY');
+      search = await createProject(users.user2.accessToken, 'Search', 'SRCH');
+    });
+
+    it('should let project maintainers manage webhooks of their project', async () => {
+      const response = await createProjectWebhook(users.user1.accessToken, payments._id);
+      assertSuccessResponse(response, 201);
+
+      const listResponse = await request(app)
+        .get('/api/webhooks')
+        .set(getAuthHeader(users.user1.accessToken));
+      expect(listResponse.body.data.webhooks).toHaveLength(1);
+
+      const otherListResponse = await request(app)
+        .get('/api/webhooks')
+        .set(getAuthHeader(users.user2.accessToken));
+      expect(otherListResponse.body.data.webhooks).toHaveLength(0);
+    });
+
+    it('should not let maintainers create webhooks for other projects', async () => {
+      const response = await createProjectWebhook(users.user1.accessToken, search._id);
+
+      assertErrorResponse(response, 403);
+    });
+
+    it('should only let admins create webhooks for all projects', async () => {
+      const response = await createProjectWebhook(users.user1.accessToken);
+
+      assertErrorResponse(response, 403);
+      assertSuccessResponse(await createProjectWebhook(users.admin.accessToken), 201);
+    });
+
+    it('should not let maintainers manage webhooks of other projects', async () => {
+      const webhook = (await createProjectWebhook(users.user2.accessToken, search._id)).body.data.webhook;
+
+      const getResponse = await request(app)
+        .get(`/api/webhooks/${webhook._id}`)
+        .set(getAuthHeader(users.user1.accessToken));
+      assertErrorResponse(getResponse, 403);
+
+      const deleteResponse = await request(app)
+        .delete(`/api/webhooks/${webhook._id}`)
+        .set(getAuthHeader(users.user1.accessToken));
+      assertErrorResponse(deleteResponse, 403);
+    });
+
+    it('should not let maintainers move webhooks into other projects', async () => {
+      const webhook = (await createProjectWebhook(users.user1.accessToken, payments._id)).body.data.webhook;
+
+      const moveResponse = await request(app)
+        .put(`/api/webhooks/${webhook._id}`)
+        .set(getAuthHeader(users.user1.accessToken))
+        .send({ project: search._id });
+      assertErrorResponse(moveResponse, 403);
+
+      const globalResponse = await request(app)
+        .put(`/api/webhooks/${webhook._id}`)
+        .set(getAuthHeader(users.user1.accessToken))
+        .send({ project: null });
+      assertErrorResponse(globalResponse, 403);
+    });
+  });
+
+  describe('Deliveries', () => {
+    it('should send a signed payload for subscribed events', async () => {
+      await createWebhook(['issue.created']);
+
+      const issueResponse = await createIssueViaAPI(users.user1.accessToken);
+      await waitFor(() => received.length === 1);
+
+      const [delivery] = received;
+      expect(delivery.headers['x-webhook-event']).toBe('issue.created');
+      expect(delivery.headers['x-webhook-signature-256']).toBe(WebhookDispatcher.sign(secret, delivery.body));
+
+      const payload = JSON.parse(delivery.body);
+      expect(payload.event).toBe('issue.created');
+      expect(payload.issueId).toBe(issueResponse.body.data.issue._id);
+    });
+
+    it('should not send events the webhook is not subscribed to', async () => {
+      const webhookResponse = await createWebhook(['comment.created']);
+
+      await createIssueViaAPI(users.user1.accessToken);
+      await new Promise(resolve => setTimeout(resolve, 200));
+
+      expect(received.length).toBe(0);
+      const count = await WebhookDelivery.countDocuments({ webhookId: webhookResponse.body.data.webhook._id });
+      expect(count).toBe(0);
+    });
+
+    it('should log successful deliveries', async () => {
+      const webhookResponse = await createWebhook();
+      const webhookId = webhookResponse.body.data.webhook._id;
+
+      await createIssueViaAPI(users.user1.accessToken);
+      await waitFor(async () => (await WebhookDelivery.countDocuments({ status: 'success' })) === 1);
+
+      const response = await request(app)
+        .get(`/api/webhooks/${webhookId}/deliveries`)
+        .set(getAuthHeader(users.admin.accessToken));
+
+      assertSuccessResponse(response, 200);
+      assertPaginationStructure(response);
+      expect(response.body.data[0].status).toBe('success');
+      expect(response.body.data[0].responseStatus).toBe(200);
+      expect(response.body.data[0].attempts).toBe(1);
+    });
+
+    it('should schedule a retry with backoff when the receiver fails', async () => {
+      responseStatus = 500;
+      await createWebhook();
+
+      await createIssueViaAPI(users.user1.accessToken);
+      await waitFor(async () => !!(await WebhookDelivery.findOne({ attempts: 1, responseStatus: 500 })));
+
+      const delivery = await WebhookDelivery.findOne({ attempts: 1 });
+      expect(delivery!.status).toBe('pending');
+      expect(delivery!.nextAttemptAt!.getTime()).toBeGreaterThan(Date.now() + 50000);
+      expect(WebhookDispatcher.getRetryDelay(3)).toBe(4 * WebhookDispatcher.getRetryDelay(1));
+    });
+
+    it('should redeliver a failed delivery', async () => {
+      process.env.WEBHOOK_MAX_ATTEMPTS = '1';
+      responseStatus = 500;
+      const webhookResponse = await createWebhook();
+      const webhookId = webhookResponse.body.data.webhook._id;
+
+      await createIssueViaAPI(users.user1.accessToken);
+      await waitFor(async () => !!(await WebhookDelivery.findOne({ status: 'failed' })));
+      const failed = await WebhookDelivery.findOne({ status: 'failed' });
+
+      responseStatus = 200;
+      const response = await request(app)
+        .post(`/api/webhooks/${webhookId}/deliveries/${failed!._id}/redeliver`)
+        .set(getAuthHeader(users.admin.accessToken));
+
+      assertSuccessResponse(response, 201);
+      expect(response.body.data.delivery.status).toBe('success');
+      expect(response.body.data.delivery.redeliveryOf).toBe(failed!._id.toString());
+      expect(received[received.length - 1].body).toBe(received[0].body);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import request from 'supertest';
+import app from '../app';
+import { Workflow } from '../models/Workflow';
+import { createTestUsers, createTestIssue, getAuthHeader, assertErrorResponse, assertSuccessResponse } from './utils/testHelpers';
+
+describe('Workflows API', () => {
+  let users: any;
+
+  const triageWorkflow = {
+    name: 'Triage Flow',
+    statuses: [
+      { key: 'triage', name: 'Triage', isInitial: true },
+      { key: 'in-progress', name: 'In Progress' },
+      { key: 'in-review', name: 'In Review' },
+      { key: 'done', name: 'Done', isFinal: true },
+      { key: 'wont-fix', name: "Won't Fix", isFinal: true }
+    ],
+    transitions: [
+      { from: 'triage', to: 'in-progress' },
+      { from: 'triage', to: 'wont-fix' },
+      { from: 'in-progress', to: 'in-review' },
+      { from: 'in-review', to: 'in-progress' },
+      { from: 'in-review', to: 'done' }
+    ]
+  };
+
+  beforeEach(async () => {
+    users = await createTestUsers();
+  });
+
+  describe('GET /api/workflows', () => {
+    it('should include the default workflow', async () => {
+      const response = await request(app)
+        .get('/api/workflows')
+        .set(getAuthHeader(users.user1.accessToken));
+
+      assertSuccessResponse(response, 200);
+      const defaultWorkflow = response.body.data.workflows.find((workflow: any) => workflow.isDefault);
+      expect(defaultWorkflow).toBeDefined();
+      expect(defaultWorkflow.statuses.map((status: any) => status.key)).toEqual(['pending', 'complete']);
+    });
+  });
+
+  describe('POST /api/workflows', () => {
+    it('should create a workflow successfully', async () => {
+      const response = await request(app)
+        .post('/api/workflows')
+        .set(getAuthHeader(users.admin.accessToken))
+        .send(triageWorkflow);
+
+      assertSuccessResponse(response, 201);
+      expect(response.body.data.workflow.statuses.length).toBe(5);
+      expect(response.body.data.workflow.transitions.length).toBe(5);
+    });
+
+    it('should not create workflow with transition to unknown status', async () => {
+      const response = await request(app)
+        .post('/api/workflows')
+        .set(getAuthHeader(users.admin.accessToken))
+        .send({
+          ...triageWorkflow,
+          transitions: [{ from: 'triage', to: 'archived' }]
+        });
+
+      assertErrorResponse(response, 400);
+      expect(response.body.error.message).toContain('unknown status');
+    });
+
+    it('should not create workflow without an initial status', async () => {
+      const response = await request(app)
+        .post('/api/workflows')
+        .set(getAuthHeader(users.admin.accessToken))
+        .send({
+          name: 'No Initial',
+          statuses: [{ key: 'open', name: 'Open' }]
+        });
+
+      assertErrorResponse(response, 400);
+    });
+  });
+
+  describe('PUT /api/workflows/:id', () => {
+    it('should not remove a status that issues still use', async () => {
+      const createResponse = await request(app)
+        .post('/api/workflows')
+        .set(getAuthHeader(users.admin.accessToken))
+        .send(triageWorkflow);
+      const workflowId = createResponse.body.data.workflow._id;
+
+      await request(app)
+        .post('/api/issues')
+        .set(getAuthHeader(users.user1.accessToken))
+        .send({ title: 'In triage', description: 'Uses triage', workflow: workflowId });
+
+      const response = await request(app)
+        .put(`/api/workflows/${workflowId}`)
+        .set(getAuthHeader(users.admin.accessToken))
+        .send({
+          statuses: [{ key: 'in-progress', name: 'In Progress', isInitial: true }],
+          transitions: []
+        });
+
+      assertErrorResponse(response, 409);
+    });
+  });
+
+  describe('Default workflow', () => {
+    it('should fail clearly when its name is taken by another workflow', async () => {
+      await Workflow.create({ ...triageWorkflow, name: 'Default' });
+
+      const response = await request(app)
+        .post('/api/issues')
+        .set(getAuthHeader(users.user1.accessToken))
+        .send({ title: 'New issue', description: 'Needs the default workflow', priority: 'low' });
+
+      assertErrorResponse(response, 409);
+      expect(response.body.error.message).toContain('Default');
+    });
+  });
+
+  describe('DELETE /api/workflows/:id', () => {
+    it('should not delete the default workflow', async () => {
+      await createTestIssue(users.user1._id);
+      const listResponse = await request(app)
+        .get('/api/workflows')
+        .set(getAuthHeader(users.user1.accessToken));
+      const defaultWorkflow = listResponse.body.data.workflows.find((workflow: any) => workflow.isDefault);
+
+      const response = await request(app)
+        .delete(`/api/workflows/${defaultWorkflow._id}`)
+        .set(getAuthHeader(users.admin.accessToken));
+
+      assertErrorResponse(response, 409);
+    });
+
+    it('should not delete a workflow projects still use', async () => {
+      const createResponse = await request(app)
+        .post('/api/workflows')
+        .set(getAuthHeader(users.admin.accessToken))
+        .send(triageWorkflow);
+      const workflow = createResponse.body.data.workflow;
+
+      await request(app)
+        .post('/api/projects')
+        .set(getAuthHeader(users.user1.accessToken))
+        .send({ name: 'Payments', key: 'PAY', workflow: workflow._id });
+
+      const response = await request(app)
+        .delete(`/api/workflows/${workflow._id}`)
+        .set(getAuthHeader(users.admin.accessToken));
+
+      assertErrorResponse(response, 409);
+      expect(response.body.error.message).toContain('project');
+    });
+  });
+});
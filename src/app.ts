@@ -3,11 +3,15 @@ import cors from 'cors';
 import helmet from 'helmet';
 import morgan from 'morgan';
 import dotenv from 'dotenv';
-import path from 'path';
 
 // Import utilities and middleware
 import { database } from './utils/database';
 import { logger, morganStream } from './utils/logger';
+import { webhookDispatcher } from './utils/webhookDispatcher';
+import { fileReconciler } from './utils/fileReconciler';
+import { malwareScanner } from './utils/malwareScanner';
+import { SignedUrl } from './utils/signedUrl';
+import { UploadSession } from './models/UploadSession';
 import {
   errorHandler,
   notFoundHandler,
@@ -20,6 +24,13 @@ import authRoutes from './routes/auth';
 import issueRoutes from './routes/issues';
 import commentRoutes from './routes/comments';
 import fileRoutes from './routes/files';
+import workflowRoutes from './routes/workflows';
+import labelRoutes from './routes/labels';
+import projectRoutes from './routes/projects';
+import userRoutes from './routes/users';
+import streamRoutes from './routes/stream';
+import webhookRoutes from './routes/webhooks';
+import notificationRoutes from './routes/notifications';
 
 // Load environment variables
 dotenv.config();
@@ -43,7 +54,10 @@ app.use(cors({
   origin: process.env.ALLOWED_ORIGINS?.split(',') || ['http://localhost:3000', 'http://localhost:4200'],
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With']
+  // Range and conditional download headers, so browsers can resume downloads and revalidate cached files
+  // Upload offset headers and the session location, so browsers can resume uploads
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Range', 'If-None-Match', 'If-Modified-Since', 'If-Range', 'Upload-Offset'],
+  exposedHeaders: ['ETag', 'Content-Range', 'Accept-Ranges', 'Content-Disposition', 'Upload-Offset', 'Upload-Length', 'Location']
 }));
 
 // Request parsers
@@ -55,9 +69,8 @@ app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 // Uses morgan for logging HTTP requests in 'combined' format
 app.use(morgan('combined', { stream: morganStream }));
 
-// Serve static files 
-// Serves static files from the 'uploads' directory
-app.use('/uploads', express.static(path.join(process.cwd(), 'uploads')));
+// Uploaded files are not served statically, they are downloaded through
+// /api/files/:id/download with a token or a signed URL from /api/files/:id/url
 
 // Health check
 // Simple endpoint to check if the API is running
@@ -91,7 +104,13 @@ app.get('/api', (req, res) => {
         'PUT /api/auth/profile': 'Update user profile',
         'POST /api/auth/change-password': 'Change password',
         'POST /api/auth/refresh-token': 'Refresh access token',
+        'POST /api/auth/forgot-password': 'Request password reset link',
+        'POST /api/auth/reset-password': 'Reset password with token',
+        'POST /api/auth/verify-email': 'Verify email address',
+        'POST /api/auth/resend-verification': 'Resend verification email',
         'POST /api/auth/logout': 'Logout user',
+        'GET /api/auth/sessions': 'Get active sessions',
+        'DELETE /api/auth/sessions/:id': 'Revoke session',
         'GET /api/auth/verify-token': 'Verify token'
       },
       issues: {
@@ -99,17 +118,82 @@ app.get('/api', (req, res) => {
         'GET /api/issues/:id': 'Get issue',
         'POST /api/issues': 'Create issue',
         'PUT /api/issues/:id': 'Update issue',
+        'PATCH /api/issues/:id/status': 'Update issue status',
+        'GET /api/issues/:id/history': 'Get issue change history',
+        'GET /api/issues/:id/transitions': 'Get allowed status transitions',
+        'PUT /api/issues/:id/follow': 'Follow issue',
+        'DELETE /api/issues/:id/follow': 'Stop following issue',
         'DELETE /api/issues/:id': 'Delete issue'
       },
+      projects: {
+        'GET /api/projects': 'Get my projects',
+        'POST /api/projects': 'Create project',
+        'GET /api/projects/:projectId': 'Get project',
+        'POST /api/projects/:projectId/members': 'Add project member',
+        'PATCH /api/projects/:projectId/members/:userId': 'Change project member role',
+        'PATCH /api/projects/:projectId/quota': 'Change project storage quota (admin)',
+        'GET /api/projects/:projectId/issues': 'Get project issues',
+        'POST /api/projects/:projectId/issues': 'Create project issue',
+        'GET /api/projects/:projectId/issues/:issueRef': 'Get project issue by key or ID',
+        'GET /api/projects/:projectId/issues/:issueRef/comments': 'Get project issue comments',
+        'POST /api/projects/:projectId/issues/:issueRef/files': 'Upload files to project issue'
+      },
+      labels: {
+        'GET /api/labels': 'Get all labels',
+        'POST /api/labels': 'Create label',
+        'PUT /api/labels/:id': 'Update label',
+        'DELETE /api/labels/:id': 'Delete label'
+      },
+      workflows: {
+        'GET /api/workflows': 'Get all workflows',
+        'POST /api/workflows': 'Create workflow',
+        'PUT /api/workflows/:id': 'Update workflow',
+        'DELETE /api/workflows/:id': 'Delete workflow'
+      },
+      users: {
+        'GET /api/users/mentionable': 'Suggest users to mention',
+        'GET /api/users': 'Get all users (admin)',
+        'PATCH /api/users/:id/role': 'Change user role (admin)',
+        'PATCH /api/users/:id/quota': 'Change user storage quota (admin)'
+      },
+      webhooks: {
+        'GET /api/webhooks': 'Get all webhooks',
+        'POST /api/webhooks': 'Create webhook',
+        'PUT /api/webhooks/:id': 'Update webhook',
+        'DELETE /api/webhooks/:id': 'Delete webhook',
+        'GET /api/webhooks/:id/deliveries': 'Get webhook delivery log',
+        'POST /api/webhooks/:id/deliveries/:deliveryId/redeliver': 'Redeliver a webhook delivery'
+      },
+      notifications: {
+        'GET /api/notifications': 'Get my notifications',
+        'GET /api/notifications/unread-count': 'Get my unread notification count',
+        'PATCH /api/notifications/:id/read': 'Mark notification as read',
+        'POST /api/notifications/read-all': 'Mark all my notifications as read'
+      },
+      stream: {
+        'GET /api/stream': 'Stream issue, comment and file events (Server-Sent Events)'
+      },
       comments: {
         'GET /api/comments/my-comments': 'Get my comments',
         'GET /api/comments/recent': 'Get recent comments',
-        'POST /api/comments/issue/:issueId': 'Add comment to issue'
+        'POST /api/comments/issue/:issueId': 'Add comment to issue',
+        'POST /api/comments/:id/replies': 'Reply to a comment',
+        'GET /api/comments/:id/revisions': 'Get earlier versions of an edited comment'
       },
       files: {
         'GET /api/files/my-files': 'Get my files',
+        'GET /api/files/quota': 'Get my used and remaining storage',
         'POST /api/files/issue/:issueId/upload': 'Upload files',
-        'GET /api/files/:id/download': 'Download file'
+        'GET /api/files/issue/:issueId/archive': 'Download the files of an issue as a ZIP archive',
+        'POST /api/files/issue/:issueId/uploads': 'Start a resumable upload',
+        'PATCH /api/files/uploads/:id': 'Upload a chunk of a resumable upload',
+        'POST /api/files/uploads/:id/complete': 'Complete a resumable upload',
+        'POST /api/files/:id/versions': 'Upload a new version of a file',
+        'GET /api/files/:id/versions': 'Get all versions of a file',
+        'GET /api/files/:id/url': 'Get short-lived signed download and thumbnail URLs',
+        'GET /api/files/:id/download': 'Download file',
+        'GET /api/files/:id/thumbnail': 'Get a thumbnail of an image or PDF',
+        'POST /api/files/:id/rescan': 'Scan a file for malware again (admin)'
       }
     }
   });
@@ -121,8 +205,18 @@ app.use('/api/auth', authRoutes);
 app.use('/api/issues', issueRoutes);
 app.use('/api/comments', commentRoutes);
 app.use('/api/files', fileRoutes);
+app.use('/api/workflows', workflowRoutes);
+app.use('/api/labels', labelRoutes);
+app.use('/api/projects', projectRoutes);
+app.use('/api/users', userRoutes);
+app.use('/api/stream', streamRoutes);
+app.use('/api/webhooks', webhookRoutes);
+app.use('/api/notifications', notificationRoutes);
 logger.info('Routes registered successfully');
 
+// Deliver issue events to webhook subscribers
+webhookDispatcher.start();
+
 // Error handling
 app.use(notFoundHandler);
 if (process.env.NODE_ENV === 'development') {
@@ -135,7 +229,14 @@ if (process.env.NODE_ENV === 'development') {
 // Starts the Express server and connects to the database.
 const startServer = async () => {
   try {
+    SignedUrl.assertConfigured();
     await database.connect();
+    // Resume scans interrupted by a restart
+    await malwareScanner.scanPending();
+    // Drop chunks of uploads abandoned while the server was down
+    await (UploadSession as any).removeExpired();
+    // Report files and stored contents that lost their counterpart
+    fileReconciler.start();
     const port = process.env.PORT || 3000;
     server = app.listen(port, () => {
       logger.info(`Server running on http://localhost:${port}`);
@@ -149,6 +250,8 @@ const startServer = async () => {
 // Gracefully shut down the server.
 const shutdown = async () => {
   logger.info('Gracefully shutting down...');
+  webhookDispatcher.stop();
+  fileReconciler.stop();
   await database.disconnect();
 
   if (server) {
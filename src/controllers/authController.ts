@@ -1,14 +1,17 @@
 import { Request, Response, NextFunction } from 'express';
 import { User } from '../models/User';
-import { JWTUtils } from '../utils/jwt';
-import { AuthRequest } from '../types';
-import { ValidationError, AuthenticationError, ConflictError } from '../utils/errorTypes';
+import { UserToken } from '../models/UserToken';
+import { TokenService, ClientContext } from '../utils/tokenService';
+import { mailer } from '../utils/mailer';
+import { AuthRequest, IUser } from '../types';
+import { Authorization } from '../utils/authorization';
+import { ValidationError, AuthenticationError, ConflictError, NotFoundError } from '../utils/errorTypes';
 import { logger } from '../utils/logger';
 import { asyncHandler } from '../middleware/errorHandler';
 
 //Register a new user
 export const register = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
-  const { email, password, firstName, lastName } = req.body;
+  const { email, password, firstName, lastName, username } = req.body;
   logger.info('Registering user:', email);
   // Check if user already exists
   const existingUser = await User.findOne({ email });
@@ -16,21 +19,26 @@ export const register = asyncHandler(async (req: Request, res: Response, next: N
     throw new ConflictError('User with this email already exists');
   }
 
+  if (username && await User.exists({ username })) {
+    throw new ConflictError('Username is already taken');
+  }
+
   // Create new user
   const user = new User({
     email,
     password,
     firstName,
-    lastName
+    lastName,
+    username,
+    role: 'member'
   });
 
   await user.save();
 
-  // Generate tokens
-  const tokens = JWTUtils.generateTokens({
-    userId: user._id,
-    email: user.email
-  });
+  // Generate tokens, starting a new session
+  const tokens = await TokenService.issueTokens(user, getClientContext(req));
+
+  await sendVerificationEmail(user);
 
   logger.info(`New user registered: ${email}`);
 
@@ -43,9 +51,12 @@ export const register = asyncHandler(async (req: Request, res: Response, next: N
       user: {
         id: user._id,
         email: user.email,
+        username: user.username,
         firstName: user.firstName,
         lastName: user.lastName,
         fullName: `${user.firstName} ${user.lastName}`,
+        role: user.role,
+        emailVerified: user.emailVerified,
         createdAt: user.createdAt
       }
     }
@@ -68,11 +79,8 @@ export const login = asyncHandler(async (req: Request, res: Response, next: Next
     throw new AuthenticationError('Invalid email or password');
   }
 
-  // Generate tokens
-  const tokens = JWTUtils.generateTokens({
-    userId: user._id,
-    email: user.email
-  });
+  // Generate tokens, starting a new session
+  const tokens = await TokenService.issueTokens(user, getClientContext(req));
 
   logger.info(`User logged in: ${email}`);
 
@@ -85,9 +93,12 @@ export const login = asyncHandler(async (req: Request, res: Response, next: Next
       user: {
         id: user._id,
         email: user.email,
+        username: user.username,
         firstName: user.firstName,
         lastName: user.lastName,
         fullName: `${user.firstName} ${user.lastName}`,
+        role: user.role,
+        emailVerified: user.emailVerified,
         createdAt: user.createdAt
       }
     }
@@ -107,9 +118,13 @@ export const getProfile = asyncHandler(async (req: AuthRequest, res: Response, n
       user: {
         id: req.user._id,
         email: req.user.email,
+        username: req.user.username,
         firstName: req.user.firstName,
         lastName: req.user.lastName,
         fullName: `${req.user.firstName} ${req.user.lastName}`,
+        role: req.user.role,
+        emailVerified: req.user.emailVerified,
+        permissions: Authorization.getPermissions(req.user.role),
         createdAt: req.user.createdAt,
         updatedAt: req.user.updatedAt
       }
@@ -123,11 +138,17 @@ export const updateProfile = asyncHandler(async (req: AuthRequest, res: Response
     throw new AuthenticationError('User not authenticated');
   }
 
-  const { firstName, lastName } = req.body;
+  const { firstName, lastName, username } = req.body;
   const updateData: any = {};
 
   if (firstName) updateData.firstName = firstName;
   if (lastName) updateData.lastName = lastName;
+  if (username && username !== req.user.username) {
+    if (await User.exists({ username })) {
+      throw new ConflictError('Username is already taken');
+    }
+    updateData.username = username;
+  }
 
   const updatedUser = await User.findByIdAndUpdate(
     req.user._id,
@@ -148,9 +169,12 @@ export const updateProfile = asyncHandler(async (req: AuthRequest, res: Response
       user: {
         id: updatedUser._id,
         email: updatedUser.email,
+        username: updatedUser.username,
         firstName: updatedUser.firstName,
         lastName: updatedUser.lastName,
         fullName: `${updatedUser.firstName} ${updatedUser.lastName}`,
+        role: updatedUser.role,
+        emailVerified: updatedUser.emailVerified,
         updatedAt: updatedUser.updatedAt
       }
     }
@@ -181,11 +205,19 @@ export const changePassword = asyncHandler(async (req: AuthRequest, res: Respons
   user.password = newPassword;
   await user.save();
 
+  // End every session, the current client continues with a fresh one
+  await TokenService.revokeAllForUser(user._id, 'password_changed');
+  const tokens = await TokenService.issueTokens(user, getClientContext(req));
+
   logger.info(`Password changed for user: ${user.email}`);
 
   res.json({
     success: true,
-    message: 'Password changed successfully'
+    message: 'Password changed successfully',
+    data: {
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken
+    }
   });
 });
 
@@ -197,21 +229,8 @@ export const refreshToken = asyncHandler(async (req: Request, res: Response, nex
     throw new ValidationError('Refresh token is required');
   }
 
-  // Verify refresh token
-  const payload = JWTUtils.verifyRefreshToken(refreshToken);
-
-  // Find user
-  const user = await User.findById(payload.userId);
-  if (!user) {
-    throw new AuthenticationError('Invalid refresh token');
-  }
-
-  
-  // Generate new tokens
-  const newTokens = JWTUtils.generateTokens({
-    userId: user._id,
-    email: user.email
-  });
+  // Exchange the refresh token for a new pair, it cannot be used again
+  const newTokens = await TokenService.rotate(refreshToken, getClientContext(req));
 
   res.json({
     success: true,
@@ -223,21 +242,180 @@ export const refreshToken = asyncHandler(async (req: Request, res: Response, nex
   });
 });
 
-//Logout user (client-side token removal)
+//Logout user by revoking the current session
 export const logout = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
-  // In a stateless JWT system, logout is typically handled client-side
-  // by removing the tokens from storage. However, we can log the action.
-  
-  if (req.user) {
-    logger.info(`User logged out: ${req.user.email}`);
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
+
+  // The session comes from the access token, or from the refresh token for older access tokens
+  let sessionId = req.sessionId;
+  if (!sessionId && req.body?.refreshToken) {
+    const token = await TokenService.findByToken(req.body.refreshToken);
+    if (token && token.user.toString() === req.user._id.toString()) {
+      sessionId = token.familyId.toString();
+    }
   }
 
+  if (sessionId) {
+    await TokenService.revokeFamily(sessionId, 'logout');
+  }
+
+  logger.info(`User logged out: ${req.user.email}`);
+
   res.json({
     success: true,
     message: 'Logout successful'
   });
 });
 
+//Get the active sessions of the current user
+export const getSessions = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
+
+  const sessions = await TokenService.listSessions(req.user._id, req.sessionId);
+
+  res.json({
+    success: true,
+    message: 'Sessions retrieved successfully',
+    data: { sessions }
+  });
+});
+
+//Revoke one of the current user's sessions
+export const revokeSession = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
+
+  const { id } = req.params;
+
+  const sessions = await TokenService.listSessions(req.user._id);
+  if (!sessions.some(session => session.id === id)) {
+    throw new NotFoundError('Session');
+  }
+
+  await TokenService.revokeFamily(id, 'session_revoked');
+
+  logger.info(`Session ${id} revoked by ${req.user.email}`);
+
+  res.json({
+    success: true,
+    message: 'Session revoked successfully'
+  });
+});
+
+//Send a password reset link
+//Responds the same way whether or not the address is registered
+export const forgotPassword = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const { email } = req.body;
+
+  const user = await User.findOne({ email });
+  if (user) {
+    const ttl = getPasswordResetTtl();
+    const token = await (UserToken as any).issue(user._id, 'password_reset', ttl);
+    // A mail failure must not reveal that the address is registered
+    try {
+      await mailer.sendPasswordReset(user, token, Math.round(ttl / 60000));
+    } catch (error) {
+      logger.error(`Failed to send password reset email to ${email}:`, error);
+    }
+    logger.info(`Password reset requested for: ${email}`);
+  } else {
+    logger.info(`Password reset requested for unknown address: ${email}`);
+  }
+
+  res.json({
+    success: true,
+    message: 'If an account exists for this address, a password reset link has been sent'
+  });
+});
+
+//Set a new password with a reset token
+export const resetPassword = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const { token, password } = req.body;
+
+  const resetToken = await (UserToken as any).consume(token, 'password_reset');
+  if (!resetToken) {
+    throw new ValidationError('Invalid or expired password reset token');
+  }
+
+  const user = await User.findById(resetToken.user);
+  if (!user) {
+    throw new ValidationError('Invalid or expired password reset token');
+  }
+
+  user.password = password;
+  // Receiving the reset link proves the address belongs to the user
+  if (!user.emailVerified) {
+    user.emailVerified = true;
+    user.emailVerifiedAt = new Date();
+  }
+  await user.save();
+
+  // Whoever knew the old password must not stay logged in
+  await TokenService.revokeAllForUser(user._id, 'password_changed');
+
+  logger.info(`Password reset for user: ${user.email}`);
+
+  res.json({
+    success: true,
+    message: 'Password has been reset, please log in with your new password'
+  });
+});
+
+//Confirm an email address with a verification token
+export const verifyEmail = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const { token } = req.body;
+
+  const verificationToken = await (UserToken as any).consume(token, 'email_verification');
+  if (!verificationToken) {
+    throw new ValidationError('Invalid or expired email verification token');
+  }
+
+  const user = await User.findById(verificationToken.user);
+  if (!user) {
+    throw new ValidationError('Invalid or expired email verification token');
+  }
+
+  // Addresses listed in ADMIN_EMAILS only become admins once their owner proved access to them
+  const promote = isAdminEmail(user.email) && user.role !== 'admin';
+  await User.updateOne(
+    { _id: user._id },
+    { emailVerified: true, emailVerifiedAt: new Date(), ...(promote && { role: 'admin' }) }
+  );
+
+  logger.info(`Email verified for user: ${user.email}`);
+  if (promote) {
+    logger.info(`User ${user.email} promoted to admin as listed in ADMIN_EMAILS`);
+  }
+
+  res.json({
+    success: true,
+    message: 'Email address verified successfully'
+  });
+});
+
+//Send a new email verification link to the current user
+export const resendVerification = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    throw new AuthenticationError('User not authenticated');
+  }
+
+  if (req.user.emailVerified) {
+    throw new ConflictError('Email address is already verified');
+  }
+
+  await sendVerificationEmail(req.user);
+
+  res.json({
+    success: true,
+    message: 'Verification email sent'
+  });
+});
+
 // Verify token endpoint
 export const verifyToken = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
   if (!req.user) {
@@ -256,4 +434,31 @@ export const verifyToken = asyncHandler(async (req: AuthRequest, res: Response,
       }
     }
   });
-});
\ No newline at end of file
+});
+
+const getPasswordResetTtl = (): number => parseInt(process.env.PASSWORD_RESET_TOKEN_TTL || '3600000');
+const getEmailVerificationTtl = (): number => parseInt(process.env.EMAIL_VERIFICATION_TOKEN_TTL || '86400000');
+
+// Send a verification link, a mail failure must not fail the request
+const sendVerificationEmail = async (user: IUser): Promise<void> => {
+  try {
+    const token = await (UserToken as any).issue(user._id, 'email_verification', getEmailVerificationTtl());
+    await mailer.sendEmailVerification(user, token);
+  } catch (error) {
+    logger.error(`Failed to send verification email to ${user.email}:`, error);
+  }
+};
+
+// Where the request came from, stored with the session
+const getClientContext = (req: Request): ClientContext => ({
+  userAgent: req.get('user-agent'),
+  ipAddress: req.ip
+});
+
+// Addresses listed in ADMIN_EMAILS are promoted to admins when they are verified
+const isAdminEmail = (email: string): boolean => {
+  return (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .includes(email.toLowerCase());
+};
@@ -1,9 +1,15 @@
 import { Request, Response, NextFunction } from 'express';
 import { Comment } from '../models/Comment';
+import { CommentRevision } from '../models/CommentRevision';
 import { Issue } from '../models/Issue';
-import { AuthRequest, PaginatedResponse } from '../types';
-import { NotFoundError, ValidationError, AuthorizationError } from '../utils/errorTypes';
+import { IssueHistory } from '../models/IssueHistory';
+import { Project } from '../models/Project';
+import { AuthRequest, IComment, IIssue, PaginatedResponse } from '../types';
+import { NotFoundError, ValidationError, ConflictError } from '../utils/errorTypes';
 import { logger } from '../utils/logger';
+import { eventBus } from '../utils/eventBus';
+import { Mentions } from '../utils/mentions';
+import { Notifications } from '../utils/notifications';
 import { asyncHandler } from '../middleware/errorHandler';
 
 //Get comments for a specific issue
@@ -48,6 +54,41 @@ export const getCommentsForIssue = asyncHandler(async (req: Request, res: Respon
   });
 });
 
+// Replies below this depth are rejected, 1 allows replies to top-level comments only
+const getMaxReplyDepth = (): number => parseInt(process.env.COMMENT_MAX_DEPTH || '1');
+
+// Save a comment on an issue, optionally as a reply, and record it like any other comment
+const addComment = async (req: AuthRequest, issue: IIssue, content: string, parent?: IComment) => {
+  const comment = new Comment({
+    content,
+    issueId: issue._id,
+    userId: req.user!._id,
+    parentId: parent ? parent._id : null,
+    threadId: parent ? parent.threadId || parent._id : null,
+    depth: parent ? parent.depth + 1 : 0,
+    mentions: await Mentions.resolve(content, issue)
+  });
+
+  await comment.save();
+
+  await (IssueHistory as any).record(issue._id, req.user!._id, 'comment_added', [
+    { field: 'comments', from: null, to: comment._id.toString() }
+  ]);
+
+  // Populate the created comment
+  await comment.populate('userId', 'firstName lastName email');
+
+  eventBus.publish('comment.created', issue, req.user!._id, { comment });
+
+  // Commenting on an issue or being mentioned in it follows the issue
+  await (Issue as any).addFollowers(issue._id, [req.user!._id, ...(comment.mentions || [])]);
+
+  await Notifications.notifyMentioned(comment.mentions || [], issue, req.user!, comment);
+  await Notifications.notifyCommented(issue, req.user!, comment);
+
+  return comment;
+};
+
 //Create a new comment for an issue
 export const createComment = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
   if (!req.user) {
@@ -63,23 +104,52 @@ export const createComment = asyncHandler(async (req: AuthRequest, res: Response
     throw new NotFoundError('Issue');
   }
 
-  // Create comment
-  const comment = new Comment({
-    content,
-    issueId,
-    userId: req.user._id
+  const comment = await addComment(req, issue, content);
+
+  logger.info(`New comment created for issue ${issueId} by ${req.user.email}`);
+
+  res.status(201).json({
+    success: true,
+    message: 'Comment created successfully',
+    data: { comment }
   });
+});
 
-  await comment.save();
+//Reply to a comment
+export const createReply = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    throw new ValidationError('User authentication required');
+  }
 
-  // Populate the created comment
-  await comment.populate('userId', 'firstName lastName email');
+  const { id } = req.params;
+  const { content } = req.body;
 
-  logger.info(`New comment created for issue ${issueId} by ${req.user.email}`);
+  const parent = await Comment.findById(id);
+  if (!parent) {
+    throw new NotFoundError('Comment');
+  }
+
+  if (parent.deleted) {
+    throw new ConflictError('Deleted comments cannot be replied to');
+  }
+
+  const maxDepth = getMaxReplyDepth();
+  if (parent.depth >= maxDepth) {
+    throw new ValidationError(`Replies can only be nested ${maxDepth} level(s) deep`);
+  }
+
+  const issue = await Issue.findById(parent.issueId);
+  if (!issue) {
+    throw new NotFoundError('Issue');
+  }
+
+  const comment = await addComment(req, issue, content, parent);
+
+  logger.info(`Reply ${comment._id} to comment ${id} created by ${req.user.email}`);
 
   res.status(201).json({
     success: true,
-    message: 'Comment created successfully',
+    message: 'Reply created successfully',
     data: { comment }
   });
 });
@@ -117,16 +187,44 @@ export const updateComment = asyncHandler(async (req: AuthRequest, res: Response
     throw new NotFoundError('Comment');
   }
 
-  // Check if user owns the comment
-  if (comment.userId.toString() !== req.user._id.toString()) {
-    throw new AuthorizationError('You can only edit your own comments');
+  if (comment.deleted) {
+    throw new ConflictError('Deleted comments cannot be edited');
   }
 
-  const updatedComment = await Comment.findByIdAndUpdate(
-    id,
-    { content },
-    { new: true, runValidators: true }
-  ).populate('userId', 'firstName lastName email');
+  // Saving the same content again is not an edit and keeps no revision
+  let updatedComment: IComment | null = comment;
+  if (comment.content !== content) {
+    const issue = await Issue.findById(comment.issueId);
+    if (!issue) {
+      throw new NotFoundError('Issue');
+    }
+    const mentions = await Mentions.resolve(content, issue);
+
+    // Only replace the content that is kept as revision, a concurrent edit has to be retried
+    updatedComment = await Comment.findOneAndUpdate(
+      { _id: id, content: comment.content, deleted: { $ne: true } },
+      { content, mentions, edited: true, editedAt: new Date() },
+      { new: true, runValidators: true }
+    );
+    if (!updatedComment) {
+      throw new ConflictError('Comment was changed meanwhile, reload it and edit again');
+    }
+
+    await CommentRevision.create({
+      commentId: comment._id,
+      issueId: comment.issueId,
+      content: comment.content,
+      authoredAt: comment.editedAt || comment.createdAt,
+      editedBy: req.user._id
+    });
+
+    // Users mentioned before the edit were notified already
+    const addedMentions = Mentions.getAdded(comment.mentions, mentions);
+    await (Issue as any).addFollowers(issue._id, addedMentions);
+    await Notifications.notifyMentioned(addedMentions, issue, req.user, updatedComment);
+  }
+
+  await updatedComment.populate('userId', 'firstName lastName email');
 
   logger.info(`Comment updated: ${id} by ${req.user.email}`);
 
@@ -137,6 +235,24 @@ export const updateComment = asyncHandler(async (req: AuthRequest, res: Response
   });
 });
 
+//Get the earlier content of an edited comment
+export const getCommentRevisions = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const { id } = req.params;
+
+  const comment = await Comment.findById(id).populate('userId', 'firstName lastName email');
+  if (!comment) {
+    throw new NotFoundError('Comment');
+  }
+
+  const revisions = await (CommentRevision as any).getRevisionsForComment(comment._id);
+
+  res.json({
+    success: true,
+    message: 'Comment revisions retrieved successfully',
+    data: { comment, revisions }
+  });
+});
+
 //Delete a comment
 export const deleteComment = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
   if (!req.user) {
@@ -150,22 +266,23 @@ export const deleteComment = asyncHandler(async (req: AuthRequest, res: Response
     throw new NotFoundError('Comment');
   }
 
-  // Check if user owns the comment or owns the issue
-  const issue = await Issue.findById(comment.issueId);
-  const canDelete = comment.userId.toString() === req.user._id.toString() ||
-                    (issue && issue.createdBy.toString() === req.user._id.toString());
-
-  if (!canDelete) {
-    throw new AuthorizationError('You can only delete your own comments or comments on your issues');
+  if (comment.deleted) {
+    throw new ConflictError('Comment is already deleted');
   }
 
-  await Comment.findByIdAndDelete(id);
+  // Comments with replies stay in the thread as a placeholder
+  const result = await comment.removeFromThread();
+
+  await (IssueHistory as any).record(comment.issueId, req.user._id, 'comment_removed', [
+    { field: 'comments', from: comment._id.toString(), to: null }
+  ]);
 
-  logger.info(`Comment deleted: ${id} by ${req.user.email}`);
+  logger.info(`Comment deleted: ${id} by ${req.user.email}${result === 'placeholder' ? ', kept as placeholder for its replies' : ''}`);
 
   res.json({
     success: true,
-    message: 'Comment deleted successfully'
+    message: 'Comment deleted successfully',
+    data: { placeholder: result === 'placeholder' }
   });
 });
 
@@ -182,13 +299,13 @@ export const getMyComments = asyncHandler(async (req: AuthRequest, res: Response
   const skip = (pageNum - 1) * limitNum;
 
   const [comments, total] = await Promise.all([
-    Comment.find({ userId: req.user._id })
+    Comment.find({ userId: req.user._id, deleted: { $ne: true } })
       .populate('issueId', 'title status')
       .sort({ createdAt: -1 })
       .skip(skip)
       .limit(limitNum)
       .lean(),
-    Comment.countDocuments({ userId: req.user._id })
+    Comment.countDocuments({ userId: req.user._id, deleted: { $ne: true } })
   ]);
 
   const totalPages = Math.ceil(total / limitNum);
@@ -213,10 +330,13 @@ export const getMyComments = asyncHandler(async (req: AuthRequest, res: Response
 });
 
 //Get recent comments for dashboard
-export const getRecentComments = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+export const getRecentComments = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
   const { limit = 10 } = req.query;
 
-  const comments = await Comment.find()
+  // Leave out comments on issues of projects the user is not a member of
+  const visibleIssueIds = await Issue.find(await (Project as any).getVisibleIssueFilter(req.user!)).distinct('_id');
+
+  const comments = await Comment.find({ issueId: { $in: visibleIssueIds }, deleted: { $ne: true } })
     .populate('userId', 'firstName lastName email')
     .populate('issueId', 'title')
     .sort({ createdAt: -1 })
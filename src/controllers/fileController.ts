@@ -1,13 +1,23 @@
 import { Request, Response, NextFunction } from 'express';
+import archiver from 'archiver';
 import { File } from '../models/File';
+import { FileBlob } from '../models/FileBlob';
 import { Issue } from '../models/Issue';
-import { AuthRequest } from '../types';
-import { NotFoundError, ValidationError, AuthorizationError, FileUploadError } from '../utils/errorTypes';
+import { Project } from '../models/Project';
+import { Comment } from '../models/Comment';
+import { IssueHistory } from '../models/IssueHistory';
+import { AuthRequest, IFile } from '../types';
+import { NotFoundError, ValidationError, ConflictError, FileUploadError, RangeNotSatisfiableError } from '../utils/errorTypes';
 import { logger } from '../utils/logger';
+import { eventBus } from '../utils/eventBus';
+import { SignedUrl } from '../utils/signedUrl';
+import { storage, ByteRange } from '../utils/storage';
+import { malwareScanner } from '../utils/malwareScanner';
+import { Thumbnails, ThumbnailSize } from '../utils/thumbnails';
+import { IssueArchive, ARCHIVE_MANIFEST_NAMES } from '../utils/issueArchive';
+import { StorageQuota } from '../utils/storageQuota';
 import { asyncHandler } from '../middleware/errorHandler';
 import { getFileInfo, cleanupUploadedFile } from '../middleware/upload';
-import path from 'path';
-import fs from 'fs';
 
 //Upload file(s) to an issue
 export const uploadFiles = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
@@ -23,14 +33,6 @@ export const uploadFiles = asyncHandler(async (req: AuthRequest, res: Response,
     throw new NotFoundError('Issue');
   }
 
-  // Check if user has permission to upload files to this issue
-  const canUpload = issue.createdBy.toString() === req.user._id.toString() ||
-                    (issue.assignedTo && issue.assignedTo.toString() === req.user._id.toString());
-
-  if (!canUpload) {
-    throw new AuthorizationError('You can only upload files to issues you created or are assigned to');
-  }
-
   // Handle single or multiple files
   const files = req.files ? (Array.isArray(req.files) ? req.files : [req.file]) : [req.file];
   
@@ -39,29 +41,57 @@ export const uploadFiles = asyncHandler(async (req: AuthRequest, res: Response,
   }
 
   const uploadedFiles = [];
+  // Uploads before this index are owned by a blob and must not be cleaned up directly
+  let handedOver = 0;
 
   try {
-    for (const file of files) {
+    await StorageQuota.assertAvailable(req.user, issue, files.reduce((total, file) => total + (file ? file.size : 0), 0));
+
+    for (; handedOver < files.length; handedOver++) {
+      const file = files[handedOver];
       if (!file) continue;
 
       const fileInfo = getFileInfo(file);
+
+      // Identical contents are stored once and shared between files
+      const blob = await (FileBlob as any).acquire(fileInfo.checksum, fileInfo.storageKey, fileInfo.size);
       
       const fileDoc = new File({
         filename: fileInfo.filename,
         originalName: fileInfo.originalName,
         mimetype: fileInfo.mimetype,
+        detectedMimetype: fileInfo.detectedMimetype,
         size: fileInfo.size,
-        path: fileInfo.path,
+        checksum: fileInfo.checksum,
+        storageKey: blob.storageKey,
         issueId,
         uploadedBy: req.user._id
       });
 
-      await fileDoc.save();
+      try {
+        await fileDoc.save();
+      } catch (error) {
+        handedOver++;
+        await (FileBlob as any).release(fileInfo.checksum);
+        throw error;
+      }
       await fileDoc.populate('uploadedBy', 'firstName lastName email');
       
       uploadedFiles.push(fileDoc);
     }
 
+    await (IssueHistory as any).record(
+      issueId,
+      req.user._id,
+      'file_added',
+      uploadedFiles.map(fileDoc => ({ field: 'files', from: null, to: fileDoc.originalName }))
+    );
+
+    // Downloads stay blocked until the scan finds the contents clean
+    uploadedFiles.forEach(fileDoc => malwareScanner.enqueue(fileDoc._id.toString()));
+
+    eventBus.publish('file.uploaded', issue, req.user._id, { files: uploadedFiles });
+
     logger.info(`${uploadedFiles.length} file(s) uploaded to issue ${issueId} by ${req.user.email}`);
 
     res.status(201).json({
@@ -71,10 +101,10 @@ export const uploadFiles = asyncHandler(async (req: AuthRequest, res: Response,
     });
 
   } catch (error) {
-    // Clean up uploaded files on error
-    for (const file of files) {
+    // Clean up uploaded files that were not handed over to a blob
+    for (const file of files.slice(handedOver)) {
       if (file) {
-        cleanupUploadedFile(file.path);
+        await cleanupUploadedFile(file.filename);
       }
     }
     throw error;
@@ -100,6 +130,116 @@ export const getFilesForIssue = asyncHandler(async (req: Request, res: Response,
   });
 });
 
+// File types the browser can preview, only these are served inline
+const INLINE_MIME_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain'
+];
+
+// Build a Content-Disposition header that is safe for any original filename
+const contentDisposition = (type: 'inline' | 'attachment', filename: string): string => {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  const encoded = encodeURIComponent(filename).replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+};
+
+// If-Range only lets the Range header apply while the file is unchanged
+const isRangeFresh = (req: Request, res: Response): boolean => {
+  const ifRange = req.get('If-Range');
+  if (!ifRange) {
+    return true;
+  }
+  if (ifRange.includes('"')) {
+    return ifRange === res.getHeader('ETag');
+  }
+  return Date.parse(String(res.getHeader('Last-Modified'))) <= Date.parse(ifRange);
+};
+
+// Only files the malware scan found clean can be downloaded
+const assertScannedClean = (file: IFile): void => {
+  switch (file.scanStatus) {
+    case 'clean':
+      return;
+    case 'infected':
+      throw new ConflictError('File was quarantined because malware was found');
+    case 'error':
+      throw new ConflictError('File could not be scanned for malware, ask an admin to rescan it');
+    default:
+      throw new ConflictError('File is still being scanned for malware, try again shortly');
+  }
+};
+
+//Send the contents of a file
+//Supports single byte ranges, conditional requests and inline display of previewable types
+const sendFileContents = async (req: Request, res: Response, file: IFile): Promise<void> => {
+  const id = file._id.toString();
+
+  assertScannedClean(file);
+
+  // Validators for conditional requests, access is per user so caches must revalidate
+  if (file.checksum) {
+    res.setHeader('ETag', `"${file.checksum}"`);
+  }
+  res.setHeader('Last-Modified', file.uploadedAt.toUTCString());
+  res.setHeader('Cache-Control', 'private, no-cache');
+
+  if (req.fresh) {
+    res.status(304).end();
+    return;
+  }
+
+  // Several ranges, a malformed header or a stale If-Range get the whole file
+  let range: ByteRange | undefined;
+  const ranges = req.headers.range && isRangeFresh(req, res) ? req.range(file.size, { combine: true }) : undefined;
+  if (ranges === -1) {
+    res.setHeader('Content-Range', `bytes */${file.size}`);
+    throw new RangeNotSatisfiableError(`Requested range is outside the file size of ${file.size} bytes`);
+  }
+  if (typeof ranges === 'object' && ranges.type === 'bytes' && ranges.length === 1) {
+    range = ranges[0];
+  }
+
+  const fileStream = await storage.get(file.storageKey, range);
+  if (!fileStream) {
+    throw new NotFoundError('File not found in storage');
+  }
+
+  const disposition = req.query.disposition === 'inline' && INLINE_MIME_TYPES.includes(file.mimetype) ? 'inline' : 'attachment';
+
+  // Set appropriate headers
+  res.setHeader('Content-Disposition', contentDisposition(disposition, file.originalName));
+  res.setHeader('Content-Type', file.mimetype);
+  res.setHeader('Accept-Ranges', 'bytes');
+
+  if (range) {
+    res.status(206);
+    res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${file.size}`);
+    res.setHeader('Content-Length', (range.end - range.start + 1).toString());
+  } else {
+    res.setHeader('Content-Length', file.size.toString());
+  }
+
+  if (req.method === 'HEAD') {
+    fileStream.destroy();
+    res.end();
+    return;
+  }
+
+  // Stream the file, headers are already sent so a read error can only abort the response
+  fileStream.on('error', (error) => {
+    logger.error(`Error streaming file ${id}:`, error);
+    res.destroy(error);
+  });
+
+  fileStream.pipe(res);
+
+  logger.info(`File downloaded: ${file.originalName} (${id})${range ? ` bytes ${range.start}-${range.end}` : ''}`);
+};
+
 //Download a specific file
 export const downloadFile = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
   const { id } = req.params;
@@ -109,29 +249,335 @@ export const downloadFile = asyncHandler(async (req: Request, res: Response, nex
     throw new NotFoundError('File');
   }
 
-  // Check if file exists on disk
-  if (!file.fileExists()) {
-    throw new NotFoundError('File not found on disk');
+  await sendFileContents(req, res, file);
+});
+
+//Upload a new version of an existing attachment
+//The new version is listed for the issue instead of the previous ones, which stay downloadable
+export const uploadFileVersion = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    throw new ValidationError('User authentication required');
   }
 
-  const filePath = path.resolve(file.path);
-  
-  // Set appropriate headers
-  res.setHeader('Content-Disposition', `attachment; filename="${file.originalName}"`);
-  res.setHeader('Content-Type', file.mimetype);
-  res.setHeader('Content-Length', file.size.toString());
+  if (!req.file) {
+    throw new FileUploadError('No file uploaded');
+  }
 
-  // Stream the file
-  const fileStream = fs.createReadStream(filePath);
-  
-  fileStream.on('error', (error) => {
-    logger.error(`Error streaming file ${id}:`, error);
-    throw new NotFoundError('File could not be read');
+  const { id } = req.params;
+  const fileInfo = getFileInfo(req.file);
+  // Once owned by a blob the upload must not be cleaned up directly
+  let handedOver = false;
+
+  try {
+    const current = await File.findById(id);
+    if (!current) {
+      throw new NotFoundError('File');
+    }
+
+    const issue = await Issue.findById(current.issueId);
+    if (!issue) {
+      throw new NotFoundError('Issue');
+    }
+
+    const attachmentId = current.attachmentId;
+    const latest = await File.findOne({ $or: [{ _id: attachmentId }, { versionOf: attachmentId }] }).sort({ version: -1 });
+
+    await StorageQuota.assertAvailable(req.user, issue, fileInfo.size);
+
+    // Identical contents are stored once and shared between files
+    const blob = await (FileBlob as any).acquire(fileInfo.checksum, fileInfo.storageKey, fileInfo.size);
+    handedOver = true;
+
+    const fileDoc = new File({
+      filename: fileInfo.filename,
+      originalName: fileInfo.originalName,
+      mimetype: fileInfo.mimetype,
+      detectedMimetype: fileInfo.detectedMimetype,
+      size: fileInfo.size,
+      checksum: fileInfo.checksum,
+      storageKey: blob.storageKey,
+      issueId: current.issueId,
+      uploadedBy: req.user._id,
+      version: latest!.version + 1,
+      versionOf: attachmentId
+    });
+
+    try {
+      await fileDoc.save();
+    } catch (error: any) {
+      await (FileBlob as any).release(fileInfo.checksum);
+      if (error.code === 11000) {
+        throw new ConflictError('Another version of this file was uploaded at the same time, try again');
+      }
+      throw error;
+    }
+
+    await (File as any).refreshLatestVersion(attachmentId);
+    await fileDoc.populate('uploadedBy', 'firstName lastName email');
+
+    await (IssueHistory as any).record(current.issueId, req.user._id, 'file_added', [
+      { field: 'files', from: latest!.originalName, to: fileDoc.originalName }
+    ]);
+
+    // Downloads stay blocked until the scan finds the contents clean
+    malwareScanner.enqueue(fileDoc._id.toString());
+
+    eventBus.publish('file.uploaded', issue, req.user._id, { files: [fileDoc] });
+
+    logger.info(`Version ${fileDoc.version} of file ${attachmentId} uploaded by ${req.user.email}`);
+
+    res.status(201).json({
+      success: true,
+      message: `Version ${fileDoc.version} uploaded successfully`,
+      data: { file: fileDoc }
+    });
+  } catch (error) {
+    // Clean up the upload unless it was handed over to a blob
+    if (!handedOver) {
+      await cleanupUploadedFile(fileInfo.storageKey);
+    }
+    throw error;
+  }
+});
+
+//Get all versions of an attachment, newest first
+export const getFileVersions = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const { id } = req.params;
+
+  const file = await File.findById(id);
+  if (!file) {
+    throw new NotFoundError('File');
+  }
+
+  const versions = await (File as any).getVersions(file.attachmentId);
+
+  res.json({
+    success: true,
+    message: 'File versions retrieved successfully',
+    data: { versions }
   });
+});
 
-  fileStream.pipe(res);
+//Download a specific version of an attachment
+export const downloadFileVersion = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const { id, version: versionNumber } = req.params;
+
+  const file = await File.findById(id);
+  if (!file) {
+    throw new NotFoundError('File');
+  }
+
+  const attachmentId = file.attachmentId;
+  const version = await File.findOne({
+    $or: [{ _id: attachmentId }, { versionOf: attachmentId }],
+    version: parseInt(versionNumber, 10)
+  });
+  if (!version) {
+    throw new NotFoundError('File version');
+  }
+
+  await sendFileContents(req, res, version);
+});
+
+//Wait until an appended archive entry was written
+//Resolves false when the archive was aborted first, e.g. because the client disconnected
+const entryWritten = (archive: archiver.Archiver): Promise<boolean> => {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      archive.off('entry', onEntry);
+      archive.off('close', onClose);
+      archive.off('error', onError);
+    };
+    const onEntry = () => { cleanup(); resolve(true); };
+    const onClose = () => { cleanup(); resolve(false); };
+    const onError = (error: Error) => { cleanup(); reject(error); };
+
+    archive.on('entry', onEntry);
+    archive.on('close', onClose);
+    archive.on('error', onError);
+  });
+};
 
-  logger.info(`File downloaded: ${file.originalName} (${id})`);
+//Download the attachments of an issue as a ZIP archive
+//Entries are read from storage one at a time while the archive is streamed, so it is never held in memory
+export const downloadIssueArchive = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const { issueId } = req.params;
+  const selected = req.query.files ? String(req.query.files).split(',') : null;
+  const includeManifest = req.query.manifest === 'true';
+
+  const issue = await Issue.findById(issueId)
+    .populate('createdBy', 'firstName lastName email')
+    .populate('assignedTo', 'firstName lastName email');
+  if (!issue) {
+    throw new NotFoundError('Issue');
+  }
+
+  // Without a selection the latest version of every attachment is included
+  const files: IFile[] = selected
+    ? await File.find({ _id: { $in: selected }, issueId })
+      .populate('uploadedBy', 'firstName lastName email')
+      .sort({ uploadedAt: -1 })
+      .lean()
+    : await (File as any).getFilesForIssue(issueId);
+
+  if (selected && files.length !== new Set(selected).size) {
+    throw new NotFoundError('File');
+  }
+
+  // Files that cannot be downloaded are left out, like in single downloads
+  const included = files.filter(file => file.scanStatus === 'clean');
+  const skipped = files
+    .filter(file => file.scanStatus !== 'clean')
+    .map(file => ({ file, reason: file.scanStatus === 'infected' ? 'quarantined' : `scan ${file.scanStatus}` }));
+
+  if (included.length === 0 && !includeManifest) {
+    throw new ConflictError('No files of this issue can be downloaded yet');
+  }
+
+  const usedNames = new Set(includeManifest ? ARCHIVE_MANIFEST_NAMES : []);
+  const entries: { file: IFile; name: string }[] = [];
+
+  const archive = archiver('zip', { zlib: { level: 6 } });
+  archive.on('warning', (error) => logger.warn(`Warning while archiving issue ${issueId}:`, error));
+  archive.on('error', (error) => {
+    logger.error(`Error archiving issue ${issueId}:`, error);
+    res.destroy(error);
+  });
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      archive.abort();
+    }
+  });
+
+  res.setHeader('Content-Type', 'application/zip');
+  res.setHeader('Content-Disposition', contentDisposition('attachment', `${issue.key || issue._id}-attachments.zip`));
+  res.setHeader('Cache-Control', 'private, no-store');
+  archive.pipe(res);
+
+  try {
+    for (const file of included) {
+      const content = await storage.get(file.storageKey);
+      if (!content) {
+        logger.warn(`File ${file._id} is missing from storage and was left out of the archive of issue ${issueId}`);
+        skipped.push({ file, reason: 'missing from storage' });
+        continue;
+      }
+
+      const name = IssueArchive.uniqueName(file.originalName, usedNames);
+      archive.append(content, { name, date: file.uploadedAt, store: IssueArchive.isCompressed(file.mimetype) });
+      entries.push({ file, name });
+
+      // Wait for the entry to be written before opening the next file
+      if (!(await entryWritten(archive))) {
+        content.destroy();
+        logger.info(`Download of the archive of issue ${issueId} was aborted`);
+        return;
+      }
+    }
+
+    if (includeManifest) {
+      const comments = await Comment.find({ issueId })
+        .populate('userId', 'firstName lastName email')
+        .sort({ createdAt: 1 })
+        .lean();
+
+      archive.append(IssueArchive.buildManifest(issue, entries, skipped), { name: 'issue.json' });
+      archive.append(IssueArchive.renderComments(issue, comments as any), { name: 'comments.md' });
+    }
+
+    await archive.finalize();
+  } catch (error) {
+    // Headers are already sent, so a failure can only abort the response
+    logger.error(`Error archiving issue ${issueId}:`, error);
+    res.destroy(error as Error);
+    return;
+  }
+
+  logger.info(`Archive of issue ${issueId} downloaded with ${entries.length} file(s)`);
+});
+
+//Get a thumbnail of an image or a preview of the first page of a PDF
+export const getFileThumbnail = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const { id } = req.params;
+  const size = (req.query.size as ThumbnailSize) || 'medium';
+
+  const file = await File.findById(id);
+  if (!file) {
+    throw new NotFoundError('File');
+  }
+
+  assertScannedClean(file);
+
+  if (file.checksum) {
+    res.setHeader('ETag', `"${file.checksum}-${size}"`);
+  }
+  res.setHeader('Last-Modified', file.uploadedAt.toUTCString());
+  res.setHeader('Cache-Control', 'private, no-cache');
+
+  if (req.fresh) {
+    res.status(304).end();
+    return;
+  }
+
+  const thumbnail = await Thumbnails.getOrCreate(file, size);
+  if (!thumbnail) {
+    throw new NotFoundError('Thumbnail');
+  }
+
+  res.setHeader('Content-Type', 'image/webp');
+
+  thumbnail.on('error', (error) => {
+    logger.error(`Error streaming thumbnail of file ${id}:`, error);
+    res.destroy(error);
+  });
+
+  thumbnail.pipe(res);
+});
+
+//Get short-lived signed URLs for a file and its thumbnail, usable without an access token
+export const getFileUrl = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const { id } = req.params;
+
+  const file = await File.findById(id);
+  if (!file) {
+    throw new NotFoundError('File');
+  }
+
+  const baseUrl = `${req.protocol}://${req.get('host')}`;
+  const { url, expiresAt } = SignedUrl.sign(file._id.toString());
+  const thumbnailUrl = Thumbnails.isSupported(file.mimetype)
+    ? baseUrl + SignedUrl.sign(file._id.toString(), undefined, 'thumbnail:medium').url
+    : null;
+
+  res.json({
+    success: true,
+    message: 'Signed URL created successfully',
+    data: {
+      url: baseUrl + url,
+      thumbnailUrl,
+      expiresAt
+    }
+  });
+});
+
+//Scan a file for malware again, e.g. after a scan error or a signature update
+export const rescanFile = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const { id } = req.params;
+
+  if (!(await File.exists({ _id: id }))) {
+    throw new NotFoundError('File');
+  }
+
+  await File.findByIdAndUpdate(id, { scanStatus: 'pending' });
+  const file = await malwareScanner.scanFile(id);
+
+  logger.info(`File ${id} rescanned by ${req.user!.email}: ${file?.scanStatus}`);
+
+  res.json({
+    success: true,
+    message: 'File rescanned successfully',
+    data: { file }
+  });
 });
 
 //Get file metadata by ID
@@ -166,17 +612,17 @@ export const deleteFile = asyncHandler(async (req: AuthRequest, res: Response, n
     throw new NotFoundError('File');
   }
 
-  // Check if user has permission to delete the file
-  const issue = await Issue.findById(file.issueId);
-  const canDelete = file.uploadedBy.toString() === req.user._id.toString() ||
-                    (issue && issue.createdBy.toString() === req.user._id.toString());
+  // Delete file from database (middleware will handle storage cleanup)
+  await File.findByIdAndDelete(id);
 
-  if (!canDelete) {
-    throw new AuthorizationError('You can only delete files you uploaded or files from your issues');
+  // The previous version takes the place of a deleted latest version
+  if (file.isLatest) {
+    await (File as any).refreshLatestVersion(file.attachmentId);
   }
 
-  // Delete file from database (middleware will handle disk cleanup)
-  await File.findByIdAndDelete(id);
+  await (IssueHistory as any).record(file.issueId, req.user._id, 'file_removed', [
+    { field: 'files', from: file.originalName, to: null }
+  ]);
 
   logger.info(`File deleted: ${file.originalName} (${id}) by ${req.user.email}`);
 
@@ -238,6 +684,11 @@ export const getFileStats = asyncHandler(async (req: Request, res: Response, nex
     }
   ]);
 
+  // Space actually used once identical contents are stored only once
+  const blobStats = await FileBlob.aggregate([
+    { $group: { _id: null, storedSize: { $sum: '$size' } } }
+  ]);
+
   const mimeTypeStats = await File.aggregate([
     {
       $group: {
@@ -253,13 +704,41 @@ export const getFileStats = asyncHandler(async (req: Request, res: Response, nex
     success: true,
     message: 'File statistics retrieved successfully',
     data: {
-      overall: stats[0] || { totalFiles: 0, totalSize: 0, avgSize: 0 },
+      overall: {
+        ...(stats[0] || { totalFiles: 0, totalSize: 0, avgSize: 0 }),
+        storedSize: blobStats[0]?.storedSize || 0
+      },
       byMimeType: mimeTypeStats
     }
   });
 });
 
-//Validate file integrity (check if files exist on disk)
+//Get the storage used and remaining for the current user and their projects
+export const getStorageQuota = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    throw new ValidationError('User authentication required');
+  }
+
+  const projects = await Project.find({ 'members.user': req.user._id })
+    .select('name key storageQuota')
+    .sort({ key: 1 });
+
+  const projectUsages = await Promise.all(projects.map(async project => ({
+    project: { _id: project._id, name: project.name, key: project.key },
+    ...(await StorageQuota.getProjectUsage(project))
+  })));
+
+  res.json({
+    success: true,
+    message: 'Storage quota retrieved successfully',
+    data: {
+      user: await StorageQuota.getUserUsage(req.user),
+      projects: projectUsages
+    }
+  });
+});
+
+//Validate file integrity (check that stored contents match the recorded checksums)
 export const validateFileIntegrity = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
   const { issueId } = req.params;
 
@@ -267,17 +746,23 @@ export const validateFileIntegrity = asyncHandler(async (req: Request, res: Resp
   const results = [];
 
   for (const file of files) {
-    const exists = file.fileExists();
+    const status = await file.verifyIntegrity();
     results.push({
       fileId: file._id,
       filename: file.originalName,
-      exists,
+      status,
+      exists: status !== 'missing',
       size: file.size,
       uploadedAt: file.uploadedAt
     });
   }
 
-  const missingCount = results.filter(r => !r.exists).length;
+  const missingCount = results.filter(r => r.status === 'missing').length;
+  const corruptedCount = results.filter(r => r.status === 'corrupted').length;
+
+  if (missingCount > 0 || corruptedCount > 0) {
+    logger.warn(`Integrity check for issue ${issueId}: ${missingCount} missing, ${corruptedCount} corrupted file(s)`);
+  }
 
   res.json({
     success: true,
@@ -286,7 +771,8 @@ export const validateFileIntegrity = asyncHandler(async (req: Request, res: Resp
       totalFiles: results.length,
       existingFiles: results.length - missingCount,
       missingFiles: missingCount,
+      corruptedFiles: corruptedCount,
       files: results
     }
   });
-});
\ No newline at end of file
+});
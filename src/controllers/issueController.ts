@@ -1,9 +1,18 @@
 import { Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
 import { Issue } from '../models/Issue';
 import { User } from '../models/User';
-import { AuthRequest, IssueQueryParams, PaginatedResponse } from '../types';
-import { NotFoundError, ValidationError, AuthorizationError } from '../utils/errorTypes';
+import { Workflow } from '../models/Workflow';
+import { IssueHistory } from '../models/IssueHistory';
+import { Label } from '../models/Label';
+import { Project } from '../models/Project';
+import { AuthRequest, IssueQueryParams, IIssue, IIssueFieldChange, IUser, IWorkflow, PaginatedResponse } from '../types';
+import { NotFoundError, ValidationError, ConflictError, InvalidTransitionError, AuthorizationError } from '../utils/errorTypes';
+import { Authorization } from '../utils/authorization';
 import { logger } from '../utils/logger';
+import { eventBus } from '../utils/eventBus';
+import { Mentions } from '../utils/mentions';
+import { Notifications } from '../utils/notifications';
 import { asyncHandler } from '../middleware/errorHandler';
 
 //Get all issues with pagination and filtering
@@ -13,19 +22,36 @@ export const getIssues = asyncHandler(async (req: AuthRequest, res: Response, ne
     priority,
     assignedTo,
     createdBy,
+    labels,
+    labelMatch = 'any',
     search,
     page = '1',
     limit = '20'
   } = req.query as any;
 
-  // Build filter object
-  const filter: any = {};
+  // Build filter object, scoped to the project or to projects the user can see
+  const filter: any = req.project
+    ? { project: req.project._id }
+    : { $and: [await (Project as any).getVisibleIssueFilter(req.user!)] };
 
   if (status) filter.status = status;
   if (priority) filter.priority = priority;
   if (assignedTo) filter.assignedTo = assignedTo;
   if (createdBy) filter.createdBy = createdBy;
 
+  // Filter by labels given as comma-separated names or IDs
+  if (labels) {
+    const identifiers = (labels as string).split(',').map(value => value.trim()).filter(Boolean);
+    const labelIds = (await (Label as any).resolve(identifiers)).map((label: any) => label._id);
+
+    if (labelMatch === 'all') {
+      // Every requested label must exist for an all-of match to be possible
+      filter.labels = labelIds.length === identifiers.length ? { $all: labelIds } : { $in: [] };
+    } else {
+      filter.labels = { $in: labelIds };
+    }
+  }
+
   // Add search functionality
   if (search) {
     filter.$or = [
@@ -73,6 +99,8 @@ export const getIssueById = asyncHandler(async (req: Request, res: Response, nex
   const issue = await Issue.findById(id)
     .populate('createdBy', 'firstName lastName email')
     .populate('assignedTo', 'firstName lastName email')
+    .populate('labels', 'name color description')
+    .populate('project', 'name key')
     .populate({
       path: 'comments',
       populate: {
@@ -83,6 +111,8 @@ export const getIssueById = asyncHandler(async (req: Request, res: Response, nex
     })
     .populate({
       path: 'files',
+      // Earlier versions of attachments are listed through /api/files/:id/versions
+      match: { isLatest: { $ne: false } },
       populate: {
         path: 'uploadedBy',
         select: 'firstName lastName email'
@@ -106,7 +136,7 @@ export const createIssue = asyncHandler(async (req: AuthRequest, res: Response,
     throw new ValidationError('User authentication required');
   }
 
-  const { title, description, priority, assignedTo } = req.body;
+  const { title, description, priority, assignedTo, labels, workflow: workflowId } = req.body;
 
   // Validate assignedTo user if provided
   if (assignedTo) {
@@ -114,25 +144,70 @@ export const createIssue = asyncHandler(async (req: AuthRequest, res: Response,
     if (!assignedUser) {
       throw new ValidationError('Assigned user not found');
     }
+    if (req.project && !req.project.isMember(assignedTo)) {
+      throw new ValidationError('Assigned user is not a member of this project');
+    }
   }
 
+  // Resolve the workflow that will govern the issue's status
+  // An explicit workflow wins over the project's workflow, which wins over the default
+  const selectedWorkflowId = workflowId || req.project?.workflow;
+  let workflow: IWorkflow | null;
+  if (selectedWorkflowId) {
+    workflow = await Workflow.findById(selectedWorkflowId);
+    if (!workflow) {
+      throw new ValidationError('Workflow not found');
+    }
+  } else {
+    workflow = await (Workflow as any).getDefault();
+  }
+
+  // Allocate a per-project key such as PAY-142
+  const issueKey = req.project ? await (Project as any).nextIssueKey(req.project._id) : null;
+
+  const labelIds = labels ? await resolveLabelIds(labels) : [];
+
   const issue = new Issue({
     title,
     description,
     priority,
     assignedTo,
+    labels: labelIds,
+    ...(req.project && { project: req.project._id, key: issueKey.key, number: issueKey.number }),
+    workflow: workflow!._id,
+    status: workflow!.getInitialStatus(),
     createdBy: req.user._id
   });
+  issue.mentions = await Mentions.resolve(`${title}\n${description}`, issue);
+
+  // The creator, the assignee and mentioned users follow the issue
+  const followerIds = [req.user._id, ...(assignedTo ? [assignedTo] : []), ...issue.mentions];
+  issue.followers = [...new Set(followerIds.map(id => id.toString()))].map(id => new mongoose.Types.ObjectId(id));
 
   await issue.save();
 
+  await (IssueHistory as any).record(issue._id, req.user._id, 'created', [
+    { field: 'status', from: null, to: issue.status },
+    ...(assignedTo ? [{ field: 'assignedTo', from: null, to: assignedTo }] : []),
+    ...(labelIds.length > 0 ? [{ field: 'labels', from: null, to: labelIds.map(id => id.toString()) }] : [])
+  ]);
+
   // Populate the created issue
   await issue.populate('createdBy', 'firstName lastName email');
+  await issue.populate('labels', 'name color');
+  if (req.project) {
+    await issue.populate('project', 'name key');
+  }
   if (assignedTo) {
     await issue.populate('assignedTo', 'firstName lastName email');
   }
 
-  logger.info(`New issue created: ${title} by ${req.user.email}`);
+  eventBus.publish('issue.created', issue, req.user._id, { issue });
+
+  await Notifications.notifyAssigned(issue, req.user);
+  await Notifications.notifyMentioned(issue.mentions || [], issue, req.user);
+
+  logger.info(`New issue created: ${issue.key || title} by ${req.user.email}`);
 
   res.status(201).json({
     success: true,
@@ -148,27 +223,25 @@ export const updateIssue = asyncHandler(async (req: AuthRequest, res: Response,
   }
 
   const { id } = req.params;
-  const { title, description, priority, assignedTo } = req.body;
+  const { title, description, priority, assignedTo, labels, reason } = req.body;
 
   const issue = await Issue.findById(id);
   if (!issue) {
     throw new NotFoundError('Issue');
   }
 
-  // Check if user owns the issue or is assigned to it
-  const canEdit = issue.createdBy.toString() === req.user._id.toString() ||
-                  (issue.assignedTo && issue.assignedTo.toString() === req.user._id.toString());
-
-  if (!canEdit) {
-    throw new AuthorizationError('You can only edit issues you created or are assigned to');
-  }
-
   // Validate assignedTo user if provided
   if (assignedTo) {
     const assignedUser = await User.findById(assignedTo);
     if (!assignedUser) {
       throw new ValidationError('Assigned user not found');
     }
+    if (issue.project) {
+      const project = await Project.findById(issue.project);
+      if (project && !project.isMember(assignedTo)) {
+        throw new ValidationError('Assigned user is not a member of this project');
+      }
+    }
   }
 
   // Update issue
@@ -177,6 +250,26 @@ export const updateIssue = asyncHandler(async (req: AuthRequest, res: Response,
   if (description !== undefined) updateData.description = description;
   if (priority !== undefined) updateData.priority = priority;
   if (assignedTo !== undefined) updateData.assignedTo = assignedTo;
+  if (labels !== undefined) updateData.labels = await resolveLabelIds(labels);
+
+  // Capture field changes before the document is overwritten
+  const changes = collectChanges(issue, updateData);
+
+  // Mentions follow the text, users mentioned before the update were notified already
+  let addedMentions: mongoose.Types.ObjectId[] = [];
+  if (changes.some(change => change.field === 'title' || change.field === 'description')) {
+    updateData.mentions = await Mentions.resolve(
+      `${updateData.title ?? issue.title}\n${updateData.description ?? issue.description}`,
+      issue
+    );
+    addedMentions = Mentions.getAdded(issue.mentions, updateData.mentions);
+  }
+
+  // The new assignee and newly mentioned users follow the issue
+  const reassigned = changes.some(change => change.field === 'assignedTo') && !!assignedTo;
+  if (reassigned || addedMentions.length > 0) {
+    await (Issue as any).addFollowers(issue._id, [...(reassigned ? [assignedTo] : []), ...addedMentions]);
+  }
 
   const updatedIssue = await Issue.findByIdAndUpdate(
     id,
@@ -184,7 +277,17 @@ export const updateIssue = asyncHandler(async (req: AuthRequest, res: Response,
     { new: true, runValidators: true }
   )
     .populate('createdBy', 'firstName lastName email')
-    .populate('assignedTo', 'firstName lastName email');
+    .populate('assignedTo', 'firstName lastName email')
+    .populate('labels', 'name color');
+
+  if (changes.length > 0) {
+    await (IssueHistory as any).record(issue._id, req.user._id, 'updated', changes, reason);
+    eventBus.publish('issue.updated', updatedIssue!, req.user._id, { issue: updatedIssue, changes });
+    if (reassigned) {
+      await Notifications.notifyAssigned(updatedIssue!, req.user);
+    }
+    await Notifications.notifyMentioned(addedMentions, updatedIssue!, req.user);
+  }
 
   logger.info(`Issue updated: ${id} by ${req.user.email}`);
 
@@ -202,28 +305,55 @@ export const updateIssueStatus = asyncHandler(async (req: AuthRequest, res: Resp
   }
 
   const { id } = req.params;
-  const { status } = req.body;
+  const { status, reason } = req.body;
 
   const issue = await Issue.findById(id);
   if (!issue) {
     throw new NotFoundError('Issue');
   }
 
-  // Check if user owns the issue or is assigned to it
-  const canEdit = issue.createdBy.toString() === req.user._id.toString() ||
-                  (issue.assignedTo && issue.assignedTo.toString() === req.user._id.toString());
+  // Check the requested status against the issue's workflow
+  const workflow: IWorkflow = await (Workflow as any).resolveForIssue(issue);
 
-  if (!canEdit) {
-    throw new AuthorizationError('You can only update status of issues you created or are assigned to');
+  if (!workflow.hasStatus(status)) {
+    throw new ValidationError(`Status '${status}' is not defined in workflow '${workflow.name}'`);
   }
 
-  const updatedIssue = await Issue.findByIdAndUpdate(
-    id,
+  if (!workflow.canTransition(issue.status, status)) {
+    const allowed = workflow.getAvailableTransitions(issue.status);
+    throw new InvalidTransitionError(
+      `Transition from '${issue.status}' to '${status}' is not allowed. ` +
+      `Allowed transitions: ${allowed.length > 0 ? allowed.join(', ') : 'none'}`
+    );
+  }
+
+  // Only applies while the status is still the one the transition was checked against
+  const updatedIssue = await Issue.findOneAndUpdate(
+    { _id: id, status: issue.status },
     { status },
     { new: true, runValidators: true }
   )
     .populate('createdBy', 'firstName lastName email')
     .populate('assignedTo', 'firstName lastName email');
+  if (!updatedIssue) {
+    throw new ConflictError('The issue status was changed meanwhile, reload the issue and try again');
+  }
+
+  await (IssueHistory as any).record(
+    issue._id,
+    req.user._id,
+    'status_changed',
+    [{ field: 'status', from: issue.status, to: status }],
+    reason
+  );
+
+  eventBus.publish('issue.status_changed', updatedIssue, req.user._id, {
+    issue: updatedIssue,
+    from: issue.status,
+    to: status
+  });
+
+  await Notifications.notifyStatusChanged(updatedIssue, req.user, issue.status, status);
 
   logger.info(`Issue status updated: ${id} to ${status} by ${req.user.email}`);
 
@@ -234,8 +364,108 @@ export const updateIssueStatus = asyncHandler(async (req: AuthRequest, res: Resp
   });
 });
 
-//Delete issue
-export const deleteIssue = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+//Get change history of an issue
+//The history of a deleted issue stays readable, see assertDeletedIssueReadable
+export const getIssueHistory = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const { id } = req.params;
+  const { page = '1', limit = '20' } = req.query as any;
+
+  const issue = await Issue.findById(id);
+  if (!issue) {
+    await assertDeletedIssueReadable(req.user!, id);
+  }
+
+  const pageNum = parseInt(page as string, 10);
+  const limitNum = parseInt(limit as string, 10);
+
+  const [entries, total] = await (IssueHistory as any).getHistoryForIssue(id, pageNum, limitNum);
+
+  const totalPages = Math.ceil(total / limitNum);
+
+  const response: PaginatedResponse<any> = {
+    data: entries,
+    pagination: {
+      page: pageNum,
+      limit: limitNum,
+      total,
+      pages: totalPages,
+      hasNext: pageNum < totalPages,
+      hasPrev: pageNum > 1
+    }
+  };
+
+  res.json({
+    success: true,
+    message: 'Issue history retrieved successfully',
+    ...response
+  });
+});
+
+//Check access to the history of a deleted issue, found by its final 'deleted' entry
+//Issues of a project stay restricted to that project's members, admins can always read the history
+const assertDeletedIssueReadable = async (user: IUser, issueId: string): Promise<void> => {
+  const deleted = await IssueHistory.findOne({ issueId, action: 'deleted' });
+  if (!deleted) {
+    throw new NotFoundError('Issue');
+  }
+
+  const projectChange = deleted.changes.find(change => change.field === 'project');
+  const project = projectChange ? await Project.findById(projectChange.from) : null;
+  const readable = projectChange && !project
+    ? user.role === 'admin'
+    : Authorization.can(user, 'issue:read', { project });
+  if (!readable) {
+    throw new AuthorizationError(Authorization.getDenialMessage('issue:read'));
+  }
+};
+
+//Get status transitions available for an issue
+export const getIssueTransitions = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const { id } = req.params;
+
+  const issue = await Issue.findById(id);
+  if (!issue) {
+    throw new NotFoundError('Issue');
+  }
+
+  const workflow: IWorkflow = await (Workflow as any).resolveForIssue(issue);
+  const available = workflow.getAvailableTransitions(issue.status);
+
+  res.json({
+    success: true,
+    message: 'Issue transitions retrieved successfully',
+    data: {
+      workflow: { _id: workflow._id, name: workflow.name },
+      currentStatus: issue.status,
+      transitions: workflow.statuses.filter(status => available.includes(status.key))
+    }
+  });
+});
+
+//Follow an issue to be notified when its status changes
+export const followIssue = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    throw new ValidationError('User authentication required');
+  }
+
+  const { id } = req.params;
+
+  const issue = await Issue.findById(id);
+  if (!issue) {
+    throw new NotFoundError('Issue');
+  }
+
+  await (Issue as any).addFollowers(issue._id, [req.user._id]);
+
+  res.json({
+    success: true,
+    message: 'Issue followed successfully',
+    data: { following: true }
+  });
+});
+
+//Stop following an issue
+export const unfollowIssue = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
   if (!req.user) {
     throw new ValidationError('User authentication required');
   }
@@ -247,14 +477,42 @@ export const deleteIssue = asyncHandler(async (req: AuthRequest, res: Response,
     throw new NotFoundError('Issue');
   }
 
-  // Only the creator can delete the issue
-  if (issue.createdBy.toString() !== req.user._id.toString()) {
-    throw new AuthorizationError('You can only delete issues you created');
+  await (Issue as any).removeFollower(issue._id, req.user._id);
+
+  res.json({
+    success: true,
+    message: 'Issue unfollowed successfully',
+    data: { following: false }
+  });
+});
+
+//Delete issue
+export const deleteIssue = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    throw new ValidationError('User authentication required');
+  }
+
+  const { id } = req.params;
+
+  const issue = await Issue.findById(id);
+  if (!issue) {
+    throw new NotFoundError('Issue');
   }
 
   // Delete associated comments and files (this should be handled by middleware)
   await Issue.findByIdAndDelete(id);
 
+  // The history outlives the issue, the last entry records what was deleted
+  await (IssueHistory as any).record(issue._id, req.user._id, 'deleted', [
+    { field: 'title', from: issue.title, to: null },
+    ...(issue.key ? [{ field: 'key', from: issue.key, to: null }] : []),
+    // Keeps deciding who may read the history once the issue is gone
+    ...(issue.project ? [{ field: 'project', from: issue.project, to: null }] : []),
+    { field: 'status', from: issue.status, to: null }
+  ]);
+
+  eventBus.publish('issue.deleted', issue, req.user._id, { issueId: id, key: issue.key });
+
   logger.info(`Issue deleted: ${id} by ${req.user.email}`);
 
   res.json({
@@ -337,4 +595,48 @@ export const getMyCreatedIssues = asyncHandler(async (req: AuthRequest, res: Res
     message: 'Created issues retrieved successfully',
     ...response
   });
-});
\ No newline at end of file
+});
+
+// Normalise values so ObjectIds and null/undefined compare consistently
+const normaliseValue = (value: any): any => {
+  if (value === undefined || value === null) return null;
+  if (Array.isArray(value)) {
+    return value.map(item => normaliseValue(item)).sort();
+  }
+  if (typeof value === 'object' && typeof value.toString === 'function' && !Array.isArray(value)) {
+    return value.toString();
+  }
+  return value;
+};
+
+// Build the list of fields whose values differ from the stored issue
+const collectChanges = (issue: IIssue, updateData: Record<string, any>): IIssueFieldChange[] => {
+  const changes: IIssueFieldChange[] = [];
+
+  for (const field of Object.keys(updateData)) {
+    const from = normaliseValue((issue as any)[field]);
+    const to = normaliseValue(updateData[field]);
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ field, from, to });
+    }
+  }
+
+  return changes;
+};
+
+// Resolve label names or IDs, rejecting any that do not exist
+const resolveLabelIds = async (identifiers: string[]): Promise<mongoose.Types.ObjectId[]> => {
+  const found = await (Label as any).resolve(identifiers);
+  const knownValues = new Set<string>();
+  for (const label of found) {
+    knownValues.add(label._id.toString());
+    knownValues.add(label.name);
+  }
+
+  const unknown = identifiers.filter(value => !knownValues.has(value) && !knownValues.has(value.toLowerCase()));
+  if (unknown.length > 0) {
+    throw new ValidationError(`Labels not found: ${unknown.join(', ')}`);
+  }
+
+  return found.map((label: any) => label._id);
+};
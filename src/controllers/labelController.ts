@@ -0,0 +1,140 @@
+import { Request, Response, NextFunction } from 'express';
+import { Label } from '../models/Label';
+import { Issue } from '../models/Issue';
+import { AuthRequest } from '../types';
+import { NotFoundError, ValidationError, ConflictError } from '../utils/errorTypes';
+import { logger } from '../utils/logger';
+import { asyncHandler } from '../middleware/errorHandler';
+
+//Get all labels with issue counts
+export const getLabels = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const labels = await Label.find().sort({ name: 1 }).lean();
+
+  const counts = await Issue.aggregate([
+    { $unwind: '$labels' },
+    { $group: { _id: '$labels', count: { $sum: 1 } } }
+  ]);
+  const countByLabel = new Map(counts.map(entry => [entry._id.toString(), entry.count]));
+
+  res.json({
+    success: true,
+    message: 'Labels retrieved successfully',
+    data: {
+      labels: labels.map(label => ({
+        ...label,
+        issueCount: countByLabel.get(label._id.toString()) || 0
+      }))
+    }
+  });
+});
+
+//Get single label by ID
+export const getLabelById = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const { id } = req.params;
+
+  const label = await Label.findById(id).populate('createdBy', 'firstName lastName email');
+  if (!label) {
+    throw new NotFoundError('Label');
+  }
+
+  res.json({
+    success: true,
+    message: 'Label retrieved successfully',
+    data: { label }
+  });
+});
+
+//Create new label
+export const createLabel = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    throw new ValidationError('User authentication required');
+  }
+
+  const { name, color, description } = req.body;
+
+  const existingLabel = await Label.findOne({ name: name.toLowerCase() });
+  if (existingLabel) {
+    throw new ConflictError(`Label '${name}' already exists`);
+  }
+
+  const label = new Label({
+    name,
+    color,
+    description,
+    createdBy: req.user._id
+  });
+
+  await label.save();
+
+  logger.info(`New label created: ${label.name} by ${req.user.email}`);
+
+  res.status(201).json({
+    success: true,
+    message: 'Label created successfully',
+    data: { label }
+  });
+});
+
+//Update label
+export const updateLabel = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    throw new ValidationError('User authentication required');
+  }
+
+  const { id } = req.params;
+  const { name, color, description } = req.body;
+
+  const label = await Label.findById(id);
+  if (!label) {
+    throw new NotFoundError('Label');
+  }
+
+  if (name !== undefined && name.toLowerCase() !== label.name) {
+    const existingLabel = await Label.findOne({ name: name.toLowerCase() });
+    if (existingLabel) {
+      throw new ConflictError(`Label '${name}' already exists`);
+    }
+  }
+
+  const updateData: any = {};
+  if (name !== undefined) updateData.name = name;
+  if (color !== undefined) updateData.color = color;
+  if (description !== undefined) updateData.description = description;
+
+  const updatedLabel = await Label.findByIdAndUpdate(
+    id,
+    updateData,
+    { new: true, runValidators: true }
+  );
+
+  logger.info(`Label updated: ${id} by ${req.user.email}`);
+
+  res.json({
+    success: true,
+    message: 'Label updated successfully',
+    data: { label: updatedLabel }
+  });
+});
+
+//Delete label (middleware detaches it from issues)
+export const deleteLabel = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    throw new ValidationError('User authentication required');
+  }
+
+  const { id } = req.params;
+
+  const label = await Label.findById(id);
+  if (!label) {
+    throw new NotFoundError('Label');
+  }
+
+  await Label.findByIdAndDelete(id);
+
+  logger.info(`Label deleted: ${label.name} (${id}) by ${req.user.email}`);
+
+  res.json({
+    success: true,
+    message: 'Label deleted successfully'
+  });
+});
@@ -0,0 +1,115 @@
+import { Response, NextFunction } from 'express';
+import { Notification } from '../models/Notification';
+import { AuthRequest, PaginatedResponse } from '../types';
+import { NotFoundError, ValidationError } from '../utils/errorTypes';
+import { asyncHandler } from '../middleware/errorHandler';
+
+//Get the notifications of the current user, newest first
+export const getNotifications = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    throw new ValidationError('User authentication required');
+  }
+
+  const { unread, page = '1', limit = '20' } = req.query as any;
+
+  const pageNum = parseInt(page as string, 10);
+  const limitNum = parseInt(limit as string, 10);
+  const skip = (pageNum - 1) * limitNum;
+
+  const filter: any = { user: req.user._id };
+  if (unread === 'true') filter.read = false;
+
+  const [notifications, total, unreadCount] = await Promise.all([
+    Notification.find(filter)
+      .populate('actor', 'firstName lastName email')
+      .populate('issueId', 'title key status')
+      .sort({ createdAt: -1, _id: -1 })
+      .skip(skip)
+      .limit(limitNum)
+      .lean(),
+    Notification.countDocuments(filter),
+    Notification.countDocuments({ user: req.user._id, read: false })
+  ]);
+
+  const totalPages = Math.ceil(total / limitNum);
+
+  const response: PaginatedResponse<any> = {
+    data: notifications,
+    pagination: {
+      page: pageNum,
+      limit: limitNum,
+      total,
+      pages: totalPages,
+      hasNext: pageNum < totalPages,
+      hasPrev: pageNum > 1
+    }
+  };
+
+  res.json({
+    success: true,
+    message: 'Notifications retrieved successfully',
+    ...response,
+    unreadCount
+  });
+});
+
+//Get the number of unread notifications of the current user
+export const getUnreadCount = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    throw new ValidationError('User authentication required');
+  }
+
+  const count = await Notification.countDocuments({ user: req.user._id, read: false });
+
+  res.json({
+    success: true,
+    message: 'Unread notification count retrieved successfully',
+    data: { count }
+  });
+});
+
+//Mark a notification of the current user as read
+export const markNotificationRead = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    throw new ValidationError('User authentication required');
+  }
+
+  const { id } = req.params;
+
+  // Notifications of other users are reported as missing
+  const notification = await Notification.findOne({ _id: id, user: req.user._id });
+  if (!notification) {
+    throw new NotFoundError('Notification');
+  }
+
+  // Reading it again keeps the time it was first read
+  if (!notification.read) {
+    notification.read = true;
+    notification.readAt = new Date();
+    await notification.save();
+  }
+
+  res.json({
+    success: true,
+    message: 'Notification marked as read',
+    data: { notification }
+  });
+});
+
+//Mark all notifications of the current user as read
+export const markAllNotificationsRead = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    throw new ValidationError('User authentication required');
+  }
+
+  const result = await Notification.updateMany(
+    { user: req.user._id, read: false },
+    { read: true, readAt: new Date() }
+  );
+
+  res.json({
+    success: true,
+    message: 'All notifications marked as read',
+    data: { updated: result.modifiedCount }
+  });
+});
@@ -0,0 +1,244 @@
+import { Response, NextFunction } from 'express';
+import { Project } from '../models/Project';
+import { Issue } from '../models/Issue';
+import { User } from '../models/User';
+import { Workflow } from '../models/Workflow';
+import { AuthRequest } from '../types';
+import { NotFoundError, ValidationError, ConflictError } from '../utils/errorTypes';
+import { logger } from '../utils/logger';
+import { StorageQuota } from '../utils/storageQuota';
+import { asyncHandler } from '../middleware/errorHandler';
+
+//Get projects the current user belongs to
+export const getProjects = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    throw new ValidationError('User authentication required');
+  }
+
+  // Admins can see every project
+  const filter = req.user.role === 'admin' ? {} : { 'members.user': req.user._id };
+
+  const projects = await Project.find(filter)
+    .populate('owner', 'firstName lastName email')
+    .sort({ name: 1 });
+
+  res.json({
+    success: true,
+    message: 'Projects retrieved successfully',
+    data: { projects }
+  });
+});
+
+//Create new project, the creator becomes its owner
+export const createProject = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    throw new ValidationError('User authentication required');
+  }
+
+  const { name, key, description, workflow } = req.body;
+
+  const existingProject = await Project.findOne({ key: key.toUpperCase() });
+  if (existingProject) {
+    throw new ConflictError(`Project key '${key.toUpperCase()}' is already in use`);
+  }
+
+  if (workflow && !(await Workflow.exists({ _id: workflow }))) {
+    throw new ValidationError('Workflow not found');
+  }
+
+  const project = new Project({
+    name,
+    key,
+    description,
+    workflow,
+    owner: req.user._id,
+    members: [{ user: req.user._id, role: 'maintainer' }]
+  });
+
+  await project.save();
+  await project.populate('owner', 'firstName lastName email');
+
+  logger.info(`New project created: ${project.key} by ${req.user.email}`);
+
+  res.status(201).json({
+    success: true,
+    message: 'Project created successfully',
+    data: { project }
+  });
+});
+
+//Get project loaded by the project middleware
+export const getProjectById = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const project = await Project.findById(req.project!._id)
+    .populate('owner', 'firstName lastName email')
+    .populate('members.user', 'firstName lastName email')
+    .populate('workflow', 'name');
+
+  const issueCount = await Issue.countDocuments({ project: req.project!._id });
+
+  res.json({
+    success: true,
+    message: 'Project retrieved successfully',
+    data: { project, issueCount }
+  });
+});
+
+//Update project details
+export const updateProject = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const { name, description, workflow } = req.body;
+
+  if (workflow && !(await Workflow.exists({ _id: workflow }))) {
+    throw new ValidationError('Workflow not found');
+  }
+
+  const updateData: any = {};
+  if (name !== undefined) updateData.name = name;
+  if (description !== undefined) updateData.description = description;
+  if (workflow !== undefined) updateData.workflow = workflow;
+
+  const project = await Project.findByIdAndUpdate(
+    req.project!._id,
+    updateData,
+    { new: true, runValidators: true }
+  ).populate('owner', 'firstName lastName email');
+
+  logger.info(`Project updated: ${req.project!.key} by ${req.user!.email}`);
+
+  res.json({
+    success: true,
+    message: 'Project updated successfully',
+    data: { project }
+  });
+});
+
+//Change the storage quota of the project, null restores the default quota
+export const updateProjectStorageQuota = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const { storageQuota } = req.body;
+
+  const project = await Project.findByIdAndUpdate(
+    req.project!._id,
+    { storageQuota },
+    { new: true, runValidators: true }
+  );
+
+  logger.info(`Project ${req.project!.key} given storage quota ${storageQuota ?? 'default'} by ${req.user!.email}`);
+
+  res.json({
+    success: true,
+    message: 'Storage quota updated successfully',
+    data: {
+      project: { _id: project!._id, name: project!.name, key: project!.key, storageQuota: project!.storageQuota },
+      quota: await StorageQuota.getProjectUsage(project!)
+    }
+  });
+});
+
+//Delete an empty project
+export const deleteProject = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const issueCount = await Issue.countDocuments({ project: req.project!._id });
+  if (issueCount > 0) {
+    throw new ConflictError(`Project still owns ${issueCount} issue(s) and cannot be deleted`);
+  }
+
+  await Project.findByIdAndDelete(req.project!._id);
+
+  logger.info(`Project deleted: ${req.project!.key} by ${req.user!.email}`);
+
+  res.json({
+    success: true,
+    message: 'Project deleted successfully'
+  });
+});
+
+//Get project members
+export const getProjectMembers = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const project = await Project.findById(req.project!._id)
+    .populate('members.user', 'firstName lastName email');
+
+  res.json({
+    success: true,
+    message: 'Project members retrieved successfully',
+    data: { members: project!.members }
+  });
+});
+
+//Add a member to the project
+export const addProjectMember = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const { userId, role } = req.body;
+
+  const user = await User.findById(userId);
+  if (!user) {
+    throw new ValidationError('User not found');
+  }
+
+  if (req.project!.isMember(userId)) {
+    throw new ConflictError('User is already a member of this project');
+  }
+
+  const project = await Project.findByIdAndUpdate(
+    req.project!._id,
+    { $push: { members: { user: userId, role } } },
+    { new: true }
+  ).populate('members.user', 'firstName lastName email');
+
+  logger.info(`User ${user.email} added to project ${req.project!.key} by ${req.user!.email}`);
+
+  res.status(201).json({
+    success: true,
+    message: 'Member added successfully',
+    data: { members: project!.members }
+  });
+});
+
+//Change the role of a project member
+export const updateProjectMemberRole = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const { userId } = req.params;
+  const { role } = req.body;
+
+  if (!req.project!.isMember(userId)) {
+    throw new NotFoundError('Project member');
+  }
+
+  if (req.project!.isOwner(userId)) {
+    throw new ConflictError('The project owner is always a maintainer');
+  }
+
+  const project = await Project.findOneAndUpdate(
+    { _id: req.project!._id, 'members.user': userId },
+    { $set: { 'members.$.role': role } },
+    { new: true }
+  ).populate('members.user', 'firstName lastName email');
+
+  logger.info(`User ${userId} given role ${role} in project ${req.project!.key} by ${req.user!.email}`);
+
+  res.json({
+    success: true,
+    message: 'Member role updated successfully',
+    data: { members: project!.members }
+  });
+});
+
+//Remove a member from the project
+export const removeProjectMember = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const { userId } = req.params;
+
+  if (!req.project!.isMember(userId)) {
+    throw new NotFoundError('Project member');
+  }
+
+  if (req.project!.isOwner(userId)) {
+    throw new ConflictError('The project owner cannot be removed');
+  }
+
+  await Project.findByIdAndUpdate(
+    req.project!._id,
+    { $pull: { members: { user: userId } } }
+  );
+
+  logger.info(`User ${userId} removed from project ${req.project!.key} by ${req.user!.email}`);
+
+  res.json({
+    success: true,
+    message: 'Member removed successfully'
+  });
+});
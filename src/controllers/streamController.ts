@@ -0,0 +1,98 @@
+import { Response, NextFunction } from 'express';
+import { Project } from '../models/Project';
+import { AuthRequest, IssueEvent, IUser } from '../types';
+import { Authorization } from '../utils/authorization';
+import { eventBus } from '../utils/eventBus';
+import { logger } from '../utils/logger';
+import { asyncHandler } from '../middleware/errorHandler';
+
+// Comment line sent periodically so proxies keep the connection open
+const HEARTBEAT_INTERVAL = parseInt(process.env.SSE_HEARTBEAT_INTERVAL || '25000');
+
+// How long a client waits before reconnecting, in milliseconds
+const RETRY_INTERVAL = 5000;
+
+interface StreamFilters {
+  issue?: string;
+  assignee?: string;
+  project?: string;
+}
+
+// Check an event against the filters the client subscribed with
+const matchesFilters = (event: IssueEvent, filters: StreamFilters): boolean => {
+  if (filters.issue && event.issueId !== filters.issue) return false;
+  if (filters.assignee && event.assigneeId !== filters.assignee) return false;
+  if (filters.project && event.projectId !== filters.project) return false;
+  return true;
+};
+
+// Events of project issues are only sent to users who can read them
+// When the project cannot be loaded, e.g. right after it was deleted, only admins receive the event
+const canReceive = async (user: IUser, event: IssueEvent): Promise<boolean> => {
+  if (!event.projectId) return true;
+  const project = await Project.findById(event.projectId);
+  if (!project) return user.role === 'admin';
+  return Authorization.can(user, 'issue:read', { project });
+};
+
+// Format an event in the text/event-stream wire format
+const formatEvent = (name: string, data: any, id?: number): string => {
+  return `${id !== undefined ? `id: ${id}\n` : ''}event: ${name}\ndata: ${JSON.stringify(data)}\n\n`;
+};
+
+//Stream issue, comment and file events to the client
+export const streamEvents = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const user = req.user!;
+  const { issue, assignee, project } = req.query as Record<string, string | undefined>;
+
+  const filters: StreamFilters = {
+    issue,
+    assignee: assignee === 'me' ? user._id.toString() : assignee,
+    project
+  };
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.write(`retry: ${RETRY_INTERVAL}\n\n`);
+  res.write(formatEvent('ready', { filters }));
+
+  // Deliver events one at a time so they keep their order
+  let queue = Promise.resolve();
+
+  const unsubscribe = eventBus.subscribe(event => {
+    if (!matchesFilters(event, filters)) return;
+
+    queue = queue
+      .then(async () => {
+        if (res.writableEnded || !(await canReceive(user, event))) return;
+        res.write(formatEvent(event.type, {
+          type: event.type,
+          issueId: event.issueId,
+          projectId: event.projectId,
+          assigneeId: event.assigneeId,
+          actorId: event.actorId,
+          timestamp: event.timestamp,
+          data: event.data
+        }, event.id));
+      })
+      .catch(error => {
+        logger.error(`Failed to stream ${event.type} to ${user.email}:`, error);
+      });
+  });
+
+  const heartbeat = setInterval(() => {
+    res.write(': heartbeat\n\n');
+  }, HEARTBEAT_INTERVAL);
+
+  logger.info(`Event stream opened by ${user.email}`);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+    logger.info(`Event stream closed by ${user.email}`);
+  });
+});
@@ -0,0 +1,339 @@
+import { Response, NextFunction } from 'express';
+import { Readable, Transform } from 'stream';
+import crypto from 'crypto';
+import { File } from '../models/File';
+import { FileBlob } from '../models/FileBlob';
+import { Issue } from '../models/Issue';
+import { IssueHistory } from '../models/IssueHistory';
+import { UploadSession } from '../models/UploadSession';
+import { AuthRequest, IUploadSession } from '../types';
+import { NotFoundError, ValidationError, ConflictError, FileUploadError } from '../utils/errorTypes';
+import { logger } from '../utils/logger';
+import { eventBus } from '../utils/eventBus';
+import { storage } from '../utils/storage';
+import { malwareScanner } from '../utils/malwareScanner';
+import { StorageQuota } from '../utils/storageQuota';
+import { asyncHandler } from '../middleware/errorHandler';
+import {
+  ALLOWED_MIME_TYPES,
+  MAX_RESUMABLE_FILE_SIZE,
+  generateFilename,
+  inspectContent,
+  checkDetectedType,
+  cleanupUploadedFile
+} from '../middleware/upload';
+
+// Unfinished uploads are removed after this many seconds without a new chunk (24 hours)
+const UPLOAD_SESSION_TTL = parseInt(process.env.UPLOAD_SESSION_TTL || '86400');
+
+// Content type of chunk requests, as in the tus protocol
+const CHUNK_CONTENT_TYPE = 'application/offset+octet-stream';
+
+const nextExpiry = (): Date => new Date(Date.now() + UPLOAD_SESSION_TTL * 1000);
+
+//Load an unexpired upload session of the current user
+const findOwnSession = async (req: AuthRequest): Promise<IUploadSession> => {
+  const session = await UploadSession.findOne({
+    _id: req.params.id,
+    uploadedBy: req.user!._id,
+    expiresAt: { $gt: new Date() }
+  });
+  if (!session) {
+    throw new NotFoundError('Upload session');
+  }
+  return session;
+};
+
+//Report progress in headers as well, so clients can resume with a HEAD request
+const setOffsetHeaders = (res: Response, session: IUploadSession): void => {
+  res.setHeader('Upload-Offset', session.offset.toString());
+  res.setHeader('Upload-Length', session.size.toString());
+  res.setHeader('Cache-Control', 'no-store');
+};
+
+//Stream the chunks of a session in order
+const readChunks = (session: IUploadSession): Readable => {
+  return Readable.from((async function*() {
+    for (const chunk of session.chunks) {
+      const content = await storage.get(chunk.key);
+      if (!content) {
+        throw new Error(`Upload chunk ${chunk.key} not found in storage`);
+      }
+      yield* content;
+    }
+  })());
+};
+
+//Start a resumable upload to an issue
+export const createUploadSession = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    throw new ValidationError('User authentication required');
+  }
+
+  const { issueId } = req.params;
+  const { filename, mimetype, size, checksum } = req.body;
+
+  const issue = await Issue.findById(issueId);
+  if (!issue) {
+    throw new NotFoundError('Issue');
+  }
+
+  if (!ALLOWED_MIME_TYPES.includes(mimetype)) {
+    throw new FileUploadError(`File type ${mimetype} is not allowed. Allowed types: ${ALLOWED_MIME_TYPES.join(', ')}`);
+  }
+  if (size > MAX_RESUMABLE_FILE_SIZE) {
+    throw new FileUploadError(`File too large. Maximum size allowed is ${MAX_RESUMABLE_FILE_SIZE} bytes`);
+  }
+
+  await StorageQuota.assertAvailable(req.user, issue, size);
+
+  await (UploadSession as any).removeExpired();
+
+  const session = await UploadSession.create({
+    issueId,
+    uploadedBy: req.user._id,
+    originalName: filename,
+    mimetype,
+    size,
+    checksum,
+    expiresAt: nextExpiry()
+  });
+
+  logger.info(`Upload session ${session._id} started for ${filename} (${size} bytes) on issue ${issueId} by ${req.user.email}`);
+
+  setOffsetHeaders(res, session);
+  res.setHeader('Location', `${req.baseUrl}/uploads/${session._id}`);
+  res.status(201).json({
+    success: true,
+    message: 'Upload session created successfully',
+    data: { upload: session }
+  });
+});
+
+//Get the number of bytes received so far
+export const getUploadSession = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const session = await findOwnSession(req);
+
+  setOffsetHeaders(res, session);
+
+  if (req.method === 'HEAD') {
+    res.end();
+    return;
+  }
+
+  res.json({
+    success: true,
+    message: 'Upload session retrieved successfully',
+    data: { upload: session }
+  });
+});
+
+//Append a chunk at the offset given in the Upload-Offset header
+//A chunk is only counted once it was received completely, an interrupted chunk has to be sent again
+export const appendUploadChunk = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const session = await findOwnSession(req);
+
+  if (!req.is(CHUNK_CONTENT_TYPE)) {
+    throw new ValidationError(`Chunks must be sent with Content-Type ${CHUNK_CONTENT_TYPE}`);
+  }
+
+  const offsetHeader = req.get('Upload-Offset');
+  if (!offsetHeader || !/^\d+$/.test(offsetHeader)) {
+    throw new ValidationError('Upload-Offset header must be a non-negative integer');
+  }
+
+  const offset = parseInt(offsetHeader);
+  if (offset !== session.offset) {
+    setOffsetHeaders(res, session);
+    throw new ConflictError(`Upload-Offset ${offset} does not match the current offset ${session.offset}`);
+  }
+
+  // Reject chunks that would grow the file beyond its announced size
+  const remaining = session.size - session.offset;
+  let received = 0;
+  const limiter = new Transform({
+    transform(chunk, encoding, callback) {
+      received += chunk.length;
+      if (received > remaining) {
+        callback(new FileUploadError(`Chunk exceeds the remaining ${remaining} bytes of the upload`));
+        return;
+      }
+      callback(null, chunk);
+    }
+  });
+
+  // Errors surface through storage.put, which may only start reading after an await
+  limiter.on('error', () => undefined);
+  req.on('error', error => limiter.destroy(error));
+
+  const key = `chunks/${session._id}/${offset}-${crypto.randomBytes(4).toString('hex')}`;
+  let size: number;
+  try {
+    ({ size } = await storage.put(key, req.pipe(limiter)));
+  } catch (error) {
+    // The rest of a rejected chunk is not read, so the connection cannot be reused
+    res.setHeader('Connection', 'close');
+    await storage.delete(key).catch(() => undefined);
+    if (error instanceof FileUploadError) {
+      throw error;
+    }
+    logger.warn(`Chunk of upload session ${session._id} at offset ${offset} was interrupted:`, error);
+    throw new FileUploadError('Chunk upload was interrupted, resume from the current offset');
+  }
+
+  if (size === 0) {
+    await storage.delete(key);
+    throw new ValidationError('Chunk is empty');
+  }
+
+  // Only one of several concurrent requests for the same offset wins
+  const updated = await UploadSession.findOneAndUpdate(
+    { _id: session._id, offset },
+    {
+      $inc: { offset: size },
+      $push: { chunks: { key, offset, size } },
+      expiresAt: nextExpiry()
+    },
+    { new: true }
+  );
+  if (!updated) {
+    await storage.delete(key);
+    throw new ConflictError('Another chunk was stored at this offset, resume from the current offset');
+  }
+
+  setOffsetHeaders(res, updated);
+  res.json({
+    success: true,
+    message: 'Chunk uploaded successfully',
+    data: { upload: updated }
+  });
+});
+
+//Assemble the chunks, verify the checksum and content type and attach the file to the issue
+export const completeUploadSession = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const session = await findOwnSession(req);
+
+  if (session.offset !== session.size) {
+    setOffsetHeaders(res, session);
+    throw new ConflictError(`Upload is incomplete, ${session.offset} of ${session.size} bytes received`);
+  }
+
+  // Only one of several concurrent requests assembles the upload
+  const claimed = await UploadSession.findOneAndUpdate(
+    { _id: session._id, status: 'open' },
+    { status: 'completing' },
+    { new: true }
+  );
+  if (!claimed) {
+    throw new ConflictError('Upload is already being completed');
+  }
+  // Hand the session back when completing fails before the chunks are assembled, so it can be retried
+  const release = () => UploadSession.updateOne({ _id: session._id }, { status: 'open' });
+
+  const issue = await Issue.findById(session.issueId);
+  if (!issue) {
+    await session.deleteChunks();
+    await session.deleteOne();
+    throw new NotFoundError('Issue');
+  }
+
+  // Checked again since the quota may have been lowered meanwhile, the session is kept so space can be freed first
+  try {
+    await StorageQuota.assertAvailable(req.user!, issue, session.size, session._id.toString());
+  } catch (error) {
+    await release();
+    throw error;
+  }
+
+  const filename = generateFilename(session.originalName);
+  const inspector = inspectContent();
+  const chunks = readChunks(session);
+  // pipe() does not forward errors, a missing chunk has to fail the upload instead of stalling it
+  chunks.on('error', error => inspector.stream.destroy(error));
+  try {
+    await storage.put(filename, chunks.pipe(inspector.stream));
+  } catch (error) {
+    // The provider may have stored part of the contents
+    await cleanupUploadedFile(filename);
+    await release();
+    throw error;
+  }
+  const { checksum, detectedMimetype } = inspector.result();
+
+  // Chunks are no longer needed once assembled, a failed check means the client has to start over
+  await session.deleteChunks();
+  await session.deleteOne();
+
+  if (checksum !== session.checksum) {
+    await cleanupUploadedFile(filename);
+    throw new FileUploadError(`Checksum of ${session.originalName} does not match, the upload has to be restarted`);
+  }
+
+  const rejection = checkDetectedType(session.originalName, session.mimetype, detectedMimetype);
+  if (rejection) {
+    await cleanupUploadedFile(filename);
+    throw new FileUploadError(rejection);
+  }
+
+  // Identical contents are stored once and shared between files
+  const blob = await (FileBlob as any).acquire(checksum, filename, session.size);
+
+  const fileDoc = new File({
+    filename,
+    originalName: session.originalName,
+    mimetype: session.mimetype,
+    detectedMimetype,
+    size: session.size,
+    checksum,
+    storageKey: blob.storageKey,
+    issueId: session.issueId,
+    uploadedBy: req.user!._id
+  });
+
+  try {
+    await fileDoc.save();
+  } catch (error) {
+    await (FileBlob as any).release(checksum);
+    throw error;
+  }
+  await fileDoc.populate('uploadedBy', 'firstName lastName email');
+
+  await (IssueHistory as any).record(
+    session.issueId,
+    req.user!._id,
+    'file_added',
+    [{ field: 'files', from: null, to: fileDoc.originalName }]
+  );
+
+  // Downloads stay blocked until the scan finds the contents clean
+  malwareScanner.enqueue(fileDoc._id.toString());
+
+  eventBus.publish('file.uploaded', issue, req.user!._id, { files: [fileDoc] });
+
+  logger.info(`Upload session ${session._id} completed as file ${fileDoc._id} on issue ${session.issueId} by ${req.user!.email}`);
+
+  res.status(201).json({
+    success: true,
+    message: 'File uploaded successfully',
+    data: { file: fileDoc }
+  });
+});
+
+//Abort an upload and delete the chunks received so far
+export const abortUploadSession = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const session = await findOwnSession(req);
+
+  // The chunks of an upload that is being completed are still read
+  const removed = await UploadSession.findOneAndDelete({ _id: session._id, status: 'open' });
+  if (!removed) {
+    throw new ConflictError('Upload is already being completed');
+  }
+  await session.deleteChunks();
+
+  logger.info(`Upload session ${session._id} aborted by ${req.user!.email}`);
+
+  res.json({
+    success: true,
+    message: 'Upload session aborted successfully'
+  });
+});
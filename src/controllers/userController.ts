@@ -0,0 +1,111 @@
+import { Response, NextFunction } from 'express';
+import { User } from '../models/User';
+import { Issue } from '../models/Issue';
+import { Project } from '../models/Project';
+import { AuthRequest } from '../types';
+import { NotFoundError, ConflictError, AuthorizationError } from '../utils/errorTypes';
+import { logger } from '../utils/logger';
+import { StorageQuota } from '../utils/storageQuota';
+import { Authorization } from '../utils/authorization';
+import { Mentions } from '../utils/mentions';
+import { asyncHandler } from '../middleware/errorHandler';
+
+//Get all users with their roles
+export const getUsers = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const users = await User.find()
+    .select('email firstName lastName role createdAt')
+    .sort({ email: 1 });
+
+  res.json({
+    success: true,
+    message: 'Users retrieved successfully',
+    data: { users }
+  });
+});
+
+//Change the global role of a user
+export const updateUserRole = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const { id } = req.params;
+  const { role } = req.body;
+
+  const user = await User.findById(id);
+  if (!user) {
+    throw new NotFoundError('User');
+  }
+
+  // Keep at least one admin able to manage roles
+  if (user.role === 'admin' && role !== 'admin') {
+    const adminCount = await User.countDocuments({ role: 'admin' });
+    if (adminCount <= 1) {
+      throw new ConflictError('The last admin cannot be demoted');
+    }
+  }
+
+  user.role = role;
+  await user.save();
+
+  logger.info(`User ${user.email} given role ${role} by ${req.user!.email}`);
+
+  res.json({
+    success: true,
+    message: 'User role updated successfully',
+    data: {
+      user: {
+        id: user._id,
+        email: user.email,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        role: user.role
+      }
+    }
+  });
+});
+
+//Change the storage quota of a user, null restores the default quota
+export const updateUserStorageQuota = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const { id } = req.params;
+  const { storageQuota } = req.body;
+
+  const user = await User.findById(id);
+  if (!user) {
+    throw new NotFoundError('User');
+  }
+
+  user.storageQuota = storageQuota;
+  await user.save();
+
+  logger.info(`User ${user.email} given storage quota ${storageQuota ?? 'default'} by ${req.user!.email}`);
+
+  res.json({
+    success: true,
+    message: 'Storage quota updated successfully',
+    data: {
+      user: { id: user._id, email: user.email, storageQuota: user.storageQuota },
+      quota: await StorageQuota.getUserUsage(user)
+    }
+  });
+});
+
+//Suggest users to @mention, only users who can read the issue when one is given
+export const getMentionableUsers = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const { q = '', issueId, limit = '10' } = req.query as any;
+
+  // Suggestions are scoped to an issue the caller can read, so the user list cannot be paged through
+  const issue = await Issue.findById(issueId);
+  if (!issue) {
+    throw new NotFoundError('Issue');
+  }
+
+  const project = issue.project ? await Project.findById(issue.project) : null;
+  if (!Authorization.can(req.user!, 'issue:read', { issue, project })) {
+    throw new AuthorizationError(Authorization.getDenialMessage('issue:read'));
+  }
+
+  const users = await Mentions.findMentionable(q.trim(), issue, parseInt(limit, 10));
+
+  res.json({
+    success: true,
+    message: 'Mentionable users retrieved successfully',
+    data: { users }
+  });
+});
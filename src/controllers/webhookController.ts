@@ -0,0 +1,191 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { Webhook } from '../models/Webhook';
+import { WebhookDelivery } from '../models/WebhookDelivery';
+import { Project } from '../models/Project';
+import { AuthRequest } from '../types';
+import { Authorization } from '../utils/authorization';
+import { NotFoundError, ValidationError, ConflictError } from '../utils/errorTypes';
+import { logger } from '../utils/logger';
+import { webhookDispatcher } from '../utils/webhookDispatcher';
+import { asyncHandler } from '../middleware/errorHandler';
+
+//Get all webhooks
+//Admins see every webhook, other users only the webhooks of projects they may manage webhooks for
+export const getWebhooks = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  let filter = {};
+  if (req.user!.role !== 'admin') {
+    const projects = await Project.find({ $or: [{ owner: req.user!._id }, { 'members.user': req.user!._id }] });
+    const managed = projects.filter(project => Authorization.can(req.user!, 'webhook:manage', { project }));
+    filter = { project: { $in: managed.map(project => project._id) } };
+  }
+
+  const webhooks = await Webhook.find(filter)
+    .populate('project', 'name key')
+    .sort({ createdAt: -1 });
+
+  res.json({
+    success: true,
+    message: 'Webhooks retrieved successfully',
+    data: { webhooks }
+  });
+});
+
+//Get single webhook by ID
+export const getWebhookById = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const { id } = req.params;
+
+  const webhook = await Webhook.findById(id)
+    .populate('project', 'name key')
+    .populate('createdBy', 'firstName lastName email');
+  if (!webhook) {
+    throw new NotFoundError('Webhook');
+  }
+
+  res.json({
+    success: true,
+    message: 'Webhook retrieved successfully',
+    data: { webhook }
+  });
+});
+
+//Create new webhook subscription
+//The secret is only returned here, a generated one is used when none is given
+export const createWebhook = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    throw new ValidationError('User authentication required');
+  }
+
+  const { url, events, project, description, active } = req.body;
+  const secret = req.body.secret || crypto.randomBytes(32).toString('hex');
+
+  if (project && !(await Project.exists({ _id: project }))) {
+    throw new ValidationError('Project not found');
+  }
+
+  const webhook = await Webhook.create({
+    url,
+    secret,
+    events,
+    project,
+    description,
+    active,
+    createdBy: req.user._id
+  });
+
+  logger.info(`New webhook created for ${url} by ${req.user.email}`);
+
+  res.status(201).json({
+    success: true,
+    message: 'Webhook created successfully',
+    data: { webhook: { ...webhook.toJSON(), secret } }
+  });
+});
+
+//Update webhook
+export const updateWebhook = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const { id } = req.params;
+  const { url, secret, events, project, description, active } = req.body;
+
+  if (project && !(await Project.exists({ _id: project }))) {
+    throw new ValidationError('Project not found');
+  }
+
+  const updateData: any = {};
+  if (url !== undefined) updateData.url = url;
+  if (secret !== undefined) updateData.secret = secret;
+  if (events !== undefined) updateData.events = events;
+  if (project !== undefined) updateData.project = project;
+  if (description !== undefined) updateData.description = description;
+  if (active !== undefined) updateData.active = active;
+
+  const webhook = await Webhook.findByIdAndUpdate(
+    id,
+    updateData,
+    { new: true, runValidators: true }
+  );
+  if (!webhook) {
+    throw new NotFoundError('Webhook');
+  }
+
+  logger.info(`Webhook updated: ${id} by ${req.user!.email}`);
+
+  res.json({
+    success: true,
+    message: 'Webhook updated successfully',
+    data: { webhook }
+  });
+});
+
+//Delete webhook and its delivery log
+export const deleteWebhook = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const { id } = req.params;
+
+  const webhook = await Webhook.findOneAndDelete({ _id: id });
+  if (!webhook) {
+    throw new NotFoundError('Webhook');
+  }
+
+  logger.info(`Webhook deleted: ${id} by ${req.user!.email}`);
+
+  res.json({
+    success: true,
+    message: 'Webhook deleted successfully'
+  });
+});
+
+//Get the delivery log of a webhook with pagination
+export const getWebhookDeliveries = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const { id } = req.params;
+  const { page = 1, limit = 20 } = req.query;
+
+  if (!(await Webhook.exists({ _id: id }))) {
+    throw new NotFoundError('Webhook');
+  }
+
+  const [deliveries, total] = await (WebhookDelivery as any).getDeliveriesForWebhook(
+    id,
+    Number(page),
+    Number(limit)
+  );
+
+  const totalPages = Math.ceil(total / Number(limit));
+
+  res.json({
+    success: true,
+    message: 'Webhook deliveries retrieved successfully',
+    data: deliveries,
+    pagination: {
+      page: Number(page),
+      limit: Number(limit),
+      total,
+      pages: totalPages,
+      hasNext: Number(page) < totalPages,
+      hasPrev: Number(page) > 1
+    }
+  });
+});
+
+//Send an earlier delivery again as a new delivery
+export const redeliverWebhookDelivery = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const { id, deliveryId } = req.params;
+
+  const original = await WebhookDelivery.findOne({ _id: deliveryId, webhookId: id });
+  if (!original) {
+    throw new NotFoundError('Webhook delivery');
+  }
+
+  if (original.status === 'pending') {
+    throw new ConflictError('Delivery is still pending and will be retried automatically');
+  }
+
+  const delivery = await webhookDispatcher.redeliver(original);
+
+  logger.info(`Webhook delivery ${deliveryId} redelivered by ${req.user!.email}`);
+
+  res.status(201).json({
+    success: true,
+    message: 'Webhook delivery redelivered',
+    data: { delivery }
+  });
+});
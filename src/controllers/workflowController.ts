@@ -0,0 +1,201 @@
+import { Request, Response, NextFunction } from 'express';
+import { Workflow } from '../models/Workflow';
+import { Issue } from '../models/Issue';
+import { Project } from '../models/Project';
+import { AuthRequest, IWorkflow, IWorkflowStatus } from '../types';
+import { NotFoundError, ValidationError, ConflictError, handleMongoError } from '../utils/errorTypes';
+import { logger } from '../utils/logger';
+import { asyncHandler } from '../middleware/errorHandler';
+
+//Get all workflows
+export const getWorkflows = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  // Make sure the default workflow is always listed
+  await (Workflow as any).getDefault();
+
+  const workflows = await Workflow.find()
+    .sort({ isDefault: -1, name: 1 })
+    .lean();
+
+  res.json({
+    success: true,
+    message: 'Workflows retrieved successfully',
+    data: { workflows }
+  });
+});
+
+//Get single workflow by ID
+export const getWorkflowById = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+  const { id } = req.params;
+
+  const workflow = await Workflow.findById(id).populate('createdBy', 'firstName lastName email');
+  if (!workflow) {
+    throw new NotFoundError('Workflow');
+  }
+
+  res.json({
+    success: true,
+    message: 'Workflow retrieved successfully',
+    data: { workflow }
+  });
+});
+
+//Create new workflow
+export const createWorkflow = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    throw new ValidationError('User authentication required');
+  }
+
+  const { name, description, statuses, transitions, isDefault } = req.body;
+
+  const workflow = new Workflow({
+    name,
+    description,
+    statuses,
+    transitions,
+    isDefault: false,
+    createdBy: req.user._id
+  });
+
+  await saveWorkflow(workflow);
+
+  if (isDefault) {
+    await makeDefault(workflow._id);
+    workflow.isDefault = true;
+  }
+
+  logger.info(`New workflow created: ${name} by ${req.user.email}`);
+
+  res.status(201).json({
+    success: true,
+    message: 'Workflow created successfully',
+    data: { workflow }
+  });
+});
+
+//Update workflow
+export const updateWorkflow = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    throw new ValidationError('User authentication required');
+  }
+
+  const { id } = req.params;
+  const { name, description, statuses, transitions, isDefault } = req.body;
+
+  const workflow = await Workflow.findById(id);
+  if (!workflow) {
+    throw new NotFoundError('Workflow');
+  }
+
+  if (isDefault === false && workflow.isDefault) {
+    throw new ConflictError('Mark another workflow as default instead of unsetting the current default');
+  }
+
+  // Statuses still held by issues cannot be removed from the workflow
+  if (statuses !== undefined) {
+    const remainingKeys = statuses.map((status: IWorkflowStatus) => status.key);
+    const removedKeys = workflow.statuses
+      .map(status => status.key)
+      .filter(key => !remainingKeys.includes(key));
+
+    if (removedKeys.length > 0) {
+      const inUse = await Issue.countDocuments({
+        ...issueFilterForWorkflow(workflow),
+        status: { $in: removedKeys }
+      });
+      if (inUse > 0) {
+        throw new ConflictError(`Cannot remove statuses still used by ${inUse} issue(s): ${removedKeys.join(', ')}`);
+      }
+    }
+  }
+
+  if (name !== undefined) workflow.name = name;
+  if (description !== undefined) workflow.description = description;
+  if (statuses !== undefined) workflow.set('statuses', statuses);
+  if (transitions !== undefined) workflow.set('transitions', transitions);
+
+  await saveWorkflow(workflow);
+
+  if (isDefault === true && !workflow.isDefault) {
+    await makeDefault(workflow._id);
+    workflow.isDefault = true;
+  }
+
+  logger.info(`Workflow updated: ${id} by ${req.user.email}`);
+
+  res.json({
+    success: true,
+    message: 'Workflow updated successfully',
+    data: { workflow }
+  });
+});
+
+//Delete workflow
+export const deleteWorkflow = asyncHandler(async (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    throw new ValidationError('User authentication required');
+  }
+
+  const { id } = req.params;
+
+  const workflow = await Workflow.findById(id);
+  if (!workflow) {
+    throw new NotFoundError('Workflow');
+  }
+
+  if (workflow.isDefault) {
+    throw new ConflictError('The default workflow cannot be deleted');
+  }
+
+  const inUse = await Issue.countDocuments({ workflow: workflow._id });
+  if (inUse > 0) {
+    throw new ConflictError(`Workflow is used by ${inUse} issue(s) and cannot be deleted`);
+  }
+
+  // New issues of a project are created with the project's workflow
+  const projects = await Project.countDocuments({ workflow: workflow._id });
+  if (projects > 0) {
+    throw new ConflictError(`Workflow is used by ${projects} project(s) and cannot be deleted`);
+  }
+
+  await Workflow.findByIdAndDelete(id);
+
+  logger.info(`Workflow deleted: ${id} by ${req.user.email}`);
+
+  res.json({
+    success: true,
+    message: 'Workflow deleted successfully'
+  });
+});
+
+// Surface schema and duplicate-name failures as client errors
+const saveWorkflow = async (workflow: IWorkflow): Promise<void> => {
+  try {
+    await workflow.save();
+  } catch (error) {
+    throw handleMongoError(error);
+  }
+};
+
+// Issues without an explicit workflow are governed by the default one
+const issueFilterForWorkflow = (workflow: { _id: any; isDefault: boolean }) => {
+  if (workflow.isDefault) {
+    return { $or: [{ workflow: workflow._id }, { workflow: { $exists: false } }, { workflow: null }] };
+  }
+  return { workflow: workflow._id };
+};
+
+// Switch the default flag to a single workflow
+const makeDefault = async (workflowId: any): Promise<void> => {
+  const previous = await Workflow.findOne({ isDefault: true, _id: { $ne: workflowId } });
+
+  // Pin issues that relied on the old default so their statuses stay valid
+  if (previous) {
+    await Issue.updateMany(
+      { $or: [{ workflow: { $exists: false } }, { workflow: null }] },
+      { workflow: previous._id }
+    );
+  }
+
+  await Workflow.updateMany({ _id: { $ne: workflowId } }, { isDefault: false });
+  await Workflow.findByIdAndUpdate(workflowId, { isDefault: true });
+};
@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { JWTUtils } from  '../utils/jwt';
+import { TokenService } from '../utils/tokenService';
+import { SignedResource, SignedUrl } from '../utils/signedUrl';
 import { User } from '../models/User';
 import { AuthRequest } from '../types';
 import { AuthenticationError, NotFoundError } from '../utils/errorTypes';
@@ -24,14 +26,20 @@ export const authenticate = async (
     // Verify token
     const payload = JWTUtils.verifyAccessToken(token);
 
+    // Tokens of a session that was logged out or revoked are no longer accepted
+    if (payload.sessionId && !(await TokenService.isSessionActive(payload.sessionId))) {
+      throw new AuthenticationError('Session has been revoked');
+    }
+
     // Find user
     const user = await User.findById(payload.userId);
     if (!user) {
       throw new NotFoundError('User');
     }
 
-    // Attach user to request
+    // Attach user and session to request
     req.user = user;
+    req.sessionId = payload.sessionId;
     next();
   } catch (error) {
     logger.error('Authentication error:', error);
@@ -39,6 +47,28 @@ export const authenticate = async (
   }
 };
 
+// Middleware factory to accept a signed file URL in place of an access token
+// The signature must be for the resource the route serves, a download link does not open thumbnails
+// Requests without a signature skip to the next route, which requires a token
+export const verifySignedUrl = (resource: (req: Request) => SignedResource) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const { expires, signature } = req.query;
+
+    if (expires === undefined && signature === undefined) {
+      next('route');
+      return;
+    }
+
+    if (typeof expires !== 'string' || typeof signature !== 'string' ||
+        !SignedUrl.verify(req.params.id, resource(req), Number(expires), signature)) {
+      next(new AuthenticationError('Download link is invalid or has expired'));
+      return;
+    }
+
+    next();
+  };
+};
+
 //Rate limiting middleware for authentication endpoints
 export const authRateLimit = (maxAttempts: number = 5, windowMs: number = 15 * 60 * 1000) => {
   const attempts = new Map<string, { count: number; resetTime: number }>();
@@ -0,0 +1,102 @@
+import { Response, NextFunction } from 'express';
+import { Project } from '../models/Project';
+import { Issue } from '../models/Issue';
+import { Comment } from '../models/Comment';
+import { File } from '../models/File';
+import { Webhook } from '../models/Webhook';
+import { AuthRequest, IIssue } from '../types';
+import { Action, Authorization, AuthorizationContext } from '../utils/authorization';
+import { AuthenticationError, AuthorizationError } from '../utils/errorTypes';
+
+// Loads the resources a policy decision needs
+// Returning null means the resource does not exist and the controller reports it
+export type ResourceLoader = (req: AuthRequest) => Promise<AuthorizationContext | null>;
+
+interface AuthorizeOptions {
+  // Only enforce the action when the request needs it, e.g. when a body field is present
+  when?: (req: AuthRequest) => boolean;
+}
+
+// Attach the project an issue belongs to
+const withProject = async (req: AuthRequest, issue: IIssue): Promise<AuthorizationContext> => {
+  if (!issue.project) {
+    return { issue };
+  }
+  const project = req.project && req.project._id.toString() === issue.project.toString()
+    ? req.project
+    : await Project.findById(issue.project);
+  return { issue, project };
+};
+
+//Resource loaders
+export const loaders = {
+  // Issue identified by a route parameter
+  issue: (param: 'id' | 'issueId' = 'id'): ResourceLoader => async (req) => {
+    const issue = await Issue.findById(req.params[param]);
+    return issue ? withProject(req, issue) : null;
+  },
+
+  // Comment identified by :id, together with its issue
+  comment: (): ResourceLoader => async (req) => {
+    const comment = await Comment.findById(req.params.id);
+    if (!comment) return null;
+    const issue = await Issue.findById(comment.issueId);
+    return issue ? { ...(await withProject(req, issue)), comment } : { comment };
+  },
+
+  // File identified by :id, together with its issue
+  file: (): ResourceLoader => async (req) => {
+    const file = await File.findById(req.params.id);
+    if (!file) return null;
+    const issue = await Issue.findById(file.issueId);
+    return issue ? { ...(await withProject(req, issue)), file } : { file };
+  },
+
+  // Project loaded by the project middleware
+  project: (): ResourceLoader => async (req) => ({ project: req.project }),
+
+  // Webhook identified by :id, authorized against the project it is limited to
+  webhook: (): ResourceLoader => async (req) => {
+    const webhook = await Webhook.findById(req.params.id);
+    if (!webhook) return null;
+    return { project: webhook.project ? await Project.findById(webhook.project) : null };
+  },
+
+  // Project a webhook is limited to by the request body, none means all projects
+  webhookProject: (): ResourceLoader => async (req) => {
+    if (!req.body.project) return {};
+    const project = await Project.findById(req.body.project);
+    return project ? { project } : null;
+  }
+};
+
+// Middleware factory that enforces an action from the central authorization policy
+// Routes declare the action and how to load the resource it applies to
+export const authorize = (action: Action, loader?: ResourceLoader, options: AuthorizeOptions = {}) => {
+  return async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError('User not authenticated');
+      }
+
+      if (options.when && !options.when(req)) {
+        next();
+        return;
+      }
+
+      const context = loader ? await loader(req) : {};
+      if (!context) {
+        next();
+        return;
+      }
+
+      if (!Authorization.can(req.user, action, context)) {
+        throw new AuthorizationError(Authorization.getDenialMessage(action));
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
@@ -0,0 +1,60 @@
+import { Response, NextFunction } from 'express';
+import { Project } from '../models/Project';
+import { Issue } from '../models/Issue';
+import { AuthRequest } from '../types';
+import { Authorization } from '../utils/authorization';
+import { AuthenticationError, AuthorizationError, NotFoundError } from '../utils/errorTypes';
+
+// Matches a 24 character hex string, which is how issue IDs differ from issue keys
+const OBJECT_ID_PATTERN = /^[0-9a-fA-F]{24}$/;
+
+// Middleware to load the project from the :projectId parameter
+// Only members of the project and admins may access anything scoped to it
+export const loadProject = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw new AuthenticationError('User not authenticated');
+    }
+
+    const project = await Project.findById(req.params.projectId);
+    if (!project) {
+      throw new NotFoundError('Project');
+    }
+
+    if (!Authorization.getEffectiveRole(req.user, project)) {
+      throw new AuthorizationError('You are not a member of this project');
+    }
+
+    req.project = project;
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Middleware to resolve an issue key (e.g. PAY-142) or ID within the loaded project
+// The resolved issue ID is written to the given route parameter for the controller
+export const resolveProjectIssue = (targetParam: 'id' | 'issueId' = 'id') => {
+  return async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const { issueRef } = req.params;
+      const filter = OBJECT_ID_PATTERN.test(issueRef)
+        ? { _id: issueRef, project: req.project!._id }
+        : { key: issueRef.toUpperCase(), project: req.project!._id };
+
+      const issue = await Issue.findOne(filter).select('_id');
+      if (!issue) {
+        throw new NotFoundError('Issue');
+      }
+
+      req.params[targetParam] = issue._id.toString();
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
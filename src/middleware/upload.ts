@@ -1,12 +1,18 @@
 import multer, { FileFilterCallback, MulterError } from 'multer';
 import { Request, Response, NextFunction } from 'express';
 import path from 'path';
-import fs from 'fs';
-import { FileUploadError } from  '../utils/errorTypes';
+import crypto from 'crypto';
+import { Transform } from 'stream';
+import { FileUploadError, QuotaExceededError } from  '../utils/errorTypes';
 import { logger } from '../utils/logger';
+import { storage } from '../utils/storage';
+import { FileUtils } from '../utils/fileUtils';
+import { StorageQuota } from '../utils/storageQuota';
+import { AuthRequest } from '../types';
+import { ResourceLoader } from './authorize';
 
 // Allowed file types
-const ALLOWED_MIME_TYPES = [
+export const ALLOWED_MIME_TYPES = [
   'image/jpeg',
   'image/png',
   'image/gif',
@@ -25,19 +31,11 @@ const ALLOWED_MIME_TYPES = [
 // Maximum file size (10MB)
 const MAX_FILE_SIZE = parseInt(process.env.MAX_FILE_SIZE || '10485760');
 
-// Upload directory
-const UPLOAD_DIR = process.env.UPLOAD_DIR || 'uploads';
+// Maximum size of resumable uploads (2GB)
+export const MAX_RESUMABLE_FILE_SIZE = parseInt(process.env.MAX_RESUMABLE_FILE_SIZE || '2147483648');
 
-// Ensure upload directory exists
-const ensureUploadDir = (): void => {
-  if (!fs.existsSync(UPLOAD_DIR)) {
-    fs.mkdirSync(UPLOAD_DIR, { recursive: true });
-    logger.info(`Created upload directory: ${UPLOAD_DIR}`);
-  }
-};
-
-// Generate unique filename
-const generateFilename = (originalName: string): string => {
+// Generate unique filename, also used as the storage key
+export const generateFilename = (originalName: string): string => {
   const ext = path.extname(originalName);
   const name = path.basename(originalName, ext);
   const timestamp = Date.now();
@@ -45,17 +43,59 @@ const generateFilename = (originalName: string): string => {
   return `${name}_${timestamp}_${random}${ext}`;
 };
 
-// Multer storage configuration
-const storage = multer.diskStorage({
-  destination: (req: Request, file: Express.Multer.File, cb) => {
-    ensureUploadDir();
-    cb(null, UPLOAD_DIR);
-  },
-  filename: (req: Request, file: Express.Multer.File, cb) => {
+// Number of leading bytes inspected to detect the real file type
+const SNIFF_LENGTH = 4096;
+
+// Uploaded file with the SHA-256 checksum and the type detected from its content
+export interface StoredUpload extends Express.Multer.File {
+  checksum: string;
+  detectedMimetype: string | null;
+}
+
+// Stream that hashes content passing through and keeps its leading bytes for type detection
+export const inspectContent = () => {
+  const hash = crypto.createHash('sha256');
+  let head = Buffer.alloc(0);
+  const stream = new Transform({
+    transform(chunk, encoding, callback) {
+      hash.update(chunk);
+      if (head.length < SNIFF_LENGTH) {
+        head = Buffer.concat([head, chunk]).subarray(0, SNIFF_LENGTH);
+      }
+      callback(null, chunk);
+    }
+  });
+
+  // Only call once the stream has ended
+  const result = () => ({
+    checksum: hash.digest('hex'),
+    detectedMimetype: FileUtils.detectMimeType(head)
+  });
+
+  return { stream, result };
+};
+
+// Multer storage engine that streams uploads to the configured storage provider
+// The content is hashed and its leading bytes kept for type detection on the way
+const storageEngine: multer.StorageEngine = {
+  _handleFile: (req: Request, file: Express.Multer.File, cb) => {
     const filename = generateFilename(file.originalname);
-    cb(null, filename);
+    const inspector = inspectContent();
+
+    storage.put(filename, file.stream.pipe(inspector.stream))
+      .then(({ size }) => cb(null, {
+        filename,
+        size,
+        ...inspector.result()
+      } as Partial<StoredUpload>))
+      .catch(cb);
+  },
+  _removeFile: (req: Request, file: Express.Multer.File, cb) => {
+    storage.delete(file.filename)
+      .then(() => cb(null))
+      .catch(cb);
   }
-});
+};
 
 // File filter function
 const fileFilter = (
@@ -86,7 +126,7 @@ const fileFilter = (
 
 // Multer configuration
 const upload = multer({
-  storage,
+  storage: storageEngine,
   fileFilter,
   limits: {
     fileSize: MAX_FILE_SIZE,
@@ -105,6 +145,28 @@ export const uploadMultiple = (fieldName: string = 'files', maxCount: number = 5
   return upload.array(fieldName, maxCount);
 };
 
+// Bytes of a multipart body that are not file contents: boundaries, part headers and small form fields
+const MULTIPART_OVERHEAD = 16 * 1024;
+
+// Middleware factory that rejects uploads exceeding a storage quota before multer stores anything
+// Content-Length only approximates the file sizes, the controller checks the stored sizes again
+export const checkUploadQuota = (loader: ResourceLoader) => {
+  return async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const length = parseInt(req.get('Content-Length') || '') - MULTIPART_OVERHEAD;
+      const context = length > 0 ? await loader(req) : null;
+      if (context && context.issue) {
+        await StorageQuota.assertAvailable(req.user!, context.issue, length);
+      }
+      next();
+    } catch (error) {
+      // The body is not read, so the connection cannot be reused
+      res.setHeader('Connection', 'close');
+      next(error);
+    }
+  };
+};
+
 // Upload error handler middleware
 export const handleUploadError = (
   error: any,
@@ -145,7 +207,7 @@ export const handleUploadError = (
     return;
   }
 
-  if (error instanceof FileUploadError) {
+  if (error instanceof FileUploadError || error instanceof QuotaExceededError) {
     next(error);
     return;
   }
@@ -154,54 +216,76 @@ export const handleUploadError = (
   next(new FileUploadError('File upload failed'));
 };
 
+// Check the type detected from a file's content against its declared type and extension
+// Returns the reason the file is rejected, or null when it is acceptable
+export const checkDetectedType = (originalName: string, mimetype: string, detected: string | null): string | null => {
+  if (!detected) {
+    return `Content of ${originalName} does not match any allowed file type`;
+  }
+
+  if (!FileUtils.isMimeTypeCompatible(mimetype, detected)) {
+    return `Content of ${originalName} does not match its declared type ${mimetype}`;
+  }
+
+  const extensionType = FileUtils.getMimeTypeFromExtension(FileUtils.getFileExtension(originalName));
+  if (extensionType !== 'application/octet-stream' && !FileUtils.isMimeTypeCompatible(extensionType, detected)) {
+    return `Content of ${originalName} does not match its file extension`;
+  }
+
+  return null;
+};
+
 // File validation middleware (for additional checks after upload)
+// Compares the type detected from each file's content with its declared type and extension
 export const validateUploadedFile = (
   req: Request,
   res: Response,
   next: NextFunction
 ): void => {
-  const file = req.file;
-  
-  if (!file) {
-    next(new FileUploadError('No file uploaded'));
-    return;
+  const files = (req.files && Array.isArray(req.files) ? req.files : [req.file]) as (StoredUpload | undefined)[];
+
+  for (const file of files) {
+    if (!file) continue;
+
+    const rejection = checkDetectedType(file.originalname, file.mimetype, file.detectedMimetype);
+    if (rejection) {
+      next(new FileUploadError(rejection));
+      return;
+    }
+
+    logger.info(`File uploaded successfully: ${file.originalname} (${file.size} bytes, detected ${file.detectedMimetype})`);
   }
 
-  // Additional validation can be added here
-  // For example, checking actual file content vs mimetype
-  
-  logger.info(`File uploaded successfully: ${file.originalname} (${file.size} bytes)`);
   next();
 };
 
 // Cleanup function to remove uploaded file on error
-export const cleanupUploadedFile = (filePath: string): void => {
+export const cleanupUploadedFile = async (storageKey: string): Promise<void> => {
   try {
-    if (fs.existsSync(filePath)) {
-      fs.unlinkSync(filePath);
-      logger.info(`Cleaned up uploaded file: ${filePath}`);
+    if (await storage.delete(storageKey)) {
+      logger.info(`Cleaned up uploaded file: ${storageKey}`);
     }
   } catch (error) {
-    logger.error(`Error cleaning up file ${filePath}:`, error);
+    logger.error(`Error cleaning up file ${storageKey}:`, error);
   }
 };
 
 // Middleware to cleanup files on request error
-export const cleanupOnError = (
+export const cleanupOnError = async (
   error: any,
   req: Request,
   res: Response,
   next: NextFunction
-): void => {
+): Promise<void> => {
   // Clean up uploaded files if request failed
   if (req.file) {
-    cleanupUploadedFile(req.file.path);
+    await cleanupUploadedFile(req.file.filename);
   }
   
   if (req.files && Array.isArray(req.files)) {
-    req.files.forEach(file => {
-      cleanupUploadedFile(file.path);
-    });
+    for (const file of req.files) {
+      await cleanupUploadedFile(file.filename);
+    }
   }
   
   next(error);
@@ -214,6 +298,8 @@ export const getFileInfo = (file: Express.Multer.File) => {
     originalName: file.originalname,
     mimetype: file.mimetype,
     size: file.size,
-    path: file.path
+    checksum: (file as StoredUpload).checksum,
+    detectedMimetype: (file as StoredUpload).detectedMimetype,
+    storageKey: file.filename
   };
 };
\ No newline at end of file
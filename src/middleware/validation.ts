@@ -2,6 +2,8 @@ import { Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
 import mongoose from 'mongoose';
 import { ValidationError } from '../utils/errorTypes';
+import { ROLES, PROJECT_ROLES } from '../utils/authorization';
+import { ISSUE_EVENT_TYPES } from '../utils/eventBus';
 
 //Creates a custom Joi extension 'objectId' that validates MongoDB ObjectId format - based on string type, uses mongoose.Types.ObjectId.isValid() 
 //to check validity, and returns custom error message 'Invalid ObjectId format' if value is not a valid ObjectId
@@ -19,6 +21,11 @@ const customJoi = Joi.extend({
   }
 });
 
+//Workflow status keys are data-driven, so only their shape is validated here
+const statusKey = Joi.string().trim().lowercase().pattern(/^[a-z][a-z0-9_-]*$/).max(50).messages({
+  'string.pattern.base': 'Status may only contain letters, numbers, dashes and underscores'
+});
+
 //Validation schemas
 //Defines Joi validation schemas for user registration/login, issue management (create/update/status), 
 //and comment operations with custom error messages, field length limits, and MongoDB ObjectId validation using the custom extension
@@ -40,6 +47,9 @@ export const schemas = {
     lastName: Joi.string().trim().max(50).required().messages({
       'string.max': 'Last name cannot exceed 50 characters',
       'any.required': 'Last name is required'
+    }),
+    username: Joi.string().trim().lowercase().pattern(/^[a-z0-9][a-z0-9._-]{1,29}$/).optional().messages({
+      'string.pattern.base': 'Username must be 2 to 30 letters, numbers, dots, dashes or underscores'
     })
   }),
 
@@ -48,6 +58,29 @@ export const schemas = {
     password: Joi.string().required()
   }),
 
+  forgotPassword: Joi.object({
+    email: Joi.string().email().required().messages({
+      'string.email': 'Please provide a valid email address',
+      'any.required': 'Email is required'
+    })
+  }),
+
+  resetPassword: Joi.object({
+    token: Joi.string().hex().length(64).required().messages({
+      'any.required': 'Reset token is required'
+    }),
+    password: Joi.string().min(6).required().messages({
+      'string.min': 'Password must be at least 6 characters long',
+      'any.required': 'Password is required'
+    })
+  }),
+
+  verifyEmail: Joi.object({
+    token: Joi.string().hex().length(64).required().messages({
+      'any.required': 'Verification token is required'
+    })
+  }),
+
   //Issue schemas
   createIssue: Joi.object({
     title: Joi.string().trim().max(200).required().messages({
@@ -59,18 +92,154 @@ export const schemas = {
       'any.required': 'Description is required'
     }),
     priority: Joi.string().valid('low', 'medium', 'high').default('medium'),
-    assignedTo: customJoi.objectId().optional()
+    assignedTo: customJoi.objectId().optional(),
+    workflow: customJoi.objectId().optional(),
+    labels: Joi.array().items(Joi.string().trim().max(50)).unique().max(20).optional()
   }),
 
   updateIssue: Joi.object({
     title: Joi.string().trim().max(200).optional(),
     description: Joi.string().trim().max(2000).optional(),
     priority: Joi.string().valid('low', 'medium', 'high').optional(),
-    assignedTo: customJoi.objectId().optional().allow(null)
+    assignedTo: customJoi.objectId().optional().allow(null),
+    labels: Joi.array().items(Joi.string().trim().max(50)).unique().max(20).optional(),
+    reason: Joi.string().trim().max(500).optional()
   }),
 
   updateIssueStatus: Joi.object({
-    status: Joi.string().valid('pending', 'complete').required()
+    status: statusKey.required(),
+    reason: Joi.string().trim().max(500).optional()
+  }),
+
+  //Workflow schemas
+  createWorkflow: Joi.object({
+    name: Joi.string().trim().max(100).required().messages({
+      'string.max': 'Workflow name cannot exceed 100 characters',
+      'any.required': 'Workflow name is required'
+    }),
+    description: Joi.string().trim().max(500).allow('').optional(),
+    statuses: Joi.array().items(Joi.object({
+      key: statusKey.required(),
+      name: Joi.string().trim().max(50).required(),
+      isInitial: Joi.boolean().default(false),
+      isFinal: Joi.boolean().default(false)
+    })).min(1).required(),
+    transitions: Joi.array().items(Joi.object({
+      from: statusKey.required(),
+      to: statusKey.required()
+    })).default([]),
+    isDefault: Joi.boolean().default(false)
+  }),
+
+  updateWorkflow: Joi.object({
+    name: Joi.string().trim().max(100).optional(),
+    description: Joi.string().trim().max(500).allow('').optional(),
+    statuses: Joi.array().items(Joi.object({
+      key: statusKey.required(),
+      name: Joi.string().trim().max(50).required(),
+      isInitial: Joi.boolean().default(false),
+      isFinal: Joi.boolean().default(false)
+    })).min(1).optional(),
+    transitions: Joi.array().items(Joi.object({
+      from: statusKey.required(),
+      to: statusKey.required()
+    })).optional(),
+    isDefault: Joi.boolean().optional()
+  }),
+
+  //Project schemas
+  createProject: Joi.object({
+    name: Joi.string().trim().max(100).required().messages({
+      'string.max': 'Project name cannot exceed 100 characters',
+      'any.required': 'Project name is required'
+    }),
+    key: Joi.string().trim().uppercase().pattern(/^[A-Z][A-Z0-9]{1,9}$/).required().messages({
+      'string.pattern.base': 'Project key must be 2-10 letters or digits, starting with a letter',
+      'any.required': 'Project key is required'
+    }),
+    description: Joi.string().trim().max(1000).allow('').optional(),
+    workflow: customJoi.objectId().optional()
+  }),
+
+  updateProject: Joi.object({
+    name: Joi.string().trim().max(100).optional(),
+    description: Joi.string().trim().max(1000).allow('').optional(),
+    workflow: customJoi.objectId().optional().allow(null)
+  }),
+
+  addProjectMember: Joi.object({
+    userId: customJoi.objectId().required(),
+    role: Joi.string().valid(...PROJECT_ROLES).default('member')
+  }),
+
+  updateProjectMemberRole: Joi.object({
+    role: Joi.string().valid(...PROJECT_ROLES).required().messages({
+      'any.only': `Role must be one of: ${PROJECT_ROLES.join(', ')}`,
+      'any.required': 'Role is required'
+    })
+  }),
+
+  //Webhook schemas
+  createWebhook: Joi.object({
+    url: Joi.string().trim().uri({ scheme: ['http', 'https'] }).required().messages({
+      'string.uriCustomScheme': 'Webhook URL must be an http or https URL',
+      'any.required': 'Webhook URL is required'
+    }),
+    secret: Joi.string().min(16).max(256).optional().messages({
+      'string.min': 'Webhook secret must be at least 16 characters long'
+    }),
+    events: Joi.array().items(Joi.string().valid(...ISSUE_EVENT_TYPES, '*')).min(1).unique().required().messages({
+      'array.min': 'Webhook must subscribe to at least one event',
+      'any.required': 'Webhook events are required'
+    }),
+    project: customJoi.objectId().optional(),
+    description: Joi.string().trim().max(500).allow('').optional(),
+    active: Joi.boolean().default(true)
+  }),
+
+  updateWebhook: Joi.object({
+    url: Joi.string().trim().uri({ scheme: ['http', 'https'] }).optional(),
+    secret: Joi.string().min(16).max(256).optional(),
+    events: Joi.array().items(Joi.string().valid(...ISSUE_EVENT_TYPES, '*')).min(1).unique().optional(),
+    project: customJoi.objectId().optional().allow(null),
+    description: Joi.string().trim().max(500).allow('').optional(),
+    active: Joi.boolean().optional()
+  }),
+
+  //User administration schemas
+  updateUserRole: Joi.object({
+    role: Joi.string().valid(...ROLES).required().messages({
+      'any.only': `Role must be one of: ${ROLES.join(', ')}`,
+      'any.required': 'Role is required'
+    })
+  }),
+
+  //Storage quota schemas
+  updateStorageQuota: Joi.object({
+    storageQuota: Joi.number().integer().min(0).allow(null).required().messages({
+      'number.min': 'Storage quota cannot be negative',
+      'any.required': 'Storage quota is required, use null for the default quota'
+    })
+  }),
+
+  //Label schemas
+  createLabel: Joi.object({
+    name: Joi.string().trim().max(50).required().messages({
+      'string.max': 'Label name cannot exceed 50 characters',
+      'any.required': 'Label name is required'
+    }),
+    color: Joi.string().trim().pattern(/^#[0-9a-fA-F]{6}$/).optional().messages({
+      'string.pattern.base': 'Color must be a hex value such as #1d76db'
+    }),
+    description: Joi.string().trim().max(200).allow('').optional()
+  }),
+
+  updateLabel: Joi.object({
+    name: Joi.string().trim().max(50).optional(),
+    color: Joi.string().trim().pattern(/^#[0-9a-fA-F]{6}$/).optional().messages({
+      'string.pattern.base': 'Color must be a hex value such as #1d76db'
+    }),
+    description: Joi.string().trim().max(200).allow('').optional()
   }),
 
   //Comment schemas
@@ -86,22 +255,82 @@ export const schemas = {
     content: Joi.string().trim().min(1).max(1000).required()
   }),
 
+  //Upload schemas
+  createUploadSession: Joi.object({
+    filename: Joi.string().trim().min(1).max(255).required().messages({
+      'any.required': 'Filename is required'
+    }),
+    mimetype: Joi.string().trim().lowercase().max(100).required().messages({
+      'any.required': 'File mimetype is required'
+    }),
+    size: Joi.number().integer().min(1).required().messages({
+      'number.min': 'File size must be at least 1 byte',
+      'any.required': 'File size is required'
+    }),
+    checksum: Joi.string().trim().lowercase().hex().length(64).required().messages({
+      'string.hex': 'Checksum must be a hex SHA-256 digest',
+      'string.length': 'Checksum must be a hex SHA-256 digest',
+      'any.required': 'Checksum is required'
+    })
+  }),
+
   //Query parameters
   issueQuery: Joi.object({
-    status: Joi.string().valid('pending', 'complete').optional(),
+    status: statusKey.optional(),
     priority: Joi.string().valid('low', 'medium', 'high').optional(),
     assignedTo: customJoi.objectId().optional(),
     createdBy: customJoi.objectId().optional(),
+    labels: Joi.string().trim().max(500).optional(),
+    labelMatch: Joi.string().valid('any', 'all').default('any'),
     search: Joi.string().trim().max(100).optional(),
     page: Joi.number().integer().min(1).default(1),
     limit: Joi.number().integer().min(1).max(100).default(20)
   }),
 
+  mentionableQuery: Joi.object({
+    q: Joi.string().trim().max(100).allow('').optional(),
+    issueId: customJoi.objectId().required().messages({
+      'any.required': 'Issue ID is required'
+    }),
+    limit: Joi.number().integer().min(1).max(25).default(10)
+  }),
+
+  notificationQuery: Joi.object({
+    unread: Joi.boolean().optional(),
+    page: Joi.number().integer().min(1).default(1),
+    limit: Joi.number().integer().min(1).max(50).default(20)
+  }),
+
   commentQuery: Joi.object({
     page: Joi.number().integer().min(1).default(1),
     limit: Joi.number().integer().min(1).max(50).default(20)
   }),
 
+  streamQuery: Joi.object({
+    issue: customJoi.objectId().optional(),
+    assignee: Joi.alternatives().try(Joi.string().valid('me'), customJoi.objectId()).optional(),
+    project: customJoi.objectId().optional()
+  }),
+
+  downloadQuery: Joi.object({
+    disposition: Joi.string().valid('inline', 'attachment').optional(),
+    expires: Joi.number().integer().optional(),
+    signature: Joi.string().hex().length(64).optional()
+  }),
+
+  archiveQuery: Joi.object({
+    files: Joi.string().pattern(/^[a-f0-9]{24}(,[a-f0-9]{24})*$/i).optional().messages({
+      'string.pattern.base': 'Files must be a comma-separated list of file IDs'
+    }),
+    manifest: Joi.boolean().optional()
+  }),
+
+  thumbnailQuery: Joi.object({
+    size: Joi.string().valid('small', 'medium', 'large').optional(),
+    expires: Joi.number().integer().optional(),
+    signature: Joi.string().hex().length(64).optional()
+  }),
+
   //Parameter validation
   objectIdParam: Joi.object({
     id: customJoi.objectId().required()
@@ -109,6 +338,35 @@ export const schemas = {
 
   issueIdParam: Joi.object({
     issueId: customJoi.objectId().required()
+  }),
+
+  projectIdParam: Joi.object({
+    projectId: customJoi.objectId().required()
+  }),
+
+  projectIssueParams: Joi.object({
+    projectId: customJoi.objectId().required(),
+    issueRef: Joi.alternatives().try(
+      customJoi.objectId(),
+      Joi.string().pattern(/^[A-Za-z][A-Za-z0-9]{1,9}-[0-9]+$/)
+    ).required().messages({
+      'alternatives.match': 'Issue reference must be an issue ID or key such as PAY-142'
+    })
+  }),
+
+  projectMemberParams: Joi.object({
+    projectId: customJoi.objectId().required(),
+    userId: customJoi.objectId().required()
+  }),
+
+  fileVersionParams: Joi.object({
+    id: customJoi.objectId().required(),
+    version: Joi.number().integer().min(1).required()
+  }),
+
+  webhookDeliveryParams: Joi.object({
+    id: customJoi.objectId().required(),
+    deliveryId: customJoi.objectId().required()
   })
 };
 
@@ -146,15 +404,42 @@ export const validate = (schema: Joi.ObjectSchema, property: 'body' | 'query' |
 //Specific validation middleware
 export const validateRegister = validate(schemas.register);
 export const validateLogin = validate(schemas.login);
+export const validateForgotPassword = validate(schemas.forgotPassword);
+export const validateResetPassword = validate(schemas.resetPassword);
+export const validateVerifyEmail = validate(schemas.verifyEmail);
 export const validateCreateIssue = validate(schemas.createIssue);
 export const validateUpdateIssue = validate(schemas.updateIssue);
 export const validateUpdateIssueStatus = validate(schemas.updateIssueStatus);
 export const validateCreateComment = validate(schemas.createComment);
 export const validateUpdateComment = validate(schemas.updateComment);
+export const validateCreateWorkflow = validate(schemas.createWorkflow);
+export const validateUpdateWorkflow = validate(schemas.updateWorkflow);
+export const validateCreateLabel = validate(schemas.createLabel);
+export const validateUpdateLabel = validate(schemas.updateLabel);
+export const validateCreateProject = validate(schemas.createProject);
+export const validateUpdateProject = validate(schemas.updateProject);
+export const validateAddProjectMember = validate(schemas.addProjectMember);
+export const validateUpdateProjectMemberRole = validate(schemas.updateProjectMemberRole);
+export const validateUpdateUserRole = validate(schemas.updateUserRole);
+export const validateUpdateStorageQuota = validate(schemas.updateStorageQuota);
+export const validateCreateWebhook = validate(schemas.createWebhook);
+export const validateUpdateWebhook = validate(schemas.updateWebhook);
+export const validateCreateUploadSession = validate(schemas.createUploadSession);
 export const validateIssueQuery = validate(schemas.issueQuery, 'query');
 export const validateCommentQuery = validate(schemas.commentQuery, 'query');
+export const validateMentionableQuery = validate(schemas.mentionableQuery, 'query');
+export const validateNotificationQuery = validate(schemas.notificationQuery, 'query');
+export const validateStreamQuery = validate(schemas.streamQuery, 'query');
+export const validateDownloadQuery = validate(schemas.downloadQuery, 'query');
+export const validateArchiveQuery = validate(schemas.archiveQuery, 'query');
+export const validateThumbnailQuery = validate(schemas.thumbnailQuery, 'query');
 export const validateObjectIdParam = validate(schemas.objectIdParam, 'params');
 export const validateIssueIdParam = validate(schemas.issueIdParam, 'params');
+export const validateProjectIdParam = validate(schemas.projectIdParam, 'params');
+export const validateProjectIssueParams = validate(schemas.projectIssueParams, 'params');
+export const validateProjectMemberParams = validate(schemas.projectMemberParams, 'params');
+export const validateFileVersionParams = validate(schemas.fileVersionParams, 'params');
+export const validateWebhookDeliveryParams = validate(schemas.webhookDeliveryParams, 'params');
 
 //Combined validation for routes with multiple validations
 export const validateIssueRouteParams = [
@@ -5,9 +5,10 @@ import { logger } from '../utils/logger';
 // Generic factory pattern for Comment model
 const commentSchema = new Schema<IComment>(
   {
+    // Removed from deleted comments that are kept as placeholders for their replies
     content: {
       type: String,
-      required: [true, 'Comment content is required'],
+      required: [function(this: IComment) { return !this.deleted; }, 'Comment content is required'],
       trim: true,
       maxlength: [1000, 'Comment cannot exceed 1000 characters'],
       minlength: [1, 'Comment cannot be empty']
@@ -21,7 +22,46 @@ const commentSchema = new Schema<IComment>(
       type: Schema.Types.ObjectId,
       ref: 'User',
       required: [true, 'User ID is required']
-    }
+    },
+    // Comment replied to, null for comments on the issue itself
+    parentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Comment',
+      default: null
+    },
+    // Top-level comment of the thread, null for top-level comments
+    threadId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Comment',
+      default: null
+    },
+    depth: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    deleted: {
+      type: Boolean,
+      default: false
+    },
+    deletedAt: {
+      type: Date,
+      default: null
+    },
+    // Earlier content is kept as CommentRevision documents
+    edited: {
+      type: Boolean,
+      default: false
+    },
+    editedAt: {
+      type: Date,
+      default: null
+    },
+    // Users mentioned with @handle in the current content
+    mentions: [{
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    }]
   },
   {
     timestamps: true,
@@ -38,24 +78,77 @@ const commentSchema = new Schema<IComment>(
 //Indexes for better performance
 commentSchema.index({ issueId: 1, createdAt: -1 });
 commentSchema.index({ userId: 1 });
+commentSchema.index({ threadId: 1, createdAt: 1 });
+commentSchema.index({ parentId: 1 });
 
-//Static method to get comments for an issue with pagination
-commentSchema.statics.getCommentsForIssue = function(
+//Static method to get the threads of an issue with pagination, newest first
+//Each comment carries its replies oldest first and the number of direct replies
+commentSchema.statics.getCommentsForIssue = async function(
   issueId: string,
   page: number = 1,
   limit: number = 20
 ) {
   const skip = (page - 1) * limit;
-  
-  return Promise.all([
-    this.find({ issueId })
+  // Comments created before replies existed have no parentId
+  const topLevel = { issueId, parentId: null };
+
+  const [threads, total] = await Promise.all([
+    this.find(topLevel)
       .populate('userId', 'firstName lastName email')
       .sort({ createdAt: -1 })
       .skip(skip)
       .limit(limit)
       .lean(),
-    this.countDocuments({ issueId })
+    this.countDocuments(topLevel)
   ]);
+
+  const replies = await this.find({ threadId: { $in: threads.map((thread: any) => thread._id) } })
+    .populate('userId', 'firstName lastName email')
+    .sort({ createdAt: 1 })
+    .lean();
+
+  const byId = new Map<string, any>();
+  for (const comment of [...threads, ...replies]) {
+    byId.set(comment._id.toString(), Object.assign(comment, { replies: [], replyCount: 0 }));
+  }
+  for (const reply of replies) {
+    const parent = byId.get(reply.parentId.toString());
+    if (parent) {
+      parent.replies.push(reply);
+      parent.replyCount++;
+    }
+  }
+
+  return [threads, total];
+};
+
+//Method to delete a comment without orphaning its replies
+//A comment with replies becomes a placeholder, placeholders are removed with their last reply
+commentSchema.methods.removeFromThread = async function(): Promise<'deleted' | 'placeholder'> {
+  const model = this.constructor as mongoose.Model<IComment>;
+
+  // Earlier content is removed together with the content itself
+  await mongoose.model('CommentRevision').deleteMany({ commentId: this._id });
+
+  if (await model.exists({ parentId: this._id })) {
+    await model.updateOne(
+      { _id: this._id },
+      { $set: { deleted: true, deletedAt: new Date() }, $unset: { content: 1 } }
+    );
+    return 'placeholder';
+  }
+
+  await model.findByIdAndDelete(this._id);
+
+  let parentId = this.parentId;
+  while (parentId) {
+    const parent = await model.findOne({ _id: parentId, deleted: true });
+    if (!parent || await model.exists({ parentId })) break;
+
+    await model.deleteOne({ _id: parentId });
+    parentId = parent.parentId;
+  }
+  return 'deleted';
 };
 
 //Post middleware to update issue's comments array when comment is created
@@ -0,0 +1,60 @@
+import mongoose, { Schema } from 'mongoose';
+import { ICommentRevision } from '../types';
+
+// Generic factory pattern for CommentRevision model
+const commentRevisionSchema = new Schema<ICommentRevision>(
+  {
+    commentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Comment',
+      required: [true, 'Comment ID is required']
+    },
+    issueId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Issue',
+      required: [true, 'Issue ID is required']
+    },
+    // Content of the comment before the edit
+    content: {
+      type: String,
+      required: [true, 'Revision content is required']
+    },
+    // When the replaced content was written, the creation or previous edit of the comment
+    authoredAt: {
+      type: Date,
+      required: [true, 'Authored date is required']
+    },
+    editedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Edited by user ID is required']
+    }
+  },
+  {
+    // Revisions are immutable, so only the creation time is tracked
+    timestamps: { createdAt: true, updatedAt: false },
+    toJSON: {
+      virtuals: true,
+      transform: function(doc, ret: any) {
+        delete ret.__v;
+        return ret;
+      }
+    }
+  }
+);
+
+//Indexes for better performance
+commentRevisionSchema.index({ commentId: 1, createdAt: 1 });
+commentRevisionSchema.index({ issueId: 1 });
+
+//Static method to get the revisions of a comment, oldest first and numbered from 1
+commentRevisionSchema.statics.getRevisionsForComment = async function(commentId: mongoose.Types.ObjectId | string) {
+  const revisions = await this.find({ commentId })
+    .populate('editedBy', 'firstName lastName email')
+    .sort({ createdAt: 1, _id: 1 })
+    .lean();
+
+  return revisions.map((revision: any, index: number) => ({ revision: index + 1, ...revision }));
+};
+
+export const CommentRevision = mongoose.model<ICommentRevision>('CommentRevision', commentRevisionSchema);
@@ -1,8 +1,10 @@
 import mongoose, { Schema } from 'mongoose';
-import { IFile } from '../types';
-import fs from 'fs';
+import { IFile, FileIntegrityStatus } from '../types';
 import path from 'path';
 import { logger } from '../utils/logger';
+import { storage } from '../utils/storage';
+import { FileBlob } from './FileBlob';
+import { Thumbnails } from '../utils/thumbnails';
 
 // Generic factory pattern for File model
 const fileSchema = new Schema<IFile>(
@@ -21,14 +23,35 @@ const fileSchema = new Schema<IFile>(
       type: String,
       required: [true, 'File mimetype is required']
     },
+    // Type detected from the leading bytes of the content
+    detectedMimetype: {
+      type: String
+    },
     size: {
       type: Number,
       required: [true, 'File size is required'],
       min: [0, 'File size cannot be negative']
     },
-    path: {
+    // Hex SHA-256 of the contents, also used as the download ETag
+    checksum: {
+      type: String,
+      match: [/^[a-f0-9]{64}$/, 'Checksum must be a hex SHA-256 digest']
+    },
+    storageKey: {
       type: String,
-      required: [true, 'File path is required']
+      required: [true, 'File storage key is required']
+    },
+    scanStatus: {
+      type: String,
+      enum: ['pending', 'clean', 'infected', 'error'],
+      default: 'pending'
+    },
+    // Name of the malware found, when infected
+    scanSignature: {
+      type: String
+    },
+    scannedAt: {
+      type: Date
     },
     issueId: {
       type: Schema.Types.ObjectId,
@@ -43,6 +66,23 @@ const fileSchema = new Schema<IFile>(
     uploadedAt: {
       type: Date,
       default: Date.now
+    },
+    // Revision number, counted per attachment starting at 1
+    version: {
+      type: Number,
+      default: 1,
+      min: [1, 'Version must be at least 1']
+    },
+    // First version of the attachment, null for the first version itself
+    versionOf: {
+      type: Schema.Types.ObjectId,
+      ref: 'File',
+      default: null
+    },
+    // Only the latest version of an attachment is listed for its issue
+    isLatest: {
+      type: Boolean,
+      default: true
     }
   },
   {
@@ -51,7 +91,7 @@ const fileSchema = new Schema<IFile>(
       virtuals: true,
       transform: function(doc, ret: any) {
         delete ret.__v;
-        delete ret.path; // Don't expose file system path
+        delete ret.storageKey; // Don't expose storage location
         return ret;
       }
     }
@@ -61,6 +101,16 @@ const fileSchema = new Schema<IFile>(
 //Indexes for better performance
 fileSchema.index({ issueId: 1, uploadedAt: -1 });
 fileSchema.index({ uploadedBy: 1 });
+fileSchema.index({ checksum: 1 });
+fileSchema.index({ storageKey: 1 });
+fileSchema.index({ scanStatus: 1 });
+// Version numbers are unique per attachment
+fileSchema.index({ versionOf: 1, version: 1 }, { unique: true, partialFilterExpression: { versionOf: { $type: 'objectId' } } });
+
+//Virtual for the ID shared by all versions of an attachment
+fileSchema.virtual('attachmentId').get(function() {
+  return this.versionOf || this._id;
+});
 
 //Virtual for file extension
 fileSchema.virtual('extension').get(function() {
@@ -79,33 +129,72 @@ fileSchema.virtual('sizeFormatted').get(function() {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
 });
 
-//Static method to get files for an issue
+//Static method to get files for an issue, only the latest version of each attachment is included
+//Files uploaded before versioning have no isLatest flag and count as latest
 fileSchema.statics.getFilesForIssue = function(issueId: string) {
-  return this.find({ issueId })
+  return this.find({ issueId, isLatest: { $ne: false } })
     .populate('uploadedBy', 'firstName lastName email')
     .sort({ uploadedAt: -1 })
     .lean();
 };
 
-//Method to check if file exists on disk
-fileSchema.methods.fileExists = function(): boolean {
+//Static method to get all versions of an attachment, newest first
+fileSchema.statics.getVersions = function(attachmentId: mongoose.Types.ObjectId | string) {
+  return this.find({ $or: [{ _id: attachmentId }, { versionOf: attachmentId }] })
+    .populate('uploadedBy', 'firstName lastName email')
+    .sort({ version: -1 });
+};
+
+//Static method to mark the newest remaining version of an attachment as the latest
+//Used after a version was added or deleted
+fileSchema.statics.refreshLatestVersion = async function(attachmentId: mongoose.Types.ObjectId | string): Promise<void> {
+  const versions = { $or: [{ _id: attachmentId }, { versionOf: attachmentId }] };
+  const latest = await this.findOne(versions).sort({ version: -1 }).select('_id');
+  if (!latest) {
+    return;
+  }
+
+  await this.updateMany({ ...versions, _id: { $ne: latest._id } }, { isLatest: false });
+  await this.updateOne({ _id: latest._id }, { isLatest: true });
+};
+
+//Method to check if file exists in storage
+fileSchema.methods.existsInStorage = async function(): Promise<boolean> {
   try {
-    return fs.existsSync(this.path);
+    return await storage.exists(this.storageKey);
   } catch (error) {
+    logger.error('Error checking file in storage:', error);
     return false;
   }
 };
 
-//Method to delete file from disk
-fileSchema.methods.deleteFromDisk = function(): boolean {
+//Method to compare the stored contents with the recorded checksum
+//Files uploaded before checksums were recorded can only be checked for presence
+fileSchema.methods.verifyIntegrity = async function(): Promise<FileIntegrityStatus> {
+  if (!this.checksum) {
+    return (await storage.exists(this.storageKey)) ? 'unverified' : 'missing';
+  }
+
+  const checksum = await storage.computeChecksum(this.storageKey);
+  if (checksum === null) {
+    return 'missing';
+  }
+  return checksum === this.checksum ? 'ok' : 'corrupted';
+};
+
+//Method to delete file from storage
+//Contents shared with other files through a blob are kept until the last reference is gone
+//Thumbnails are deleted together with the contents they were made from
+fileSchema.methods.deleteFromStorage = async function(): Promise<boolean> {
   try {
-    if (this.fileExists()) {
-      fs.unlinkSync(this.path);
-      return true;
+    const released = this.checksum ? await (FileBlob as any).release(this.checksum) : null;
+    const deleted = released ? released === 'deleted' : await storage.delete(this.storageKey);
+    if (deleted) {
+      await Thumbnails.deleteAll(this.storageKey);
     }
-    return false;
+    return deleted;
   } catch (error) {
-    logger.error('Error deleting file from disk:', error);
+    logger.error('Error deleting file from storage:', error);
     return false;
   }
 };
@@ -122,20 +211,20 @@ fileSchema.post('save', async function() {
   }
 });
 
-//Pre middleware to delete file from disk when document is deleted
-fileSchema.pre('deleteOne', { document: true }, function(this: IFile) {
-  this.deleteFromDisk();
+//Pre middleware to delete file from storage when document is deleted
+fileSchema.pre('deleteOne', { document: true }, async function(this: IFile) {
+  await this.deleteFromStorage();
 });
 
 // Pre middleware for findOneAndDelete
 fileSchema.pre('findOneAndDelete', async function() {
   try {
     const file = await this.model.findOne(this.getQuery()) as IFile;
-    if (file && file.fileExists()) {
-      file.deleteFromDisk();
+    if (file) {
+      await file.deleteFromStorage();
     }
   } catch (error) {
-    logger.error('Error deleting file from disk:', error);
+    logger.error('Error deleting file from storage:', error);
   }
 });
 
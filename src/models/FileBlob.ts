@@ -0,0 +1,90 @@
+import mongoose, { Schema } from 'mongoose';
+import { IFileBlob } from '../types';
+import { storage } from '../utils/storage';
+import { logger } from '../utils/logger';
+
+// Generic factory pattern for FileBlob model
+// Identical uploads share one stored object, counted by the files referencing it
+const fileBlobSchema = new Schema<IFileBlob>(
+  {
+    checksum: {
+      type: String,
+      required: [true, 'Checksum is required'],
+      unique: true,
+      match: [/^[a-f0-9]{64}$/, 'Checksum must be a hex SHA-256 digest']
+    },
+    storageKey: {
+      type: String,
+      required: [true, 'Storage key is required']
+    },
+    size: {
+      type: Number,
+      required: [true, 'Blob size is required'],
+      min: [0, 'Blob size cannot be negative']
+    },
+    refCount: {
+      type: Number,
+      default: 1,
+      min: [0, 'Reference count cannot be negative']
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: function(doc, ret: any) {
+        delete ret.__v;
+        delete ret.storageKey;
+        return ret;
+      }
+    }
+  }
+);
+
+//Static method to reference the blob for an upload that was just stored under storageKey
+//When the contents are already stored, the new copy is deleted and the existing blob is shared
+fileBlobSchema.statics.acquire = async function(checksum: string, storageKey: string, size: number): Promise<IFileBlob> {
+  const existing = await this.findOneAndUpdate({ checksum }, { $inc: { refCount: 1 } }, { new: true });
+  if (existing) {
+    if (existing.storageKey !== storageKey) {
+      await storage.delete(storageKey);
+    }
+    return existing;
+  }
+
+  try {
+    return await this.create({ checksum, storageKey, size, refCount: 1 });
+  } catch (error: any) {
+    // A concurrent upload of the same contents created the blob first
+    if (error.code === 11000) {
+      return (this as any).acquire(checksum, storageKey, size);
+    }
+    throw error;
+  }
+};
+
+//Static method to drop one reference, deleting the stored object with the last one
+//Returns null when no blob exists for the checksum
+fileBlobSchema.statics.release = async function(checksum: string): Promise<'released' | 'deleted' | null> {
+  const blob = await this.findOneAndUpdate({ checksum }, { $inc: { refCount: -1 } }, { new: true });
+  if (!blob) {
+    return null;
+  }
+  if (blob.refCount > 0) {
+    return 'released';
+  }
+
+  // Only delete when no upload acquired the blob again in the meantime
+  const removed = await this.deleteOne({ _id: blob._id, refCount: { $lte: 0 } });
+  if (removed.deletedCount === 0) {
+    return 'released';
+  }
+
+  try {
+    await storage.delete(blob.storageKey);
+  } catch (error) {
+    logger.error(`Error deleting blob ${checksum} from storage:`, error);
+  }
+  return 'deleted';
+};
+
+export const FileBlob = mongoose.model<IFileBlob>('FileBlob', fileBlobSchema);
@@ -19,7 +19,8 @@ const issueSchema = new Schema<IIssue>(
     },
     status: {
       type: String,
-      enum: ['pending', 'complete'],
+      trim: true,
+      lowercase: true,
       default: 'pending',
       required: true
     },
@@ -29,6 +30,29 @@ const issueSchema = new Schema<IIssue>(
       default: 'medium',
       required: true
     },
+    project: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      required: false
+    },
+    key: {
+      type: String,
+      trim: true,
+      uppercase: true
+    },
+    number: {
+      type: Number,
+      min: 1
+    },
+    workflow: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workflow',
+      required: false
+    },
+    labels: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Label'
+    }],
     assignedTo: {
       type: Schema.Types.ObjectId,
       ref: 'User',
@@ -46,6 +70,16 @@ const issueSchema = new Schema<IIssue>(
     files: [{
       type: Schema.Types.ObjectId,
       ref: 'File'
+    }],
+    // Users mentioned with @handle in the title or description
+    mentions: [{
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    }],
+    // Users notified about status changes, e.g. the creator, the assignee and commenters
+    followers: [{
+      type: Schema.Types.ObjectId,
+      ref: 'User'
     }]
   },
   {
@@ -65,6 +99,9 @@ issueSchema.index({ status: 1 });
 issueSchema.index({ priority: 1 });
 issueSchema.index({ createdBy: 1 });
 issueSchema.index({ assignedTo: 1 });
+issueSchema.index({ labels: 1 });
+issueSchema.index({ project: 1, createdAt: -1 });
+issueSchema.index({ key: 1 }, { unique: true, sparse: true });
 issueSchema.index({ createdAt: -1 });
 issueSchema.index({ title: 'text', description: 'text' });
 
@@ -91,6 +128,8 @@ issueSchema.statics.getPaginatedIssues = function(
     this.find(filter)
       .populate('createdBy', 'firstName lastName email')
       .populate('assignedTo', 'firstName lastName email')
+      .populate('labels', 'name color')
+      .populate('project', 'name key')
       .sort(sort)
       .skip(skip)
       .limit(limit)
@@ -99,11 +138,32 @@ issueSchema.statics.getPaginatedIssues = function(
   ]);
 };
 
+//Static method to let users follow an issue, users already following it are skipped
+issueSchema.statics.addFollowers = function(
+  issueId: mongoose.Types.ObjectId | string,
+  userIds: (mongoose.Types.ObjectId | string)[]
+) {
+  return this.updateOne({ _id: issueId }, { $addToSet: { followers: { $each: userIds } } });
+};
+
+//Static method to stop a user from following an issue
+issueSchema.statics.removeFollower = function(
+  issueId: mongoose.Types.ObjectId | string,
+  userId: mongoose.Types.ObjectId | string
+) {
+  return this.updateOne({ _id: issueId }, { $pull: { followers: userId } });
+};
+
 //Pre-remove middleware to clean up associated comments and files
+//The change history is kept as audit trail, ending with the 'deleted' entry
 issueSchema.pre('deleteOne', { document: true }, async function() {
   try {
     // Remove all comments associated with this issue
     await mongoose.model('Comment').deleteMany({ issueId: this._id });
+    await mongoose.model('CommentRevision').deleteMany({ issueId: this._id });
+
+    // Remove the notifications about this issue
+    await mongoose.model('Notification').deleteMany({ issueId: this._id });
     
     // Remove all files associated with this issue
     const files = await mongoose.model('File').find({ issueId: this._id });
@@ -123,6 +183,10 @@ issueSchema.pre('findOneAndDelete', async function() {
     if (issue) {
       // Remove all comments associated with this issue
       await mongoose.model('Comment').deleteMany({ issueId: issue._id });
+      await mongoose.model('CommentRevision').deleteMany({ issueId: issue._id });
+
+      // Remove the notifications about this issue
+      await mongoose.model('Notification').deleteMany({ issueId: issue._id });
       
       // Remove all files associated with this issue
       const files = await mongoose.model('File').find({ issueId: issue._id });
@@ -0,0 +1,95 @@
+import mongoose, { Schema } from 'mongoose';
+import { IIssueHistory, IIssueFieldChange, IssueHistoryAction } from '../types';
+
+const fieldChangeSchema = new Schema<IIssueFieldChange>(
+  {
+    field: {
+      type: String,
+      required: [true, 'Changed field is required']
+    },
+    from: {
+      type: Schema.Types.Mixed
+    },
+    to: {
+      type: Schema.Types.Mixed
+    }
+  },
+  { _id: false }
+);
+
+// Generic factory pattern for IssueHistory model
+const issueHistorySchema = new Schema<IIssueHistory>(
+  {
+    issueId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Issue',
+      required: [true, 'Issue ID is required']
+    },
+    changedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Changed by user ID is required']
+    },
+    action: {
+      type: String,
+      enum: ['created', 'updated', 'status_changed', 'comment_added', 'comment_removed', 'file_added', 'file_removed', 'deleted'],
+      required: [true, 'History action is required']
+    },
+    changes: {
+      type: [fieldChangeSchema],
+      default: []
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Reason cannot exceed 500 characters']
+    }
+  },
+  {
+    // History entries are immutable, so only the creation time is tracked
+    timestamps: { createdAt: true, updatedAt: false },
+    toJSON: {
+      virtuals: true,
+      transform: function(doc, ret: any) {
+        delete ret.__v;
+        return ret;
+      }
+    }
+  }
+);
+
+//Indexes for better performance
+issueHistorySchema.index({ issueId: 1, createdAt: -1 });
+issueHistorySchema.index({ changedBy: 1 });
+
+//Static method to append an entry to an issue's history
+issueHistorySchema.statics.record = function(
+  issueId: mongoose.Types.ObjectId | string,
+  changedBy: mongoose.Types.ObjectId | string,
+  action: IssueHistoryAction,
+  changes: IIssueFieldChange[] = [],
+  reason?: string
+) {
+  return this.create({ issueId, changedBy, action, changes, reason });
+};
+
+//Static method to get history for an issue with pagination
+issueHistorySchema.statics.getHistoryForIssue = function(
+  issueId: string,
+  page: number = 1,
+  limit: number = 20
+) {
+  const skip = (page - 1) * limit;
+
+  return Promise.all([
+    this.find({ issueId })
+      .populate('changedBy', 'firstName lastName email')
+      .sort({ createdAt: -1, _id: -1 })
+      .skip(skip)
+      .limit(limit)
+      .lean(),
+    this.countDocuments({ issueId })
+  ]);
+};
+
+export const IssueHistory = mongoose.model<IIssueHistory>('IssueHistory', issueHistorySchema);
@@ -0,0 +1,75 @@
+import mongoose, { Schema } from 'mongoose';
+import { ILabel } from '../types';
+import { logger } from '../utils/logger';
+
+// Generic factory pattern for Label model
+const labelSchema = new Schema<ILabel>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Label name is required'],
+      unique: true,
+      trim: true,
+      lowercase: true,
+      maxlength: [50, 'Label name cannot exceed 50 characters']
+    },
+    color: {
+      type: String,
+      trim: true,
+      lowercase: true,
+      default: '#6b7280',
+      match: [/^#[0-9a-f]{6}$/, 'Color must be a hex value such as #1d76db']
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Description cannot exceed 200 characters']
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: false
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: function(doc, ret: any) {
+        delete ret.__v;
+        return ret;
+      }
+    }
+  }
+);
+
+//Static method to resolve label names or IDs to label documents
+labelSchema.statics.resolve = function(identifiers: string[]) {
+  const ids = identifiers.filter(value => mongoose.Types.ObjectId.isValid(value) && /^[0-9a-f]{24}$/i.test(value));
+  const names = identifiers
+    .filter(value => !ids.includes(value))
+    .map(value => value.trim().toLowerCase());
+
+  return this.find({
+    $or: [
+      { _id: { $in: ids } },
+      { name: { $in: names } }
+    ]
+  });
+};
+
+//Post middleware to detach a deleted label from all issues
+labelSchema.post('findOneAndDelete', async function(doc: ILabel | null) {
+  try {
+    if (doc) {
+      await mongoose.model('Issue').updateMany(
+        { labels: doc._id },
+        { $pull: { labels: doc._id } }
+      );
+    }
+  } catch (error) {
+    logger.error('Error removing label from issues:', error);
+  }
+});
+
+export const Label = mongoose.model<ILabel>('Label', labelSchema);
@@ -0,0 +1,91 @@
+import mongoose, { Schema } from 'mongoose';
+import { INotification, NotificationType } from '../types';
+import { logger } from '../utils/logger';
+
+type Id = mongoose.Types.ObjectId | string;
+
+export const NOTIFICATION_TYPES: NotificationType[] = ['assigned', 'status_changed', 'comment', 'mention'];
+
+// Generic factory pattern for Notification model
+const notificationSchema = new Schema<INotification>(
+  {
+    // User the notification is for
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required']
+    },
+    type: {
+      type: String,
+      enum: NOTIFICATION_TYPES,
+      required: [true, 'Notification type is required']
+    },
+    issueId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Issue',
+      required: [true, 'Issue ID is required']
+    },
+    commentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Comment',
+      default: null
+    },
+    // User whose action caused the notification
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Actor is required']
+    },
+    message: {
+      type: String,
+      required: [true, 'Notification message is required'],
+      maxlength: [500, 'Notification message cannot exceed 500 characters']
+    },
+    read: {
+      type: Boolean,
+      default: false
+    },
+    readAt: {
+      type: Date,
+      default: null
+    }
+  },
+  {
+    // Only the read state changes, which readAt records
+    timestamps: { createdAt: true, updatedAt: false },
+    toJSON: {
+      virtuals: true,
+      transform: function(doc, ret: any) {
+        delete ret.__v;
+        return ret;
+      }
+    }
+  }
+);
+
+//Indexes for better performance
+notificationSchema.index({ user: 1, createdAt: -1 });
+notificationSchema.index({ user: 1, read: 1 });
+notificationSchema.index({ issueId: 1 });
+
+//Static method to notify users about something an actor did on an issue
+//The actor is never notified about their own action and every user is notified once
+//A failure is logged instead of thrown, the action itself already succeeded
+notificationSchema.statics.notify = async function(
+  userIds: Id[],
+  notification: { type: NotificationType; issueId: Id; commentId?: Id | null; actor: Id; message: string }
+): Promise<number> {
+  const actorId = notification.actor.toString();
+  const recipients = [...new Set(userIds.map(id => id.toString()))].filter(id => id !== actorId);
+  if (recipients.length === 0) return 0;
+
+  try {
+    await this.insertMany(recipients.map(user => ({ ...notification, user })));
+    return recipients.length;
+  } catch (error) {
+    logger.error(`Failed to create ${notification.type} notifications:`, error);
+    return 0;
+  }
+};
+
+export const Notification = mongoose.model<INotification>('Notification', notificationSchema);
@@ -0,0 +1,141 @@
+import mongoose, { Schema } from 'mongoose';
+import { IProject, IProjectMember, IUser } from '../types';
+
+const projectMemberSchema = new Schema<IProjectMember>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Member user ID is required']
+    },
+    role: {
+      type: String,
+      enum: ['maintainer', 'member', 'reporter', 'viewer'],
+      default: 'member'
+    },
+    joinedAt: {
+      type: Date,
+      default: Date.now
+    }
+  },
+  { _id: false }
+);
+
+// Generic factory pattern for Project model
+const projectSchema = new Schema<IProject>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Project name is required'],
+      trim: true,
+      maxlength: [100, 'Project name cannot exceed 100 characters']
+    },
+    key: {
+      type: String,
+      required: [true, 'Project key is required'],
+      unique: true,
+      trim: true,
+      uppercase: true,
+      match: [/^[A-Z][A-Z0-9]{1,9}$/, 'Project key must be 2-10 letters or digits, starting with a letter']
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Description cannot exceed 1000 characters']
+    },
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Project owner is required']
+    },
+    members: {
+      type: [projectMemberSchema],
+      default: []
+    },
+    workflow: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workflow',
+      required: false
+    },
+    issueCounter: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    // Bytes all files of the project's issues may use, null uses PROJECT_STORAGE_QUOTA
+    storageQuota: {
+      type: Number,
+      default: null,
+      min: [0, 'Storage quota cannot be negative']
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: function(doc, ret: any) {
+        delete ret.__v;
+        return ret;
+      }
+    }
+  }
+);
+
+//Indexes for better performance
+projectSchema.index({ 'members.user': 1 });
+
+//Virtual for member count
+projectSchema.virtual('memberCount').get(function() {
+  return this.members ? this.members.length : 0;
+});
+
+//Method to check if a user belongs to the project
+projectSchema.methods.isMember = function(userId: mongoose.Types.ObjectId | string): boolean {
+  return this.members.some((member: IProjectMember) => member.user.toString() === userId.toString());
+};
+
+//Method to check if a user owns the project
+projectSchema.methods.isOwner = function(userId: mongoose.Types.ObjectId | string): boolean {
+  return this.owner.toString() === userId.toString();
+};
+
+//Static method to get IDs of projects a user belongs to
+projectSchema.statics.getProjectIdsForUser = async function(userId: mongoose.Types.ObjectId | string) {
+  const projects = await this.find({ 'members.user': userId }).select('_id').lean();
+  return projects.map((project: { _id: mongoose.Types.ObjectId }) => project._id);
+};
+
+//Static method to build an issue filter limited to projects a user can see
+//Issues outside any project stay visible to every authenticated user, admins see everything
+projectSchema.statics.getVisibleIssueFilter = async function(user: IUser) {
+  if (user.role === 'admin') {
+    return {};
+  }
+
+  const projectIds = await (this as any).getProjectIdsForUser(user._id);
+  return {
+    $or: [
+      { project: { $exists: false } },
+      { project: null },
+      { project: { $in: projectIds } }
+    ]
+  };
+};
+
+//Static method to atomically allocate the next issue key, e.g. PAY-142
+projectSchema.statics.nextIssueKey = async function(projectId: mongoose.Types.ObjectId | string) {
+  const project = await this.findByIdAndUpdate(
+    projectId,
+    { $inc: { issueCounter: 1 } },
+    { new: true }
+  );
+  if (!project) {
+    return null;
+  }
+  return {
+    number: project.issueCounter,
+    key: `${project.key}-${project.issueCounter}`
+  };
+};
+
+export const Project = mongoose.model<IProject>('Project', projectSchema);
@@ -0,0 +1,71 @@
+import mongoose, { Schema } from 'mongoose';
+import { IRefreshToken } from '../types';
+
+// Generic factory pattern for RefreshToken model
+// Only a hash of the token is stored, the token itself is only known to the client
+const refreshTokenSchema = new Schema<IRefreshToken>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required']
+    },
+    // Tokens created by rotating each other share a family, which is one session
+    familyId: {
+      type: Schema.Types.ObjectId,
+      required: [true, 'Token family ID is required']
+    },
+    tokenHash: {
+      type: String,
+      required: [true, 'Token hash is required'],
+      unique: true
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiry date is required']
+    },
+    sessionStartedAt: {
+      type: Date,
+      required: [true, 'Session start date is required']
+    },
+    userAgent: {
+      type: String,
+      maxlength: [500, 'User agent cannot exceed 500 characters']
+    },
+    ipAddress: {
+      type: String
+    },
+    replacedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'RefreshToken'
+    },
+    revokedAt: {
+      type: Date,
+      default: null
+    },
+    revokedReason: {
+      type: String,
+      enum: ['rotated', 'logout', 'password_changed', 'session_revoked', 'reuse_detected']
+    }
+  },
+  {
+    // Tokens are never edited apart from being revoked
+    timestamps: { createdAt: true, updatedAt: false },
+    toJSON: {
+      virtuals: true,
+      transform: function(doc, ret: any) {
+        delete ret.__v;
+        delete ret.tokenHash;
+        return ret;
+      }
+    }
+  }
+);
+
+//Indexes for better performance
+refreshTokenSchema.index({ familyId: 1, revokedAt: 1 });
+refreshTokenSchema.index({ user: 1, revokedAt: 1 });
+//Expired tokens are removed by MongoDB
+refreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RefreshToken = mongoose.model<IRefreshToken>('RefreshToken', refreshTokenSchema);
@@ -0,0 +1,107 @@
+import mongoose, { Schema } from 'mongoose';
+import { IUploadSession } from '../types';
+import { storage } from '../utils/storage';
+import { logger } from '../utils/logger';
+
+// Generic factory pattern for UploadSession model
+// Chunks of a resumable upload are stored as separate objects until the upload is completed
+const uploadSessionSchema = new Schema<IUploadSession>(
+  {
+    issueId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Issue',
+      required: [true, 'Issue ID is required']
+    },
+    uploadedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Uploaded by user ID is required']
+    },
+    originalName: {
+      type: String,
+      required: [true, 'Original filename is required'],
+      trim: true
+    },
+    mimetype: {
+      type: String,
+      required: [true, 'File mimetype is required']
+    },
+    // Total size announced when the upload was created
+    size: {
+      type: Number,
+      required: [true, 'File size is required'],
+      min: [1, 'File size must be at least 1 byte']
+    },
+    // Hex SHA-256 the completed contents must match
+    checksum: {
+      type: String,
+      required: [true, 'Checksum is required'],
+      match: [/^[a-f0-9]{64}$/, 'Checksum must be a hex SHA-256 digest']
+    },
+    // Number of bytes received so far
+    offset: {
+      type: Number,
+      default: 0,
+      min: [0, 'Offset cannot be negative']
+    },
+    chunks: [{
+      _id: false,
+      key: { type: String, required: true },
+      offset: { type: Number, required: true },
+      size: { type: Number, required: true }
+    }],
+    // Set while the chunks are assembled, so an upload is only completed once
+    status: {
+      type: String,
+      enum: ['open', 'completing'],
+      default: 'open'
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiry date is required']
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: function(doc, ret: any) {
+        delete ret.__v;
+        delete ret.chunks; // Don't expose storage locations
+        return ret;
+      }
+    }
+  }
+);
+
+//Indexes for better performance
+uploadSessionSchema.index({ uploadedBy: 1 });
+uploadSessionSchema.index({ issueId: 1 });
+uploadSessionSchema.index({ expiresAt: 1 });
+
+//Method to delete all stored chunks of the upload
+uploadSessionSchema.methods.deleteChunks = async function(): Promise<void> {
+  for (const chunk of this.chunks) {
+    try {
+      await storage.delete(chunk.key);
+    } catch (error) {
+      logger.error(`Error deleting upload chunk ${chunk.key}:`, error);
+    }
+  }
+};
+
+//Static method to remove abandoned uploads together with their chunks
+//Returns the number of removed uploads
+uploadSessionSchema.statics.removeExpired = async function(): Promise<number> {
+  const sessions: IUploadSession[] = await this.find({ expiresAt: { $lte: new Date() } });
+  for (const session of sessions) {
+    await session.deleteChunks();
+    await session.deleteOne();
+  }
+  if (sessions.length > 0) {
+    logger.info(`Removed ${sessions.length} expired upload session(s)`);
+  }
+  return sessions.length;
+};
+
+export const UploadSession = mongoose.model<IUploadSession>('UploadSession', uploadSessionSchema);
@@ -16,6 +16,18 @@ const userSchema = new Schema<IUser>(
         'Please provide a valid email address'
       ]
     },
+    // Optional handle for @mentions, the part of the email before the @ works as well
+    username: {
+      type: String,
+      unique: true,
+      sparse: true,
+      lowercase: true,
+      trim: true,
+      match: [
+        /^[a-z0-9][a-z0-9._-]{1,29}$/,
+        'Username must be 2 to 30 letters, numbers, dots, dashes or underscores'
+      ]
+    },
     password: {
       type: String,
       required: [true, 'Password is required'],
@@ -32,6 +44,24 @@ const userSchema = new Schema<IUser>(
       required: [true, 'Last name is required'],
       trim: true,
       maxlength: [50, 'Last name cannot exceed 50 characters']
+    },
+    role: {
+      type: String,
+      enum: ['admin', 'maintainer', 'member', 'reporter', 'viewer'],
+      default: 'member'
+    },
+    emailVerified: {
+      type: Boolean,
+      default: false
+    },
+    emailVerifiedAt: {
+      type: Date
+    },
+    // Bytes the user may upload, null uses USER_STORAGE_QUOTA
+    storageQuota: {
+      type: Number,
+      default: null,
+      min: [0, 'Storage quota cannot be negative']
     }
   },
   {
@@ -0,0 +1,83 @@
+import crypto from 'crypto';
+import mongoose, { Schema } from 'mongoose';
+import { IUserToken, UserTokenPurpose } from '../types';
+
+//Hash a token for storage and lookup
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+// Generic factory pattern for UserToken model
+// Single-use tokens sent by email, only their hash is stored
+const userTokenSchema = new Schema<IUserToken>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required']
+    },
+    purpose: {
+      type: String,
+      enum: ['password_reset', 'email_verification'],
+      required: [true, 'Token purpose is required']
+    },
+    tokenHash: {
+      type: String,
+      required: [true, 'Token hash is required'],
+      unique: true
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiry date is required']
+    },
+    usedAt: {
+      type: Date,
+      default: null
+    }
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    toJSON: {
+      virtuals: true,
+      transform: function(doc, ret: any) {
+        delete ret.__v;
+        delete ret.tokenHash;
+        return ret;
+      }
+    }
+  }
+);
+
+//Indexes for better performance
+userTokenSchema.index({ user: 1, purpose: 1, usedAt: 1 });
+//Expired tokens are removed by MongoDB
+userTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+//Static method to issue a token, replacing unused tokens of the same purpose
+//Returns the plain token, which is only ever sent to the user
+userTokenSchema.statics.issue = async function(
+  userId: mongoose.Types.ObjectId | string,
+  purpose: UserTokenPurpose,
+  ttlMs: number
+): Promise<string> {
+  await this.deleteMany({ user: userId, purpose, usedAt: null });
+
+  const token = crypto.randomBytes(32).toString('hex');
+  await this.create({
+    user: userId,
+    purpose,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + ttlMs)
+  });
+
+  return token;
+};
+
+//Static method to use up a token, returns null when it is unknown, used or expired
+userTokenSchema.statics.consume = function(token: string, purpose: UserTokenPurpose): Promise<IUserToken | null> {
+  return this.findOneAndUpdate(
+    { tokenHash: hashToken(token), purpose, usedAt: null, expiresAt: { $gt: new Date() } },
+    { usedAt: new Date() },
+    { new: true }
+  );
+};
+
+export const UserToken = mongoose.model<IUserToken>('UserToken', userTokenSchema);
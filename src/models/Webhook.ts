@@ -0,0 +1,78 @@
+import mongoose, { Schema } from 'mongoose';
+import { IWebhook, IssueEvent } from '../types';
+import { ISSUE_EVENT_TYPES } from '../utils/eventBus';
+
+// Generic factory pattern for Webhook model
+const webhookSchema = new Schema<IWebhook>(
+  {
+    url: {
+      type: String,
+      required: [true, 'Webhook URL is required'],
+      trim: true,
+      match: [/^https?:\/\/.+/i, 'Webhook URL must be an http or https URL']
+    },
+    secret: {
+      type: String,
+      required: [true, 'Webhook secret is required'],
+      // Only loaded when signing deliveries
+      select: false
+    },
+    events: {
+      type: [{ type: String, enum: [...ISSUE_EVENT_TYPES, '*'] }],
+      validate: {
+        validator: (events: string[]) => Array.isArray(events) && events.length > 0,
+        message: 'Webhook must subscribe to at least one event'
+      }
+    },
+    project: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      required: false
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Description cannot exceed 500 characters']
+    },
+    active: {
+      type: Boolean,
+      default: true
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Created by user ID is required']
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: function(doc, ret: any) {
+        delete ret.__v;
+        delete ret.secret;
+        return ret;
+      }
+    }
+  }
+);
+
+//Indexes for better performance
+webhookSchema.index({ active: 1, events: 1 });
+
+//Method to check if the webhook wants an event
+//Webhooks limited to a project only receive events of that project's issues
+webhookSchema.methods.isSubscribedTo = function(event: IssueEvent): boolean {
+  if (!this.active) return false;
+  if (this.project && this.project.toString() !== event.projectId) return false;
+  return this.events.includes('*') || this.events.includes(event.type);
+};
+
+//Remove the delivery log together with the webhook
+webhookSchema.post('findOneAndDelete', async function(doc: IWebhook | null) {
+  if (doc) {
+    await mongoose.model('WebhookDelivery').deleteMany({ webhookId: doc._id });
+  }
+});
+
+export const Webhook = mongoose.model<IWebhook>('Webhook', webhookSchema);
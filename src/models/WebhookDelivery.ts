@@ -0,0 +1,90 @@
+import mongoose, { Schema } from 'mongoose';
+import { IWebhookDelivery } from '../types';
+import { ISSUE_EVENT_TYPES } from '../utils/eventBus';
+
+// Generic factory pattern for WebhookDelivery model
+const webhookDeliverySchema = new Schema<IWebhookDelivery>(
+  {
+    webhookId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Webhook',
+      required: [true, 'Webhook ID is required']
+    },
+    event: {
+      type: String,
+      enum: ISSUE_EVENT_TYPES,
+      required: [true, 'Event type is required']
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      required: [true, 'Payload is required']
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'success', 'failed'],
+      default: 'pending'
+    },
+    attempts: {
+      type: Number,
+      default: 0
+    },
+    nextAttemptAt: {
+      type: Date,
+      default: null
+    },
+    lastAttemptAt: {
+      type: Date
+    },
+    responseStatus: {
+      type: Number
+    },
+    responseBody: {
+      type: String
+    },
+    error: {
+      type: String
+    },
+    duration: {
+      type: Number
+    },
+    redeliveryOf: {
+      type: Schema.Types.ObjectId,
+      ref: 'WebhookDelivery',
+      required: false
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: function(doc, ret: any) {
+        delete ret.__v;
+        return ret;
+      }
+    }
+  }
+);
+
+//Indexes for better performance
+webhookDeliverySchema.index({ webhookId: 1, createdAt: -1 });
+webhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+
+//Static method to get deliveries of a webhook with pagination
+webhookDeliverySchema.statics.getDeliveriesForWebhook = function(
+  webhookId: string,
+  page: number = 1,
+  limit: number = 20
+) {
+  const skip = (page - 1) * limit;
+
+  return Promise.all([
+    this.find({ webhookId })
+      .sort({ createdAt: -1, _id: -1 })
+      .skip(skip)
+      .limit(limit)
+      .lean(),
+    this.countDocuments({ webhookId })
+  ]);
+};
+
+export const WebhookDelivery = mongoose.model<IWebhookDelivery>('WebhookDelivery', webhookDeliverySchema);
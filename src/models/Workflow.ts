@@ -0,0 +1,208 @@
+import mongoose, { Schema } from 'mongoose';
+import { IWorkflow, IWorkflowStatus, IWorkflowTransition } from '../types';
+import { logger } from '../utils/logger';
+import { ConflictError } from '../utils/errorTypes';
+
+//Default workflow mirrors the original pending/complete lifecycle
+export const DEFAULT_WORKFLOW = {
+  name: 'Default',
+  description: 'Basic two-state workflow',
+  statuses: [
+    { key: 'pending', name: 'Pending', isInitial: true, isFinal: false },
+    { key: 'complete', name: 'Complete', isInitial: false, isFinal: true }
+  ],
+  transitions: [
+    { from: 'pending', to: 'complete' },
+    { from: 'complete', to: 'pending' }
+  ],
+  isDefault: true
+};
+
+const workflowStatusSchema = new Schema<IWorkflowStatus>(
+  {
+    key: {
+      type: String,
+      required: [true, 'Status key is required'],
+      trim: true,
+      lowercase: true,
+      match: [/^[a-z][a-z0-9_-]*$/, 'Status key may only contain letters, numbers, dashes and underscores'],
+      maxlength: [50, 'Status key cannot exceed 50 characters']
+    },
+    name: {
+      type: String,
+      required: [true, 'Status name is required'],
+      trim: true,
+      maxlength: [50, 'Status name cannot exceed 50 characters']
+    },
+    isInitial: {
+      type: Boolean,
+      default: false
+    },
+    isFinal: {
+      type: Boolean,
+      default: false
+    }
+  },
+  { _id: false }
+);
+
+const workflowTransitionSchema = new Schema<IWorkflowTransition>(
+  {
+    from: {
+      type: String,
+      required: [true, 'Transition source status is required'],
+      trim: true,
+      lowercase: true
+    },
+    to: {
+      type: String,
+      required: [true, 'Transition target status is required'],
+      trim: true,
+      lowercase: true
+    }
+  },
+  { _id: false }
+);
+
+// Generic factory pattern for Workflow model
+const workflowSchema = new Schema<IWorkflow>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Workflow name is required'],
+      unique: true,
+      trim: true,
+      maxlength: [100, 'Workflow name cannot exceed 100 characters']
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Description cannot exceed 500 characters']
+    },
+    statuses: {
+      type: [workflowStatusSchema],
+      validate: {
+        validator: (statuses: IWorkflowStatus[]) => Array.isArray(statuses) && statuses.length > 0,
+        message: 'Workflow must define at least one status'
+      }
+    },
+    transitions: {
+      type: [workflowTransitionSchema],
+      default: []
+    },
+    isDefault: {
+      type: Boolean,
+      default: false
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: false
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: function(doc, ret: any) {
+        delete ret.__v;
+        return ret;
+      }
+    }
+  }
+);
+
+//Indexes for better performance
+workflowSchema.index({ isDefault: 1 });
+
+//Validate that statuses and transitions form a consistent graph
+workflowSchema.pre('validate', function(next) {
+  const keys = this.statuses.map(status => status.key);
+
+  if (new Set(keys).size !== keys.length) {
+    this.invalidate('statuses', 'Workflow status keys must be unique');
+  }
+
+  if (this.statuses.filter(status => status.isInitial).length !== 1) {
+    this.invalidate('statuses', 'Workflow must have exactly one initial status');
+  }
+
+  for (const transition of this.transitions) {
+    if (!keys.includes(transition.from) || !keys.includes(transition.to)) {
+      this.invalidate(
+        'transitions',
+        `Transition ${transition.from} -> ${transition.to} references an unknown status`
+      );
+    }
+    if (transition.from === transition.to) {
+      this.invalidate('transitions', `Transition ${transition.from} -> ${transition.to} must change status`);
+    }
+  }
+
+  next();
+});
+
+//Method to check if a status is part of the workflow
+workflowSchema.methods.hasStatus = function(key: string): boolean {
+  return this.statuses.some((status: IWorkflowStatus) => status.key === key);
+};
+
+//Method to get the status new issues start in
+workflowSchema.methods.getInitialStatus = function(): string {
+  const initial = this.statuses.find((status: IWorkflowStatus) => status.isInitial);
+  return initial ? initial.key : this.statuses[0].key;
+};
+
+//Method to check if moving between two statuses is permitted
+workflowSchema.methods.canTransition = function(from: string, to: string): boolean {
+  return this.transitions.some(
+    (transition: IWorkflowTransition) => transition.from === from && transition.to === to
+  );
+};
+
+//Method to list statuses reachable from the given status
+workflowSchema.methods.getAvailableTransitions = function(from: string): string[] {
+  return this.transitions
+    .filter((transition: IWorkflowTransition) => transition.from === from)
+    .map((transition: IWorkflowTransition) => transition.to);
+};
+
+//Static method to get the default workflow, seeding it on first use
+workflowSchema.statics.getDefault = async function(): Promise<IWorkflow> {
+  const existing = await this.findOne({ isDefault: true });
+  if (existing) {
+    return existing;
+  }
+
+  try {
+    const workflow = await this.create(DEFAULT_WORKFLOW);
+    logger.info('Default workflow created');
+    return workflow;
+  } catch (error: any) {
+    if (error.code !== 11000) {
+      throw error;
+    }
+    // Another request seeded it concurrently, unless the name is taken by a workflow that is not the default
+    const seeded = await this.findOne({ isDefault: true });
+    if (!seeded) {
+      throw new ConflictError(
+        `The default workflow cannot be created because the workflow "${DEFAULT_WORKFLOW.name}" is not marked as default, rename it first`
+      );
+    }
+    return seeded;
+  }
+};
+
+//Static method to resolve the workflow that governs an issue
+workflowSchema.statics.resolveForIssue = async function(issue: { workflow?: mongoose.Types.ObjectId }): Promise<IWorkflow> {
+  if (issue.workflow) {
+    const workflow = await this.findById(issue.workflow);
+    if (workflow) {
+      return workflow;
+    }
+    logger.warn(`Workflow ${issue.workflow} not found, falling back to default`);
+  }
+  return (this as any).getDefault();
+};
+
+export const Workflow = mongoose.model<IWorkflow>('Workflow', workflowSchema);
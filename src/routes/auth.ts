@@ -1,7 +1,7 @@
 import { Router } from 'express';
-import { register, login, getProfile, updateProfile, changePassword, refreshToken, logout, verifyToken } from '../controllers/authController';
+import { register, login, getProfile, updateProfile, changePassword, refreshToken, logout, getSessions, revokeSession, forgotPassword, resetPassword, verifyEmail, resendVerification, verifyToken } from '../controllers/authController';
 import { authenticate, authRateLimit } from '../middleware/auth';
-import { validateRegister, validateLogin, validate, schemas } from '../middleware/validation';
+import { validateRegister, validateLogin, validateForgotPassword, validateResetPassword, validateVerifyEmail, validateObjectIdParam, validate, schemas } from '../middleware/validation';
 import Joi from 'joi';
 
 const router = Router();
@@ -11,6 +11,9 @@ const router = Router();
 router.post('/register', authRateLimit(), validateRegister, register);
 router.post('/login', authRateLimit(), validateLogin, login);
 router.post('/refresh-token', authRateLimit(10, 15 * 60 * 1000), refreshToken);
+router.post('/forgot-password', authRateLimit(), validateForgotPassword, forgotPassword);
+router.post('/reset-password', authRateLimit(), validateResetPassword, resetPassword);
+router.post('/verify-email', authRateLimit(10, 15 * 60 * 1000), validateVerifyEmail, verifyEmail);
 
 //Protected routes
 router.use(authenticate); // All routes below require authentication
@@ -28,6 +31,9 @@ router.post('/change-password',
   changePassword
 );
 router.post('/logout', logout);
+router.post('/resend-verification', resendVerification);
+router.get('/sessions', getSessions);
+router.delete('/sessions/:id', validateObjectIdParam, revokeSession);
 router.get('/verify-token', verifyToken);
 
 export default router;
\ No newline at end of file
@@ -1,8 +1,9 @@
 // src/routes/comments.ts
 
 import { Router } from 'express';
-import { getCommentsForIssue, createComment, getCommentById, updateComment, deleteComment, getMyComments, getRecentComments } from  '../controllers/commentController';
+import { getCommentsForIssue, createComment, createReply, getCommentById, getCommentRevisions, updateComment, deleteComment, getMyComments, getRecentComments } from  '../controllers/commentController';
 import { authenticate } from '../middleware/auth';
+import { authorize, loaders } from '../middleware/authorize';
 import { validateCreateComment, validateUpdateComment, validateCommentQuery, validateObjectIdParam, validateIssueIdParam } from  '../middleware/validation';
 
 const router = Router();
@@ -15,14 +16,16 @@ router.get('/my-comments', validateCommentQuery, getMyComments);
 router.get('/recent', getRecentComments);
 
 // Issue-specific comment routes
-router.get('/issue/:issueId', validateIssueIdParam, validateCommentQuery, getCommentsForIssue);
-router.post('/issue/:issueId', validateIssueIdParam, validateCreateComment, createComment);
+router.get('/issue/:issueId', validateIssueIdParam, authorize('issue:read', loaders.issue('issueId')), validateCommentQuery, getCommentsForIssue);
+router.post('/issue/:issueId', validateIssueIdParam, validateCreateComment, authorize('comment:create', loaders.issue('issueId')), createComment);
 
 // Individual comment routes 
 // Validate ObjectId parameter for comment ID
 // This ensures that the ID is a valid MongoDB ObjectId before proceeding to the controller
-router.get('/:id', validateObjectIdParam, getCommentById);
-router.put('/:id', validateObjectIdParam, validateUpdateComment, updateComment);
-router.delete('/:id', validateObjectIdParam, deleteComment);
+router.get('/:id', validateObjectIdParam, authorize('issue:read', loaders.comment()), getCommentById);
+router.get('/:id/revisions', validateObjectIdParam, authorize('comment:revisions', loaders.comment()), getCommentRevisions);
+router.post('/:id/replies', validateObjectIdParam, validateCreateComment, authorize('comment:create', loaders.comment()), createReply);
+router.put('/:id', validateObjectIdParam, validateUpdateComment, authorize('comment:update', loaders.comment()), updateComment);
+router.delete('/:id', validateObjectIdParam, authorize('comment:delete', loaders.comment()), deleteComment);
 
 export default router;
\ No newline at end of file
@@ -1,34 +1,78 @@
 import { Router } from 'express';
-import { uploadFiles, getFilesForIssue, downloadFile, getFileById, deleteFile, getMyFiles, getFileStats, validateFileIntegrity } from  '../controllers/fileController';
-import { authenticate } from '../middleware/auth';
-import { uploadMultiple, handleUploadError, cleanupOnError } from '../middleware/upload';
-import { validateObjectIdParam, validateIssueIdParam, validateCommentQuery } from  '../middleware/validation';
+import { uploadFiles, uploadFileVersion, getFileVersions, downloadFileVersion, getFilesForIssue, downloadIssueArchive, downloadFile, getFileThumbnail, getFileUrl, getFileById, rescanFile, deleteFile, getMyFiles, getFileStats, getStorageQuota, validateFileIntegrity } from  '../controllers/fileController';
+import { createUploadSession, getUploadSession, appendUploadChunk, completeUploadSession, abortUploadSession } from '../controllers/uploadSessionController';
+import { authenticate, verifySignedUrl } from '../middleware/auth';
+import { authorize, loaders } from '../middleware/authorize';
+import { uploadSingle, uploadMultiple, checkUploadQuota, validateUploadedFile, handleUploadError, cleanupOnError } from '../middleware/upload';
+import { validateObjectIdParam, validateIssueIdParam, validateCommentQuery, validateDownloadQuery, validateThumbnailQuery, validateCreateUploadSession, validateFileVersionParams, validateArchiveQuery } from  '../middleware/validation';
+import { ThumbnailSize } from '../utils/thumbnails';
 
 const router = Router();
 
-// All routes require authentication
+// Signed download URLs work without an access token, e.g. in <img> tags
+router.get('/:id/download', validateObjectIdParam, validateDownloadQuery, verifySignedUrl(() => 'download'), downloadFile);
+router.get('/:id/thumbnail',
+  validateObjectIdParam,
+  validateThumbnailQuery,
+  verifySignedUrl(req => `thumbnail:${(req.query.size as ThumbnailSize) || 'medium'}`),
+  getFileThumbnail
+);
+
+// All other routes require authentication
 router.use(authenticate);
 
 // File management routes
 router.get('/my-files', validateCommentQuery, getMyFiles);
 router.get('/stats', getFileStats);
+router.get('/quota', getStorageQuota);
 
 // Issue-specific file routes
-router.get('/issue/:issueId', validateIssueIdParam, getFilesForIssue);
+router.get('/issue/:issueId', validateIssueIdParam, authorize('issue:read', loaders.issue('issueId')), getFilesForIssue);
 router.post('/issue/:issueId/upload', 
   validateIssueIdParam,
+  authorize('file:upload', loaders.issue('issueId')),
+  checkUploadQuota(loaders.issue('issueId')),
   uploadMultiple('files', 5),
+  validateUploadedFile,
   handleUploadError,
   cleanupOnError,
   uploadFiles
 );
+// Resumable uploads for files too large for a single request
+router.post('/issue/:issueId/uploads',
+  validateIssueIdParam,
+  authorize('file:upload', loaders.issue('issueId')),
+  validateCreateUploadSession,
+  createUploadSession
+);
+router.head('/uploads/:id', validateObjectIdParam, getUploadSession);
+router.get('/uploads/:id', validateObjectIdParam, getUploadSession);
+router.patch('/uploads/:id', validateObjectIdParam, appendUploadChunk);
+router.post('/uploads/:id/complete', validateObjectIdParam, completeUploadSession);
+router.delete('/uploads/:id', validateObjectIdParam, abortUploadSession);
+router.get('/issue/:issueId/archive', validateIssueIdParam, validateArchiveQuery, authorize('issue:read', loaders.issue('issueId')), downloadIssueArchive);
 // Validate file integrity for issue.
 // This route checks if the uploaded files are valid for the specified issue
-router.get('/issue/:issueId/validate', validateIssueIdParam, validateFileIntegrity);
+router.get('/issue/:issueId/validate', validateIssueIdParam, authorize('issue:read', loaders.issue('issueId')), validateFileIntegrity);
 
 // Individual file routes
-router.get('/:id', validateObjectIdParam, getFileById);
-router.get('/:id/download', validateObjectIdParam, downloadFile);
-router.delete('/:id', validateObjectIdParam, deleteFile);
+router.get('/:id', validateObjectIdParam, authorize('issue:read', loaders.file()), getFileById);
+router.get('/:id/url', validateObjectIdParam, authorize('issue:read', loaders.file()), getFileUrl);
+router.get('/:id/download', validateObjectIdParam, validateDownloadQuery, authorize('issue:read', loaders.file()), downloadFile);
+router.get('/:id/thumbnail', validateObjectIdParam, validateThumbnailQuery, authorize('issue:read', loaders.file()), getFileThumbnail);
+router.post('/:id/versions',
+  validateObjectIdParam,
+  authorize('file:upload', loaders.file()),
+  checkUploadQuota(loaders.file()),
+  uploadSingle('file'),
+  validateUploadedFile,
+  handleUploadError,
+  cleanupOnError,
+  uploadFileVersion
+);
+router.get('/:id/versions', validateObjectIdParam, authorize('issue:read', loaders.file()), getFileVersions);
+router.get('/:id/versions/:version/download', validateFileVersionParams, validateDownloadQuery, authorize('issue:read', loaders.file()), downloadFileVersion);
+router.post('/:id/rescan', validateObjectIdParam, authorize('file:scan'), rescanFile);
+router.delete('/:id', validateObjectIdParam, authorize('file:delete', loaders.file()), deleteFile);
 
 export default router;
\ No newline at end of file
@@ -1,7 +1,8 @@
 import { Router } from 'express';
-import { getIssues, getIssueById, createIssue, updateIssue, updateIssueStatus, deleteIssue, getMyAssignedIssues, getMyCreatedIssues } from '../controllers/issueController';
+import { getIssues, getIssueById, createIssue, updateIssue, updateIssueStatus, getIssueTransitions, getIssueHistory, followIssue, unfollowIssue, deleteIssue, getMyAssignedIssues, getMyCreatedIssues } from '../controllers/issueController';
 import { authenticate } from '../middleware/auth';
-import { validateCreateIssue, validateUpdateIssue, validateUpdateIssueStatus, validateIssueQuery, validateObjectIdParam } from '../middleware/validation';
+import { authorize, loaders } from '../middleware/authorize';
+import { validateCreateIssue, validateUpdateIssue, validateUpdateIssueStatus, validateIssueQuery, validateCommentQuery, validateObjectIdParam } from '../middleware/validation';
 
 const router = Router();
 
@@ -13,7 +14,12 @@ router.get('/my-assigned', validateIssueQuery, getMyAssignedIssues);
 router.get('/my-created', validateIssueQuery, getMyCreatedIssues);
 
 // Issue CRUD operations
-router.post('/', validateCreateIssue, createIssue);
+router.post('/',
+  validateCreateIssue,
+  authorize('issue:create'),
+  authorize('issue:assign', undefined, { when: req => !!req.body.assignedTo }),
+  createIssue
+);
 
 // Routes with issue ID parameter 
 // Validate ObjectId parameter for issue ID
@@ -22,9 +28,19 @@ router.post('/', validateCreateIssue, createIssue);
 // This helps prevent unnecessary database queries with invalid IDs
 // It also improves error handling by catching invalid IDs early
 // This pattern can be reused for other routes that require an ObjectId parameter
-router.get('/:id', validateObjectIdParam, getIssueById);
-router.put('/:id', validateObjectIdParam, validateUpdateIssue, updateIssue);
-router.patch('/:id/status', validateObjectIdParam, validateUpdateIssueStatus, updateIssueStatus);
-router.delete('/:id', validateObjectIdParam, deleteIssue);
+router.get('/:id', validateObjectIdParam, authorize('issue:read', loaders.issue()), getIssueById);
+router.put('/:id',
+  validateObjectIdParam,
+  validateUpdateIssue,
+  authorize('issue:update', loaders.issue()),
+  authorize('issue:assign', loaders.issue(), { when: req => req.body.assignedTo !== undefined }),
+  updateIssue
+);
+router.get('/:id/history', validateObjectIdParam, authorize('issue:read', loaders.issue()), validateCommentQuery, getIssueHistory);
+router.get('/:id/transitions', validateObjectIdParam, authorize('issue:read', loaders.issue()), getIssueTransitions);
+router.patch('/:id/status', validateObjectIdParam, validateUpdateIssueStatus, authorize('issue:status', loaders.issue()), updateIssueStatus);
+router.put('/:id/follow', validateObjectIdParam, authorize('issue:read', loaders.issue()), followIssue);
+router.delete('/:id/follow', validateObjectIdParam, authorize('issue:read', loaders.issue()), unfollowIssue);
+router.delete('/:id', validateObjectIdParam, authorize('issue:delete', loaders.issue()), deleteIssue);
 
 export default router;
\ No newline at end of file
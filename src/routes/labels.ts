@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { getLabels, getLabelById, createLabel, updateLabel, deleteLabel } from '../controllers/labelController';
+import { authenticate } from '../middleware/auth';
+import { authorize } from '../middleware/authorize';
+import { validateCreateLabel, validateUpdateLabel, validateObjectIdParam } from '../middleware/validation';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+router.get('/', getLabels);
+router.post('/', authorize('label:manage'), validateCreateLabel, createLabel);
+
+// Individual label routes
+router.get('/:id', validateObjectIdParam, getLabelById);
+router.put('/:id', validateObjectIdParam, authorize('label:manage'), validateUpdateLabel, updateLabel);
+router.delete('/:id', validateObjectIdParam, authorize('label:manage'), deleteLabel);
+
+export default router;
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { getNotifications, getUnreadCount, markNotificationRead, markAllNotificationsRead } from '../controllers/notificationController';
+import { authenticate } from '../middleware/auth';
+import { validateNotificationQuery, validateObjectIdParam } from '../middleware/validation';
+
+const router = Router();
+
+// All routes require authentication, users only see their own notifications
+router.use(authenticate);
+
+router.get('/', validateNotificationQuery, getNotifications);
+router.get('/unread-count', getUnreadCount);
+router.post('/read-all', markAllNotificationsRead);
+router.patch('/:id/read', validateObjectIdParam, markNotificationRead);
+
+export default router;
@@ -0,0 +1,91 @@
+import { Router } from 'express';
+import { getProjects, createProject, getProjectById, updateProject, updateProjectStorageQuota, deleteProject, getProjectMembers, addProjectMember, updateProjectMemberRole, removeProjectMember } from '../controllers/projectController';
+import { getIssues, getIssueById, createIssue, updateIssue, updateIssueStatus, getIssueTransitions, getIssueHistory, followIssue, unfollowIssue, deleteIssue } from '../controllers/issueController';
+import { getCommentsForIssue, createComment } from '../controllers/commentController';
+import { uploadFiles, getFilesForIssue } from '../controllers/fileController';
+import { authenticate } from '../middleware/auth';
+import { authorize, loaders } from '../middleware/authorize';
+import { loadProject, resolveProjectIssue } from '../middleware/project';
+import { uploadMultiple, checkUploadQuota, validateUploadedFile, handleUploadError, cleanupOnError } from '../middleware/upload';
+import { validateCreateProject, validateUpdateProject, validateUpdateStorageQuota, validateAddProjectMember, validateUpdateProjectMemberRole, validateProjectIdParam, validateProjectIssueParams, validateProjectMemberParams, validateCreateIssue, validateUpdateIssue, validateUpdateIssueStatus, validateCreateComment, validateIssueQuery, validateCommentQuery } from '../middleware/validation';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+router.get('/', getProjects);
+router.post('/', authorize('project:create'), validateCreateProject, createProject);
+
+// Everything below is scoped to a project the user is a member of
+router.use('/:projectId', validateProjectIdParam, loadProject);
+
+router.get('/:projectId', getProjectById);
+router.put('/:projectId', authorize('project:manage', loaders.project()), validateUpdateProject, updateProject);
+router.delete('/:projectId', authorize('project:manage', loaders.project()), deleteProject);
+router.patch('/:projectId/quota', authorize('quota:manage'), validateUpdateStorageQuota, updateProjectStorageQuota);
+
+// Project membership
+router.get('/:projectId/members', getProjectMembers);
+router.post('/:projectId/members', authorize('project:manage', loaders.project()), validateAddProjectMember, addProjectMember);
+router.patch('/:projectId/members/:userId',
+  validateProjectMemberParams,
+  authorize('project:manage', loaders.project()),
+  validateUpdateProjectMemberRole,
+  updateProjectMemberRole
+);
+router.delete('/:projectId/members/:userId', validateProjectMemberParams, authorize('project:manage', loaders.project()), removeProjectMember);
+
+// Project issues, addressed by key (e.g. PAY-142) or ID
+router.get('/:projectId/issues', validateIssueQuery, getIssues);
+router.post('/:projectId/issues',
+  validateCreateIssue,
+  authorize('issue:create', loaders.project()),
+  authorize('issue:assign', loaders.project(), { when: req => !!req.body.assignedTo }),
+  createIssue
+);
+router.get('/:projectId/issues/:issueRef', validateProjectIssueParams, resolveProjectIssue(), getIssueById);
+router.put('/:projectId/issues/:issueRef',
+  validateProjectIssueParams,
+  resolveProjectIssue(),
+  validateUpdateIssue,
+  authorize('issue:update', loaders.issue()),
+  authorize('issue:assign', loaders.issue(), { when: req => req.body.assignedTo !== undefined }),
+  updateIssue
+);
+router.patch('/:projectId/issues/:issueRef/status',
+  validateProjectIssueParams,
+  resolveProjectIssue(),
+  validateUpdateIssueStatus,
+  authorize('issue:status', loaders.issue()),
+  updateIssueStatus
+);
+router.get('/:projectId/issues/:issueRef/transitions', validateProjectIssueParams, resolveProjectIssue(), getIssueTransitions);
+router.get('/:projectId/issues/:issueRef/history', validateProjectIssueParams, resolveProjectIssue(), validateCommentQuery, getIssueHistory);
+router.put('/:projectId/issues/:issueRef/follow', validateProjectIssueParams, resolveProjectIssue(), authorize('issue:read', loaders.issue()), followIssue);
+router.delete('/:projectId/issues/:issueRef/follow', validateProjectIssueParams, resolveProjectIssue(), authorize('issue:read', loaders.issue()), unfollowIssue);
+router.delete('/:projectId/issues/:issueRef', validateProjectIssueParams, resolveProjectIssue(), authorize('issue:delete', loaders.issue()), deleteIssue);
+
+// Project issue comments and files
+router.get('/:projectId/issues/:issueRef/comments', validateProjectIssueParams, resolveProjectIssue('issueId'), validateCommentQuery, getCommentsForIssue);
+router.post('/:projectId/issues/:issueRef/comments',
+  validateProjectIssueParams,
+  resolveProjectIssue('issueId'),
+  validateCreateComment,
+  authorize('comment:create', loaders.issue('issueId')),
+  createComment
+);
+router.get('/:projectId/issues/:issueRef/files', validateProjectIssueParams, resolveProjectIssue('issueId'), getFilesForIssue);
+router.post('/:projectId/issues/:issueRef/files',
+  validateProjectIssueParams,
+  resolveProjectIssue('issueId'),
+  authorize('file:upload', loaders.issue('issueId')),
+  checkUploadQuota(loaders.issue('issueId')),
+  uploadMultiple('files', 5),
+  validateUploadedFile,
+  handleUploadError,
+  cleanupOnError,
+  uploadFiles
+);
+
+export default router;
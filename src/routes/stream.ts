@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { streamEvents } from '../controllers/streamController';
+import { authenticate } from '../middleware/auth';
+import { validateStreamQuery } from '../middleware/validation';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Server-Sent Events stream, filterable by ?issue=, ?assignee= (ID or 'me') and ?project=
+router.get('/', validateStreamQuery, streamEvents);
+
+export default router;
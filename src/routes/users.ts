@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { getUsers, getMentionableUsers, updateUserRole, updateUserStorageQuota } from '../controllers/userController';
+import { authenticate } from '../middleware/auth';
+import { authorize } from '../middleware/authorize';
+import { validateUpdateUserRole, validateUpdateStorageQuota, validateMentionableQuery, validateObjectIdParam } from '../middleware/validation';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Any user may look up who to @mention
+router.get('/mentionable', validateMentionableQuery, getMentionableUsers);
+
+// All routes below require the user:manage permission
+router.use(authorize('user:manage'));
+
+router.get('/', getUsers);
+router.patch('/:id/role', validateObjectIdParam, validateUpdateUserRole, updateUserRole);
+router.patch('/:id/quota', validateObjectIdParam, validateUpdateStorageQuota, updateUserStorageQuota);
+
+export default router;
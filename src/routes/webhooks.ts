@@ -0,0 +1,35 @@
+import { Router } from 'express';
+import { getWebhooks, getWebhookById, createWebhook, updateWebhook, deleteWebhook, getWebhookDeliveries, redeliverWebhookDelivery } from '../controllers/webhookController';
+import { authenticate } from '../middleware/auth';
+import { authorize, loaders } from '../middleware/authorize';
+import { validateCreateWebhook, validateUpdateWebhook, validateCommentQuery, validateObjectIdParam, validateWebhookDeliveryParams } from '../middleware/validation';
+
+const router = Router();
+
+// All routes require authentication
+// Webhooks are authorized against their project, webhooks for all projects are admin-only
+router.use(authenticate);
+
+router.get('/', getWebhooks);
+router.post('/', validateCreateWebhook, authorize('webhook:manage', loaders.webhookProject()), createWebhook);
+
+// Individual webhook routes
+router.get('/:id', validateObjectIdParam, authorize('webhook:manage', loaders.webhook()), getWebhookById);
+router.put('/:id',
+  validateObjectIdParam,
+  validateUpdateWebhook,
+  authorize('webhook:manage', loaders.webhook()),
+  authorize('webhook:manage', loaders.webhookProject(), { when: req => req.body.project !== undefined }),
+  updateWebhook
+);
+router.delete('/:id', validateObjectIdParam, authorize('webhook:manage', loaders.webhook()), deleteWebhook);
+
+// Delivery log
+router.get('/:id/deliveries', validateObjectIdParam, authorize('webhook:manage', loaders.webhook()), validateCommentQuery, getWebhookDeliveries);
+router.post('/:id/deliveries/:deliveryId/redeliver',
+  validateWebhookDeliveryParams,
+  authorize('webhook:manage', loaders.webhook()),
+  redeliverWebhookDelivery
+);
+
+export default router;
@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { getWorkflows, getWorkflowById, createWorkflow, updateWorkflow, deleteWorkflow } from '../controllers/workflowController';
+import { authenticate } from '../middleware/auth';
+import { authorize } from '../middleware/authorize';
+import { validateCreateWorkflow, validateUpdateWorkflow, validateObjectIdParam } from '../middleware/validation';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+router.get('/', getWorkflows);
+router.post('/', authorize('workflow:manage'), validateCreateWorkflow, createWorkflow);
+
+// Individual workflow routes
+router.get('/:id', validateObjectIdParam, getWorkflowById);
+router.put('/:id', validateObjectIdParam, authorize('workflow:manage'), validateUpdateWorkflow, updateWorkflow);
+router.delete('/:id', validateObjectIdParam, authorize('workflow:manage'), deleteWorkflow);
+
+export default router;
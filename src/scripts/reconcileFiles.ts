@@ -0,0 +1,26 @@
+import dotenv from 'dotenv';
+import { database } from '../utils/database';
+import { fileReconciler } from '../utils/fileReconciler';
+import { logger } from '../utils/logger';
+
+dotenv.config();
+
+// Compare file documents with the stored contents and write a report
+// Usage: npm run reconcile-files [-- --fix]
+const main = async () => {
+  const fix = process.argv.includes('--fix');
+
+  await database.connect();
+  try {
+    const report = await fileReconciler.run({ fix });
+    console.log(JSON.stringify(report, null, 2));
+    process.exitCode = report.errors.length > 0 ? 1 : 0;
+  } finally {
+    await database.disconnect();
+  }
+};
+
+main().catch(error => {
+  logger.error('File reconciliation failed:', error);
+  process.exit(1);
+});
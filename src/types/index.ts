@@ -2,13 +2,22 @@ import { Request } from 'express';
 import { Document } from 'mongoose';
 import mongoose from 'mongoose';
 
+// Role related types
+export type Role = 'admin' | 'maintainer' | 'member' | 'reporter' | 'viewer';
+export type ProjectRole = Exclude<Role, 'admin'>;
+
 // User related types
 export interface IUser extends Document {
   _id: string;
   email: string;
+  username?: string;
   password: string;
   firstName: string;
   lastName: string;
+  role: Role;
+  emailVerified: boolean;
+  emailVerifiedAt?: Date;
+  storageQuota?: number | null;
   createdAt: Date;
   updatedAt: Date;
   
@@ -24,14 +33,21 @@ export interface IIssue extends Document {
   _id: string;
   title: string;
   description: string;
-  status: 'pending' | 'complete';
+  status: string;
   priority: 'low' | 'medium' | 'high';
+  project?: mongoose.Types.ObjectId;
+  key?: string;
+  number?: number;
+  workflow?: mongoose.Types.ObjectId;
+  labels?: mongoose.Types.ObjectId[];
   assignedTo?: mongoose.Types.ObjectId;
   createdBy: mongoose.Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
   comments?: mongoose.Types.ObjectId[];
   files?: mongoose.Types.ObjectId[];
+  mentions?: mongoose.Types.ObjectId[];
+  followers?: mongoose.Types.ObjectId[];
   
   // Instance methods
   addComment(commentId: mongoose.Types.ObjectId): Promise<IIssue>;
@@ -40,14 +56,146 @@ export interface IIssue extends Document {
   removeFile(fileId: mongoose.Types.ObjectId): Promise<IIssue>;
 }
 
+// Project related types
+export interface IProjectMember {
+  user: mongoose.Types.ObjectId;
+  role: ProjectRole;
+  joinedAt: Date;
+}
+
+export interface IProject extends Document {
+  _id: string;
+  name: string;
+  key: string;
+  description?: string;
+  owner: mongoose.Types.ObjectId;
+  members: IProjectMember[];
+  workflow?: mongoose.Types.ObjectId;
+  issueCounter: number;
+  storageQuota?: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Instance methods
+  isMember(userId: mongoose.Types.ObjectId | string): boolean;
+  isOwner(userId: mongoose.Types.ObjectId | string): boolean;
+}
+
+// Label related types
+export interface ILabel extends Document {
+  _id: string;
+  name: string;
+  color: string;
+  description?: string;
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Issue history related types
+export type IssueHistoryAction =
+  | 'created'
+  | 'updated'
+  | 'status_changed'
+  | 'comment_added'
+  | 'comment_removed'
+  | 'file_added'
+  | 'file_removed'
+  | 'deleted';
+
+export interface IIssueFieldChange {
+  field: string;
+  from?: any;
+  to?: any;
+}
+
+export interface IIssueHistory extends Document {
+  _id: string;
+  issueId: mongoose.Types.ObjectId;
+  changedBy: mongoose.Types.ObjectId;
+  action: IssueHistoryAction;
+  changes: IIssueFieldChange[];
+  reason?: string;
+  createdAt: Date;
+}
+
+// Workflow related types
+export interface IWorkflowStatus {
+  key: string;
+  name: string;
+  isInitial: boolean;
+  isFinal: boolean;
+}
+
+export interface IWorkflowTransition {
+  from: string;
+  to: string;
+}
+
+export interface IWorkflow extends Document {
+  _id: string;
+  name: string;
+  description?: string;
+  statuses: IWorkflowStatus[];
+  transitions: IWorkflowTransition[];
+  isDefault: boolean;
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Instance methods
+  hasStatus(key: string): boolean;
+  getInitialStatus(): string;
+  canTransition(from: string, to: string): boolean;
+  getAvailableTransitions(from: string): string[];
+}
+
 // Comment related types
 export interface IComment extends Document {
   _id: string;
-  content: string;
+  content?: string;
   issueId: mongoose.Types.ObjectId;
   userId: mongoose.Types.ObjectId;
+  parentId?: mongoose.Types.ObjectId | null;
+  threadId?: mongoose.Types.ObjectId | null;
+  depth: number;
+  deleted: boolean;
+  deletedAt?: Date | null;
+  edited: boolean;
+  editedAt?: Date | null;
+  mentions?: mongoose.Types.ObjectId[];
   createdAt: Date;
   updatedAt: Date;
+
+  // Instance methods
+  removeFromThread(): Promise<'deleted' | 'placeholder'>;
+}
+
+// Earlier content of an edited comment
+export interface ICommentRevision extends Document {
+  _id: string;
+  commentId: mongoose.Types.ObjectId;
+  issueId: mongoose.Types.ObjectId;
+  content: string;
+  authoredAt: Date;
+  editedBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+// Notification related types
+export type NotificationType = 'assigned' | 'status_changed' | 'comment' | 'mention';
+
+export interface INotification extends Document {
+  _id: string;
+  user: mongoose.Types.ObjectId;
+  type: NotificationType;
+  issueId: mongoose.Types.ObjectId;
+  commentId?: mongoose.Types.ObjectId | null;
+  actor: mongoose.Types.ObjectId;
+  message: string;
+  read: boolean;
+  readAt?: Date | null;
+  createdAt: Date;
 }
 
 // File related types
@@ -56,20 +204,187 @@ export interface IFile extends Document {
   filename: string;
   originalName: string;
   mimetype: string;
+  detectedMimetype?: string;
   size: number;
-  path: string;
+  checksum?: string;
+  storageKey: string;
+  scanStatus: FileScanStatus;
+  scanSignature?: string;
+  scannedAt?: Date;
   issueId: mongoose.Types.ObjectId;
   uploadedBy: mongoose.Types.ObjectId;
   uploadedAt: Date;
+  version: number;
+  versionOf?: mongoose.Types.ObjectId | null;
+  isLatest: boolean;
+
+  // Virtual properties
+  attachmentId: mongoose.Types.ObjectId;
   
   // Instance methods
-  fileExists(): boolean;
-  deleteFromDisk(): boolean;
+  existsInStorage(): Promise<boolean>;
+  deleteFromStorage(): Promise<boolean>;
+  verifyIntegrity(): Promise<FileIntegrityStatus>;
+}
+
+// Malware scan state of an uploaded file, only clean files can be downloaded
+export type FileScanStatus = 'pending' | 'clean' | 'infected' | 'error';
+
+// Result of comparing stored contents with the recorded checksum
+export type FileIntegrityStatus = 'ok' | 'missing' | 'corrupted' | 'unverified';
+
+// Storage used against a quota, a null limit means unlimited
+export interface StorageQuotaUsage {
+  used: number;
+  limit: number | null;
+  remaining: number | null;
+}
+
+// Stored contents shared by all files with the same checksum
+export interface IFileBlob extends Document {
+  _id: string;
+  checksum: string;
+  storageKey: string;
+  size: number;
+  refCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// State of a resumable upload, a completing upload is being assembled and takes no further requests
+export type UploadSessionStatus = 'open' | 'completing';
+
+// One stored part of a resumable upload
+export interface IUploadChunk {
+  key: string;
+  offset: number;
+  size: number;
+}
+
+// Resumable upload that becomes a file once all bytes are received
+export interface IUploadSession extends Document {
+  _id: string;
+  issueId: mongoose.Types.ObjectId;
+  uploadedBy: mongoose.Types.ObjectId;
+  originalName: string;
+  mimetype: string;
+  size: number;
+  checksum: string;
+  offset: number;
+  chunks: IUploadChunk[];
+  status: UploadSessionStatus;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Instance methods
+  deleteChunks(): Promise<void>;
+}
+
+// File document found by a reconciliation run
+export interface ReconciledFile {
+  fileId: string;
+  issueId: string;
+  storageKey: string;
+  originalName: string;
+}
+
+// Stored object found by a reconciliation run
+export interface ReconciledObject {
+  key: string;
+  size: number;
+  modifiedAt?: Date;
+}
+
+// Blob whose reference count does not match the files using it
+export interface ReconciledBlob {
+  checksum: string;
+  storageKey: string;
+  refCount: number;
+  references: number;
+}
+
+// Summary of a reconciliation run between file documents and stored contents
+// Object lists are null when the storage driver cannot list its contents
+export interface ReconciliationReport {
+  startedAt: Date;
+  finishedAt: Date;
+  fix: boolean;
+  storageDriver: string;
+  storageSize: number | null;
+  missingContents: ReconciledFile[];
+  danglingFiles: ReconciledFile[];
+  miscountedBlobs: ReconciledBlob[];
+  orphanedObjects: ReconciledObject[] | null;
+  orphanedThumbnails: ReconciledObject[] | null;
+  orphanedChunks: ReconciledObject[] | null;
+  reclaimableSize: number;
+  fixed: number;
+  errors: string[];
+}
+
+// Issue event types
+export type IssueEventType =
+  | 'issue.created'
+  | 'issue.updated'
+  | 'issue.deleted'
+  | 'issue.status_changed'
+  | 'comment.created'
+  | 'file.uploaded';
+
+export interface IssueEvent {
+  id: number;
+  type: IssueEventType;
+  issueId: string;
+  projectId: string | null;
+  assigneeId: string | null;
+  actorId: string;
+  data: any;
+  timestamp: Date;
+}
+
+// Webhook related types
+export type WebhookDeliveryStatus = 'pending' | 'success' | 'failed';
+
+export interface IWebhook extends Document {
+  _id: string;
+  url: string;
+  secret: string;
+  events: string[];
+  project?: mongoose.Types.ObjectId;
+  description?: string;
+  active: boolean;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // Instance methods
+  isSubscribedTo(event: IssueEvent): boolean;
+}
+
+export interface IWebhookDelivery extends Document {
+  _id: string;
+  webhookId: mongoose.Types.ObjectId;
+  event: IssueEventType;
+  payload: any;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: Date | null;
+  lastAttemptAt?: Date;
+  responseStatus?: number;
+  responseBody?: string;
+  error?: string;
+  duration?: number;
+  redeliveryOf?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 // Request types
 export interface AuthRequest extends Request {
   user?: IUser;
+  sessionId?: string;
+  project?: IProject;
 }
 
 // API Response types
@@ -102,10 +417,12 @@ export interface PaginatedResponse<T> {
 
 // Query parameters for issues
 export interface IssueQueryParams {
-  status?: 'pending' | 'complete';
+  status?: string;
   priority?: 'low' | 'medium' | 'high';
   assignedTo?: string;
   createdBy?: string;
+  labels?: string;
+  labelMatch?: 'any' | 'all';
   search?: string;
   page?: string;
   limit?: string;
@@ -115,10 +432,51 @@ export interface IssueQueryParams {
 export interface JwtPayload {
   userId: string;
   email: string;
+  sessionId?: string;
+  jti?: string;
   iat?: number;
   exp?: number;
 }
 
+// One-time token related types
+export type UserTokenPurpose = 'password_reset' | 'email_verification';
+
+export interface IUserToken extends Document {
+  _id: string;
+  user: mongoose.Types.ObjectId;
+  purpose: UserTokenPurpose;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date | null;
+  createdAt: Date;
+}
+
+// Mail related types
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Refresh token related types
+export type RefreshTokenRevokeReason = 'rotated' | 'logout' | 'password_changed' | 'session_revoked' | 'reuse_detected';
+
+export interface IRefreshToken extends Document {
+  _id: string;
+  user: mongoose.Types.ObjectId;
+  familyId: mongoose.Types.ObjectId;
+  tokenHash: string;
+  expiresAt: Date;
+  sessionStartedAt: Date;
+  userAgent?: string;
+  ipAddress?: string;
+  replacedBy?: mongoose.Types.ObjectId;
+  revokedAt?: Date | null;
+  revokedReason?: RefreshTokenRevokeReason;
+  createdAt: Date;
+}
+
 // Error types 
 export interface CustomError extends Error {
   statusCode?: number;
@@ -0,0 +1,202 @@
+import mongoose from 'mongoose';
+import { IUser, IIssue, IComment, IFile, IProject, Role, ProjectRole } from '../types';
+
+// Every action a route can be guarded by
+export type Action =
+  | 'issue:read'
+  | 'issue:create'
+  | 'issue:update'
+  | 'issue:assign'
+  | 'issue:status'
+  | 'issue:delete'
+  | 'comment:create'
+  | 'comment:update'
+  | 'comment:delete'
+  | 'comment:revisions'
+  | 'file:upload'
+  | 'file:delete'
+  | 'file:scan'
+  | 'project:create'
+  | 'project:manage'
+  | 'workflow:manage'
+  | 'label:manage'
+  | 'webhook:manage'
+  | 'quota:manage'
+  | 'user:manage';
+
+// 'any' grants the action on every resource, 'own' only where the ownership rule holds
+type Scope = 'any' | 'own';
+
+// Resources an authorization decision can depend on
+export interface AuthorizationContext {
+  project?: IProject | null;
+  issue?: IIssue | null;
+  comment?: IComment | null;
+  file?: IFile | null;
+}
+
+export const ROLES: Role[] = ['admin', 'maintainer', 'member', 'reporter', 'viewer'];
+export const PROJECT_ROLES: ProjectRole[] = ['maintainer', 'member', 'reporter', 'viewer'];
+
+//Permissions granted to each role
+const ROLE_PERMISSIONS: Record<Role, Partial<Record<Action, Scope>>> = {
+  admin: {
+    'issue:read': 'any',
+    'issue:create': 'any',
+    'issue:update': 'any',
+    'issue:assign': 'any',
+    'issue:status': 'any',
+    'issue:delete': 'any',
+    'comment:create': 'any',
+    'comment:update': 'any',
+    'comment:delete': 'any',
+    'comment:revisions': 'any',
+    'file:upload': 'any',
+    'file:delete': 'any',
+    'file:scan': 'any',
+    'project:create': 'any',
+    'project:manage': 'any',
+    'workflow:manage': 'any',
+    'label:manage': 'any',
+    'webhook:manage': 'any',
+    'quota:manage': 'any',
+    'user:manage': 'any'
+  },
+  maintainer: {
+    'issue:read': 'any',
+    'issue:create': 'any',
+    'issue:update': 'any',
+    'issue:assign': 'any',
+    'issue:status': 'any',
+    'issue:delete': 'any',
+    'comment:create': 'any',
+    'comment:update': 'own',
+    'comment:delete': 'any',
+    'comment:revisions': 'own',
+    'file:upload': 'any',
+    'file:delete': 'any',
+    'project:create': 'any',
+    'project:manage': 'any',
+    'workflow:manage': 'any',
+    'label:manage': 'any',
+    'webhook:manage': 'own'
+  },
+  member: {
+    'issue:read': 'any',
+    'issue:create': 'any',
+    'issue:update': 'own',
+    'issue:assign': 'own',
+    'issue:status': 'own',
+    'issue:delete': 'own',
+    'comment:create': 'any',
+    'comment:update': 'own',
+    'comment:delete': 'own',
+    'comment:revisions': 'own',
+    'file:upload': 'own',
+    'file:delete': 'own',
+    'project:create': 'any'
+  },
+  reporter: {
+    'issue:read': 'any',
+    'issue:create': 'any',
+    'issue:update': 'own',
+    'comment:create': 'any',
+    'comment:update': 'own',
+    'comment:delete': 'own',
+    'comment:revisions': 'own',
+    'file:upload': 'own',
+    'file:delete': 'own'
+  },
+  viewer: {
+    'issue:read': 'any',
+    'comment:revisions': 'own'
+  }
+};
+
+const sameId = (a?: mongoose.Types.ObjectId | string | null, b?: mongoose.Types.ObjectId | string | null): boolean => {
+  return !!a && !!b && a.toString() === b.toString();
+};
+
+const isIssueCreatorOrAssignee = (user: IUser, issue?: IIssue | null): boolean => {
+  return !!issue && (sameId(issue.createdBy, user._id) || sameId(issue.assignedTo, user._id));
+};
+
+//Ownership rules for actions granted with the 'own' scope
+const OWNERSHIP_RULES: Partial<Record<Action, (user: IUser, context: AuthorizationContext) => boolean>> = {
+  'issue:update': (user, { issue }) => isIssueCreatorOrAssignee(user, issue),
+  'issue:status': (user, { issue }) => isIssueCreatorOrAssignee(user, issue),
+  // Assigning while creating an issue is assigning your own issue
+  'issue:assign': (user, { issue }) => !issue || isIssueCreatorOrAssignee(user, issue),
+  'issue:delete': (user, { issue }) => !!issue && sameId(issue.createdBy, user._id),
+  'comment:update': (user, { comment }) => !!comment && sameId(comment.userId, user._id),
+  'comment:revisions': (user, { comment, issue }) =>
+    (!!comment && sameId(comment.userId, user._id)) || (!!issue && sameId(issue.createdBy, user._id)),
+  'comment:delete': (user, { comment, issue }) =>
+    (!!comment && sameId(comment.userId, user._id)) || (!!issue && sameId(issue.createdBy, user._id)),
+  // Webhooks without a project receive the events of every project, only admins may manage those
+  'webhook:manage': (user, { project }) => !!project,
+  'file:upload': (user, { issue }) => isIssueCreatorOrAssignee(user, issue),
+  'file:delete': (user, { file, issue }) =>
+    (!!file && sameId(file.uploadedBy, user._id)) || (!!issue && sameId(issue.createdBy, user._id))
+};
+
+//Messages returned when an action is denied
+const DENIAL_MESSAGES: Partial<Record<Action, string>> = {
+  'issue:read': 'You do not have access to this issue',
+  'issue:create': 'You are not allowed to create issues',
+  'issue:update': 'You can only edit issues you created or are assigned to',
+  'issue:assign': 'You are not allowed to assign this issue',
+  'issue:status': 'You can only update status of issues you created or are assigned to',
+  'issue:delete': 'You can only delete issues you created',
+  'comment:create': 'You are not allowed to comment on this issue',
+  'comment:update': 'You can only edit your own comments',
+  'comment:delete': 'You can only delete your own comments or comments on your issues',
+  'comment:revisions': 'Only the author, the issue owner and admins can see earlier versions of a comment',
+  'file:upload': 'You can only upload files to issues you created or are assigned to',
+  'file:delete': 'You can only delete files you uploaded or files from your issues',
+  'file:scan': 'Only admins can rescan files',
+  'project:create': 'You are not allowed to create projects',
+  'project:manage': 'Only project maintainers can manage this project',
+  'workflow:manage': 'Only maintainers and admins can manage workflows',
+  'label:manage': 'Only maintainers and admins can manage labels',
+  'webhook:manage': 'Only project maintainers and admins can manage webhooks, webhooks for all projects are admin-only',
+  'quota:manage': 'Only admins can change storage quotas',
+  'user:manage': 'Only admins can manage users'
+};
+
+//Central authorization policy for roles and resource ownership
+export class Authorization {
+  //Get the role a user acts with, inside a project when one is given
+  //Returns null when the user is not a member of the project
+  public static getEffectiveRole(user: IUser, project?: IProject | null): Role | null {
+    if (user.role === 'admin') return 'admin';
+    if (!project) return user.role || 'member';
+
+    if (sameId(project.owner, user._id)) return 'maintainer';
+    const member = project.members.find(entry => sameId(entry.user, user._id));
+    return member ? member.role || 'member' : null;
+  }
+
+  //Check whether a user may perform an action on the given resources
+  public static can(user: IUser, action: Action, context: AuthorizationContext = {}): boolean {
+    const role = this.getEffectiveRole(user, context.project);
+    if (!role) return false;
+
+    const scope = ROLE_PERMISSIONS[role][action];
+    if (!scope) return false;
+    if (scope === 'any') return true;
+
+    const rule = OWNERSHIP_RULES[action];
+    return rule ? rule(user, context) : false;
+  }
+
+  //Get the message explaining why an action was denied
+  public static getDenialMessage(action: Action): string {
+    return DENIAL_MESSAGES[action] || 'Access denied';
+  }
+
+  //List the actions a role is granted, for clients to adapt their UI
+  public static getPermissions(role: Role): Partial<Record<Action, Scope>> {
+    return { ...ROLE_PERMISSIONS[role] };
+  }
+}
@@ -47,6 +47,27 @@ export class ConflictError extends AppError {
   }
 }
 
+//Workflow error for status transitions the workflow does not permit
+export class InvalidTransitionError extends AppError {
+  constructor(message: string) {
+    super(message, 422);
+  }
+}
+
+//Range error for byte ranges outside the requested file
+export class RangeNotSatisfiableError extends AppError {
+  constructor(message: string = 'Requested range not satisfiable') {
+    super(message, 416);
+  }
+}
+
+//Quota error for uploads that would exceed a storage quota
+export class QuotaExceededError extends AppError {
+  constructor(message: string = 'Storage quota exceeded') {
+    super(message, 413);
+  }
+}
+
 //Database error
 export class DatabaseError extends AppError {
   constructor(message: string = 'Database operation failed') {
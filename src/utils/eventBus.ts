@@ -0,0 +1,85 @@
+import { EventEmitter } from 'events';
+import mongoose from 'mongoose';
+import { IIssue, IssueEvent, IssueEventType } from '../types';
+import { logger } from './logger';
+
+type IssueEventListener = (event: IssueEvent) => void;
+
+export const ISSUE_EVENT_TYPES: IssueEventType[] = [
+  'issue.created',
+  'issue.updated',
+  'issue.deleted',
+  'issue.status_changed',
+  'comment.created',
+  'file.uploaded'
+];
+
+// References may be populated documents or plain IDs
+const toId = (value?: any): string | null => {
+  if (!value) return null;
+  return (value._id || value).toString();
+};
+
+// EventBus class that implements Singleton pattern for in-process issue events
+// Controllers publish what happened and subscribers (e.g. the SSE stream) react to it
+export class EventBus {
+  private static instance: EventBus;
+
+  private emitter = new EventEmitter();
+
+  // Sequence number used as the event ID, e.g. for the SSE id field
+  private sequence: number = 0;
+
+  private constructor() {
+    // Every open stream subscribes, so the default limit of 10 is too low
+    this.emitter.setMaxListeners(0);
+  }
+
+  public static getInstance(): EventBus {
+    if (!EventBus.instance) {
+      EventBus.instance = new EventBus();
+    }
+    return EventBus.instance;
+  }
+
+  // Publish an event about an issue
+  // The issue provides the context subscribers filter on
+  public publish(type: IssueEventType, issue: IIssue, actorId: mongoose.Types.ObjectId | string, data: any = {}): IssueEvent {
+    const event: IssueEvent = {
+      id: ++this.sequence,
+      type,
+      issueId: issue._id.toString(),
+      projectId: toId(issue.project),
+      assigneeId: toId(issue.assignedTo),
+      actorId: actorId.toString(),
+      data,
+      timestamp: new Date()
+    };
+
+    // A failing subscriber must not break the request that published the event
+    for (const listener of this.emitter.listeners('event') as IssueEventListener[]) {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.error(`Issue event subscriber failed for ${type}:`, error);
+      }
+    }
+
+    return event;
+  }
+
+  // Subscribe to all issue events, returns a function that removes the subscription
+  public subscribe(listener: IssueEventListener): () => void {
+    this.emitter.on('event', listener);
+    return () => {
+      this.emitter.off('event', listener);
+    };
+  }
+
+  // Number of active subscribers
+  public getSubscriberCount(): number {
+    return this.emitter.listenerCount('event');
+  }
+}
+
+export const eventBus = EventBus.getInstance();
@@ -0,0 +1,340 @@
+import fs from 'fs';
+import path from 'path';
+import mongoose from 'mongoose';
+import { File } from '../models/File';
+import { FileBlob } from '../models/FileBlob';
+import { Issue } from '../models/Issue';
+import { UploadSession } from '../models/UploadSession';
+import { IFile, ReconciledFile, ReconciledObject, ReconciliationReport } from '../types';
+import { FileUtils } from './fileUtils';
+import { LocalStorageProvider, storage } from './storage';
+import { Thumbnails } from './thumbnails';
+import { logger } from './logger';
+
+// Prefix of storage keys holding the chunks of resumable uploads, one folder per session
+const CHUNK_PREFIX = 'chunks/';
+
+// Objects younger than this are left alone, an upload stores its contents before the file document exists
+const getGracePeriod = (): number => parseInt(process.env.RECONCILE_GRACE_PERIOD || '3600000');
+// Time between scheduled runs, 0 disables the schedule
+const getInterval = (): number => parseInt(process.env.RECONCILE_INTERVAL || '86400000');
+const getReportDir = (): string => process.env.RECONCILE_REPORT_DIR || 'logs';
+
+export interface ReconcileOptions {
+  // Delete orphans and correct documents instead of only reporting them
+  fix?: boolean;
+  gracePeriod?: number;
+}
+
+const describeFile = (file: IFile): ReconciledFile => ({
+  fileId: file._id.toString(),
+  issueId: file.issueId.toString(),
+  storageKey: file.storageKey,
+  originalName: file.originalName
+});
+
+// List every object below a directory with its key relative to the storage root
+const listObjects = async (root: string, directory = root): Promise<ReconciledObject[]> => {
+  if (!(await FileUtils.fileExists(directory))) {
+    return [];
+  }
+
+  const objects: ReconciledObject[] = [];
+  for (const entry of await fs.promises.readdir(directory, { withFileTypes: true })) {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      objects.push(...await listObjects(root, entryPath));
+    } else if (entry.isFile()) {
+      const stats = await fs.promises.stat(entryPath);
+      objects.push({
+        key: path.relative(root, entryPath).split(path.sep).join('/'),
+        size: stats.size,
+        modifiedAt: stats.mtime
+      });
+    }
+  }
+  return objects;
+};
+
+// FileReconciler class that implements Singleton pattern for the orphaned file job
+// Compares file documents with the stored contents in both directions and reports or fixes the differences
+export class FileReconciler {
+  private static instance: FileReconciler;
+
+  private timer?: NodeJS.Timeout;
+
+  private running?: Promise<ReconciliationReport>;
+
+  private constructor() {}
+
+  public static getInstance(): FileReconciler {
+    if (!FileReconciler.instance) {
+      FileReconciler.instance = new FileReconciler();
+    }
+    return FileReconciler.instance;
+  }
+
+  // Run the job every RECONCILE_INTERVAL, fixing only when RECONCILE_FIX is true
+  public start(): void {
+    const interval = getInterval();
+    if (this.timer || interval <= 0) return;
+
+    this.timer = setInterval(() => {
+      this.run({ fix: process.env.RECONCILE_FIX === 'true' }).catch(error => {
+        logger.error('Scheduled file reconciliation failed:', error);
+      });
+    }, interval);
+    this.timer.unref();
+  }
+
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  // Reconcile and write the report, a run already in progress is joined instead of started twice
+  public run(options: ReconcileOptions = {}): Promise<ReconciliationReport> {
+    if (!this.running) {
+      this.running = this.reconcile(options).finally(() => {
+        this.running = undefined;
+      });
+    }
+    return this.running;
+  }
+
+  private async reconcile(options: ReconcileOptions): Promise<ReconciliationReport> {
+    const fix = options.fix === true;
+    const gracePeriod = options.gracePeriod ?? getGracePeriod();
+    const cutoff = Date.now() - gracePeriod;
+    const provider = storage.getProvider();
+
+    const report: ReconciliationReport = {
+      startedAt: new Date(),
+      finishedAt: new Date(),
+      fix,
+      storageDriver: provider.name,
+      storageSize: null,
+      missingContents: [],
+      danglingFiles: [],
+      miscountedBlobs: [],
+      orphanedObjects: null,
+      orphanedThumbnails: null,
+      orphanedChunks: null,
+      reclaimableSize: 0,
+      fixed: 0,
+      errors: []
+    };
+
+    // A failed fix is recorded and the run continues with the next one
+    const attemptFix = async (description: string, action: () => Promise<unknown>): Promise<void> => {
+      try {
+        await action();
+        report.fixed++;
+      } catch (error: any) {
+        logger.error(`Reconciliation could not ${description}:`, error);
+        report.errors.push(`Could not ${description}: ${error.message}`);
+      }
+    };
+
+    await this.checkFiles(report, fix, attemptFix);
+    await this.checkBlobs(report, fix, cutoff, attemptFix);
+
+    if (provider instanceof LocalStorageProvider) {
+      await this.checkStorage(report, provider.directory, fix, gracePeriod, attemptFix);
+    } else {
+      logger.warn(`Orphaned objects are not checked, the ${provider.name} storage cannot be listed`);
+    }
+
+    report.finishedAt = new Date();
+    await this.writeReport(report);
+    return report;
+  }
+
+  // Database to storage: files of deleted issues and files whose contents are gone
+  private async checkFiles(
+    report: ReconciliationReport,
+    fix: boolean,
+    attemptFix: (description: string, action: () => Promise<unknown>) => Promise<void>
+  ): Promise<void> {
+    const issueIds = await File.distinct('issueId');
+    const existingIssueIds = new Set(
+      (await Issue.find({ _id: { $in: issueIds } }).distinct('_id')).map(id => id.toString())
+    );
+
+    // Files sharing contents share the lookup
+    const stored = new Map<string, boolean>();
+    const found: IFile[] = [];
+    let checked = 0;
+
+    for await (const file of File.find().cursor()) {
+      if (!existingIssueIds.has(file.issueId.toString())) {
+        report.danglingFiles.push(describeFile(file));
+        found.push(file);
+        continue;
+      }
+
+      checked++;
+      if (!stored.has(file.storageKey)) {
+        stored.set(file.storageKey, await storage.exists(file.storageKey));
+      }
+      if (!stored.get(file.storageKey)) {
+        report.missingContents.push(describeFile(file));
+        found.push(file);
+      }
+    }
+
+    if (!fix || found.length === 0) return;
+
+    // Nothing stored at all rather points to a wrong storage configuration than to lost contents
+    if (checked > 0 && report.missingContents.length === checked) {
+      report.errors.push(`Contents of all ${checked} file(s) are missing, check the storage configuration. No file was deleted`);
+      return;
+    }
+
+    for (const file of found) {
+      await attemptFix(`delete file ${file._id}`, async () => {
+        // Releases the blob and removes the file from its issue like any other delete
+        await File.findByIdAndDelete(file._id);
+        if (file.isLatest) {
+          await (File as any).refreshLatestVersion(file.attachmentId);
+        }
+      });
+    }
+  }
+
+  // Blobs whose reference count drifted, e.g. when a delete failed halfway
+  private async checkBlobs(
+    report: ReconciliationReport,
+    fix: boolean,
+    cutoff: number,
+    attemptFix: (description: string, action: () => Promise<unknown>) => Promise<void>
+  ): Promise<void> {
+    const counts = await File.aggregate([
+      { $match: { checksum: { $type: 'string' } } },
+      { $group: { _id: '$checksum', references: { $sum: 1 } } }
+    ]);
+    const references = new Map<string, number>(counts.map(count => [count._id, count.references]));
+
+    // A blob is acquired before its file is saved, recently changed blobs may still be in use
+    for await (const blob of FileBlob.find({ updatedAt: { $lt: new Date(cutoff) } }).cursor()) {
+      const actual = references.get(blob.checksum) || 0;
+      if (actual === blob.refCount) continue;
+
+      report.miscountedBlobs.push({ checksum: blob.checksum, storageKey: blob.storageKey, refCount: blob.refCount, references: actual });
+
+      if (!fix) continue;
+
+      if (actual === 0) {
+        await attemptFix(`delete unreferenced blob ${blob.checksum}`, async () => {
+          await FileBlob.deleteOne({ _id: blob._id, refCount: blob.refCount });
+          await storage.delete(blob.storageKey);
+          await Thumbnails.deleteAll(blob.storageKey);
+        });
+      } else {
+        await attemptFix(`correct reference count of blob ${blob.checksum}`, () =>
+          FileBlob.updateOne({ _id: blob._id, refCount: blob.refCount }, { refCount: actual })
+        );
+      }
+    }
+  }
+
+  // Storage to database: contents, thumbnails and upload chunks no document refers to
+  private async checkStorage(
+    report: ReconciliationReport,
+    directory: string,
+    fix: boolean,
+    gracePeriod: number,
+    attemptFix: (description: string, action: () => Promise<unknown>) => Promise<void>
+  ): Promise<void> {
+    const root = path.resolve(directory);
+    report.storageSize = await FileUtils.getDirectorySize(root);
+    report.orphanedObjects = [];
+    report.orphanedThumbnails = [];
+    report.orphanedChunks = [];
+
+    // Listed after the database checks so keys released by their fixes count as orphaned
+    const referenced = new Set<string>([
+      ...await File.distinct('storageKey'),
+      ...await FileBlob.distinct('storageKey')
+    ]);
+    const cutoff = Date.now() - gracePeriod;
+    const isOld = (object: ReconciledObject): boolean => !object.modifiedAt || object.modifiedAt.getTime() < cutoff;
+
+    const chunkFolders = new Set<string>();
+
+    for (const object of await listObjects(root)) {
+      if (object.key.startsWith(CHUNK_PREFIX)) {
+        chunkFolders.add(object.key.split('/')[1]);
+        continue;
+      }
+
+      const sourceKey = Thumbnails.getSourceKey(object.key);
+      if (sourceKey !== null) {
+        if (referenced.has(sourceKey) || !isOld(object)) continue;
+        report.orphanedThumbnails.push(object);
+      } else {
+        if (referenced.has(object.key) || !isOld(object)) continue;
+        report.orphanedObjects.push(object);
+      }
+
+      report.reclaimableSize += object.size;
+      if (fix) {
+        await attemptFix(`delete orphaned object ${object.key}`, () => storage.delete(object.key));
+      }
+    }
+
+    // Chunks of sessions that no longer exist, e.g. when the session was removed but deleting its chunks failed
+    const sessionIds = [...chunkFolders].filter(id => mongoose.Types.ObjectId.isValid(id));
+    const sessions = new Set(
+      (await UploadSession.find({ _id: { $in: sessionIds } }).distinct('_id')).map(id => id.toString())
+    );
+
+    for (const sessionId of chunkFolders) {
+      if (sessions.has(sessionId)) continue;
+
+      const folder = path.join(root, CHUNK_PREFIX, sessionId);
+      const size = await FileUtils.getDirectorySize(folder);
+      report.orphanedChunks.push({ key: `${CHUNK_PREFIX}${sessionId}`, size });
+      report.reclaimableSize += size;
+
+      if (fix) {
+        await attemptFix(`delete chunks of upload session ${sessionId}`, async () => {
+          // Chunks written within the grace period are kept, the folder is only removed once empty
+          await FileUtils.cleanupOldFiles(folder, gracePeriod);
+          if ((await fs.promises.readdir(folder)).length === 0) {
+            await fs.promises.rmdir(folder);
+          }
+        });
+      }
+    }
+  }
+
+  // Write the report as JSON and log a one-line summary
+  private async writeReport(report: ReconciliationReport): Promise<void> {
+    const count = (list: unknown[] | null): string => list === null ? 'n/a' : list.length.toString();
+    logger.info(
+      'File reconciliation found ' +
+      `${report.missingContents.length} file(s) with missing contents, ` +
+      `${report.danglingFiles.length} file(s) of deleted issues, ` +
+      `${report.miscountedBlobs.length} miscounted blob(s), ` +
+      `${count(report.orphanedObjects)} orphaned object(s), ` +
+      `${count(report.orphanedThumbnails)} orphaned thumbnail(s), ` +
+      `${count(report.orphanedChunks)} orphaned upload(s), ` +
+      `${FileUtils.formatFileSize(report.reclaimableSize)} reclaimable` +
+      (report.fix ? `, ${report.fixed} fixed` : '')
+    );
+
+    try {
+      const reportDir = getReportDir();
+      await FileUtils.ensureDirectory(reportDir);
+      const filename = `reconciliation-${report.startedAt.toISOString().replace(/[:.]/g, '-')}.json`;
+      await fs.promises.writeFile(path.join(reportDir, filename), JSON.stringify(report, null, 2));
+    } catch (error) {
+      logger.error('Could not write the file reconciliation report:', error);
+    }
+  }
+}
+
+export const fileReconciler = FileReconciler.getInstance();
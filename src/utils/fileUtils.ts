@@ -121,6 +121,76 @@ export class FileUtils {
     return mimeTypes[extension.toLowerCase()] || 'application/octet-stream';
   }
 
+  //Detect the MIME type from the leading bytes of a file, null when the content is not recognised
+  //ZIP archives are reported as Word or Excel documents when their entries show it
+  static detectMimeType(head: Buffer): string | null {
+    const startsWith = (bytes: number[], offset: number = 0): boolean =>
+      head.length >= offset + bytes.length && bytes.every((byte, i) => head[offset + i] === byte);
+    const ascii = (text: string): number[] => [...text].map(char => char.charCodeAt(0));
+
+    if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+    if (startsWith([0xff, 0xd8, 0xff])) return 'image/jpeg';
+    if (startsWith(ascii('GIF87a')) || startsWith(ascii('GIF89a'))) return 'image/gif';
+    if (startsWith(ascii('RIFF')) && startsWith(ascii('WEBP'), 8)) return 'image/webp';
+    if (startsWith(ascii('%PDF-'))) return 'application/pdf';
+    if (startsWith([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return 'application/x-ole-storage';
+
+    if (startsWith([0x50, 0x4b, 0x03, 0x04]) || startsWith([0x50, 0x4b, 0x05, 0x06])) {
+      const entries = head.toString('latin1');
+      if (entries.includes('word/')) return 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+      if (entries.includes('xl/')) return 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+      return 'application/zip';
+    }
+
+    return this.looksLikeText(head) ? 'text/plain' : null;
+  }
+
+  //Heuristic for plain text: no NUL or other control bytes and valid UTF-8
+  //A multi-byte character cut off at the end of the sample is allowed
+  static looksLikeText(head: Buffer): boolean {
+    for (const byte of head) {
+      if (byte === 0x7f || (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0d && byte !== 0x0c)) {
+        return false;
+      }
+    }
+
+    for (let trim = 0; trim < 4 && trim <= head.length; trim++) {
+      try {
+        new TextDecoder('utf-8', { fatal: true }).decode(head.subarray(0, head.length - trim));
+        return true;
+      } catch (error) {
+        // Try again without a possibly truncated trailing character
+      }
+    }
+    return false;
+  }
+
+  //Check whether a declared MIME type fits the detected one
+  static isMimeTypeCompatible(declared: string, detected: string): boolean {
+    const compatible: { [key: string]: string[] } = {
+      'text/plain': ['text/plain', 'text/csv'],
+      'application/zip': [
+        'application/zip',
+        'application/x-zip-compressed',
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      ],
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document': [
+        'application/zip',
+        'application/x-zip-compressed',
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+      ],
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': [
+        'application/zip',
+        'application/x-zip-compressed',
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      ],
+      'application/x-ole-storage': ['application/msword', 'application/vnd.ms-excel']
+    };
+
+    return (compatible[detected] || [detected]).includes(declared);
+  }
+
   //Clean up temporary files older than specified time
   static async cleanupOldFiles(directoryPath: string, maxAgeMs: number): Promise<number> {
     try {
@@ -0,0 +1,106 @@
+import path from 'path';
+import { IComment, IFile, IIssue } from '../types';
+
+// Names of the optional manifest entries, never used for attachments
+export const ARCHIVE_MANIFEST_NAMES = ['issue.json', 'comments.md'];
+
+// Types that are already compressed and are stored in the archive as they are
+const COMPRESSED_MIME_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'application/zip',
+  'application/x-zip-compressed',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+];
+
+// Populated user reference as returned by populate('...', 'firstName lastName email')
+const describeUser = (user: any): string | null => {
+  if (!user) return null;
+  if (!user.email) return user.toString();
+  return `${user.firstName} ${user.lastName} <${user.email}>`;
+};
+
+//Utility class for ZIP archives of an issue's attachments
+export class IssueArchive {
+  //Get an entry name that is not used yet, e.g. "report (2).pdf" for a second "report.pdf"
+  //Names are compared case-insensitively since many file systems do not distinguish case
+  public static uniqueName(originalName: string, used: Set<string>): string {
+    // Path separators would create folders or escape the archive when extracted
+    const safeName = originalName.replace(/[\/\\]/g, '_').replace(/^\.+/, '_') || 'file';
+    const ext = path.extname(safeName);
+    const base = safeName.slice(0, safeName.length - ext.length);
+
+    let name = safeName;
+    for (let counter = 2; used.has(name.toLowerCase()); counter++) {
+      name = `${base} (${counter})${ext}`;
+    }
+
+    used.add(name.toLowerCase());
+    return name;
+  }
+
+  //Check whether a file should be stored without compression
+  public static isCompressed(mimetype: string): boolean {
+    return COMPRESSED_MIME_TYPES.includes(mimetype);
+  }
+
+  //Build the issue.json manifest listing the issue and the archived files
+  public static buildManifest(
+    issue: IIssue,
+    entries: { file: IFile; name: string }[],
+    skipped: { file: IFile; reason: string }[]
+  ): string {
+    const manifest = {
+      issue: {
+        id: issue._id,
+        key: issue.key || null,
+        title: issue.title,
+        description: issue.description,
+        status: issue.status,
+        priority: issue.priority,
+        createdBy: describeUser(issue.createdBy),
+        assignedTo: describeUser(issue.assignedTo),
+        createdAt: issue.createdAt,
+        updatedAt: issue.updatedAt
+      },
+      files: entries.map(({ file, name }) => ({
+        id: file._id,
+        name,
+        originalName: file.originalName,
+        mimetype: file.mimetype,
+        size: file.size,
+        checksum: file.checksum || null,
+        version: file.version || 1,
+        uploadedBy: describeUser(file.uploadedBy),
+        uploadedAt: file.uploadedAt
+      })),
+      skipped: skipped.map(({ file, reason }) => ({
+        id: file._id,
+        originalName: file.originalName,
+        reason
+      })),
+      exportedAt: new Date()
+    };
+
+    return JSON.stringify(manifest, null, 2);
+  }
+
+  //Render the comments of an issue as Markdown, oldest first
+  public static renderComments(issue: IIssue, comments: IComment[]): string {
+    const lines = [`# Comments on ${issue.key ? `${issue.key}: ` : ''}${issue.title}`, ''];
+
+    if (comments.length === 0) {
+      lines.push('_No comments._', '');
+    }
+
+    for (const comment of comments) {
+      lines.push(`## ${describeUser(comment.userId) || 'Unknown user'} - ${comment.createdAt.toISOString()}`, '');
+      lines.push(comment.deleted ? '_This comment was deleted._' : comment.content!, '');
+    }
+
+    return lines.join('\n');
+  }
+}
@@ -0,0 +1,126 @@
+import fs from 'fs';
+import path from 'path';
+import { IUser, MailMessage } from '../types';
+import { logger } from './logger';
+
+// Anything that can deliver a mail message
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Writes messages to the log, the default so flows work without a mail server
+// Bodies carry live reset and verification links, so they are only logged in development and test
+export class ConsoleTransport implements MailTransport {
+  constructor(private logBody: boolean = ['development', 'test'].includes(process.env.NODE_ENV || '')) {}
+
+  public async send(message: MailMessage): Promise<void> {
+    if (this.logBody) {
+      logger.info(`Mail to ${message.to}: ${message.subject}\n${message.text}`);
+      return;
+    }
+    logger.warn(`Mail to ${message.to}: ${message.subject} (body not logged outside development and test, configure MAIL_TRANSPORT to deliver it)`);
+  }
+}
+
+// Writes each message to a JSON file in a directory
+export class FileTransport implements MailTransport {
+  constructor(private directory: string) {}
+
+  public async send(message: MailMessage): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    const filename = `${Date.now()}-${Math.round(Math.random() * 1e9)}.json`;
+    await fs.promises.writeFile(
+      path.join(this.directory, filename),
+      JSON.stringify({ ...message, sentAt: new Date() }, null, 2)
+    );
+  }
+}
+
+// Keeps messages in memory, for tests
+export class MemoryTransport implements MailTransport {
+  public messages: MailMessage[] = [];
+
+  public async send(message: MailMessage): Promise<void> {
+    this.messages.push(message);
+  }
+
+  // Get the most recent message sent to an address
+  public lastTo(to: string): MailMessage | undefined {
+    return [...this.messages].reverse().find(message => message.to === to);
+  }
+
+  public clear(): void {
+    this.messages = [];
+  }
+}
+
+// Pick the transport configured with MAIL_TRANSPORT
+const createTransport = (): MailTransport => {
+  switch (process.env.MAIL_TRANSPORT) {
+    case 'file':
+      return new FileTransport(process.env.MAIL_DIR || 'mail');
+    case 'memory':
+      return new MemoryTransport();
+    default:
+      return new ConsoleTransport();
+  }
+};
+
+// Base URL of the client application used in links
+const getAppUrl = (): string => (process.env.APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+// Mailer class that implements Singleton pattern for outgoing mail
+// The transport is pluggable, so a real mail service can be swapped in
+export class Mailer {
+  private static instance: Mailer;
+
+  private transport?: MailTransport;
+
+  private constructor() {}
+
+  public static getInstance(): Mailer {
+    if (!Mailer.instance) {
+      Mailer.instance = new Mailer();
+    }
+    return Mailer.instance;
+  }
+
+  // Replace the transport used for all further messages
+  public setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  public getTransport(): MailTransport {
+    if (!this.transport) {
+      this.transport = createTransport();
+    }
+    return this.transport;
+  }
+
+  public async send(message: MailMessage): Promise<void> {
+    await this.getTransport().send(message);
+    logger.info(`Mail sent to ${message.to}: ${message.subject}`);
+  }
+
+  // Send the link that confirms a user's email address
+  public async sendEmailVerification(user: IUser, token: string): Promise<void> {
+    const link = `${getAppUrl()}/verify-email?token=${token}`;
+    await this.send({
+      to: user.email,
+      subject: 'Verify your email address',
+      text: `Hi ${user.firstName},\n\nPlease confirm your email address by opening this link:\n${link}\n\nIf you did not create an account you can ignore this message.`
+    });
+  }
+
+  // Send the link that lets a user choose a new password
+  public async sendPasswordReset(user: IUser, token: string, expiresInMinutes: number): Promise<void> {
+    const link = `${getAppUrl()}/reset-password?token=${token}`;
+    await this.send({
+      to: user.email,
+      subject: 'Reset your password',
+      text: `Hi ${user.firstName},\n\nYou can choose a new password with this link, which expires in ${expiresInMinutes} minutes:\n${link}\n\nIf you did not ask for a password reset you can ignore this message.`
+    });
+  }
+}
+
+export const mailer = Mailer.getInstance();
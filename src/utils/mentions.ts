@@ -0,0 +1,131 @@
+import mongoose from 'mongoose';
+import { User } from '../models/User';
+import { Project } from '../models/Project';
+import { IIssue, IProject, IUser } from '../types';
+import { Authorization } from './authorization';
+
+// Most mentions resolved from one text, further handles are ignored
+const MAX_MENTIONS = 20;
+
+// @ at the start of the text or after a character that cannot be part of an email address,
+// followed by a username, the part of an email address before the @ or a full email address
+const MENTION_PATTERN = /(?:^|[^\w@.])@([a-z0-9][a-z0-9._-]*(?:@[a-z0-9-]+(?:\.[a-z0-9-]+)+)?)/gi;
+
+// Email local parts that read back as the same handle
+const HANDLE_PATTERN = /^[a-z0-9](?:[a-z0-9._-]*[a-z0-9])?$/;
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Users whose email address starts with the handle, at most two since one more makes it ambiguous
+const findByEmailHandle = (handle: string) =>
+  User.find({ email: { $regex: `^${escapeRegExp(handle)}@` } }).limit(2);
+
+//Utility class for @mentions in comments and issue descriptions
+//A handle is a username or, for users without a matching username, the part of the email address before the @
+export class Mentions {
+  //Extract the distinct handles mentioned in a text, lowercased and without the @
+  public static extractHandles(text?: string | null): string[] {
+    if (!text) return [];
+
+    const handles = new Set<string>();
+    for (const match of text.matchAll(MENTION_PATTERN)) {
+      // Punctuation ending a sentence is not part of the handle
+      const handle = match[1].toLowerCase().replace(/[._-]+$/, '');
+      if (handle.length > 0) handles.add(handle);
+      if (handles.size >= MAX_MENTIONS) break;
+    }
+    return [...handles];
+  }
+
+  //Resolve the handles mentioned in a text to the users who can read the issue
+  //Unknown and ambiguous handles are ignored, so mentioning never fails the request
+  public static async resolve(text: string, issue: IIssue): Promise<mongoose.Types.ObjectId[]> {
+    const handles = this.extractHandles(text);
+    if (handles.length === 0) return [];
+
+    const emails = handles.filter(handle => handle.includes('@'));
+    const usernames = handles.filter(handle => !handle.includes('@'));
+
+    const users = new Map<string, IUser>();
+    const found = await User.find({ $or: [{ email: { $in: emails } }, { username: { $in: usernames } }] });
+    for (const user of found) {
+      users.set(user._id.toString(), user);
+    }
+
+    const claimed = new Set(found.map(user => user.username));
+    for (const handle of usernames.filter(name => !claimed.has(name))) {
+      // A handle shared by several email addresses mentions nobody
+      const matches = await findByEmailHandle(handle);
+      if (matches.length === 1) {
+        users.set(matches[0]._id.toString(), matches[0]);
+      }
+    }
+
+    const project = await this.getProject(issue);
+    return [...users.values()]
+      .filter(user => Authorization.can(user, 'issue:read', { issue, project }))
+      .map(user => new mongoose.Types.ObjectId(user._id.toString()));
+  }
+
+  //Get the users that were not mentioned before
+  public static getAdded(
+    previous: (mongoose.Types.ObjectId | string)[] = [],
+    current: (mongoose.Types.ObjectId | string)[] = []
+  ): mongoose.Types.ObjectId[] {
+    const known = new Set(previous.map(id => id.toString()));
+    return current
+      .filter(id => !known.has(id.toString()))
+      .map(id => new mongoose.Types.ObjectId(id.toString()));
+  }
+
+  //Find users to suggest while typing a mention, limited to those who can read the issue
+  //Email addresses are not returned, the handle is what a mention needs
+  public static async findMentionable(query: string, issue: IIssue, limit: number) {
+    const filter: Record<string, any> = {};
+
+    if (query) {
+      const prefix = { $regex: `^${escapeRegExp(query)}`, $options: 'i' };
+      filter.$or = [{ username: prefix }, { email: prefix }, { firstName: prefix }, { lastName: prefix }];
+    }
+
+    const project = await this.getProject(issue);
+    if (project) {
+      // Admins can read every issue, everybody else needs to be in the project
+      const memberIds = [project.owner, ...project.members.map(member => member.user)];
+      filter.$and = [{ $or: [{ _id: { $in: memberIds } }, { role: 'admin' }] }];
+    }
+
+    const users = await User.find(filter)
+      .select('email username firstName lastName')
+      .sort({ email: 1 })
+      .limit(limit);
+
+    return Promise.all(users.map(async user => ({
+      _id: user._id,
+      username: user.username,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      handle: await this.getHandle(user)
+    })));
+  }
+
+  //Get the shortest handle that mentions exactly this user
+  public static async getHandle(user: IUser): Promise<string> {
+    if (user.username) return user.username;
+
+    const localPart = user.email.split('@')[0];
+    if (!HANDLE_PATTERN.test(localPart)) return user.email;
+
+    const [taken, matches] = await Promise.all([
+      User.exists({ username: localPart }),
+      findByEmailHandle(localPart)
+    ]);
+    return !taken && matches.length === 1 ? localPart : user.email;
+  }
+
+  private static async getProject(issue: IIssue): Promise<IProject | null> {
+    if (!issue.project) return null;
+    const projectId = (issue.project as any)._id || issue.project;
+    return Project.findById(projectId);
+  }
+}
@@ -0,0 +1,80 @@
+import mongoose from 'mongoose';
+import { Notification } from '../models/Notification';
+import { Project } from '../models/Project';
+import { User } from '../models/User';
+import { IComment, IIssue, IUser, NotificationType } from '../types';
+import { Authorization } from './authorization';
+
+type Id = mongoose.Types.ObjectId | string;
+
+// References may be populated documents or plain IDs
+const toId = (value: any): string => (value._id || value).toString();
+
+// How an issue is named in messages, e.g. PAY-142 or "Broken login"
+const describeIssue = (issue: IIssue): string => issue.key || `"${issue.title}"`;
+
+//Utility class for the in-app notifications about issues
+//Users are never notified about their own actions or about issues they can no longer read
+export class Notifications {
+  //Notify the assignee of an issue
+  public static notifyAssigned(issue: IIssue, actor: IUser): Promise<number> {
+    if (!issue.assignedTo) return Promise.resolve(0);
+    return this.send([issue.assignedTo], issue, actor, 'assigned', `${actor.fullName} assigned ${describeIssue(issue)} to you`);
+  }
+
+  //Notify the followers of an issue about a status change
+  public static notifyStatusChanged(issue: IIssue, actor: IUser, from: string, to: string): Promise<number> {
+    return this.send(
+      issue.followers || [],
+      issue,
+      actor,
+      'status_changed',
+      `${actor.fullName} changed the status of ${describeIssue(issue)} from ${from} to ${to}`
+    );
+  }
+
+  //Notify the creator of an issue about a comment, unless the comment mentions them
+  public static notifyCommented(issue: IIssue, actor: IUser, comment: IComment): Promise<number> {
+    const mentioned = (comment.mentions || []).map(id => id.toString());
+    if (mentioned.includes(toId(issue.createdBy))) return Promise.resolve(0);
+    return this.send([issue.createdBy], issue, actor, 'comment', `${actor.fullName} commented on ${describeIssue(issue)}`, comment);
+  }
+
+  //Notify mentioned users, in a comment when one is given and in the issue itself otherwise
+  public static notifyMentioned(userIds: Id[], issue: IIssue, actor: IUser, comment?: IComment): Promise<number> {
+    return this.send(
+      userIds,
+      issue,
+      actor,
+      'mention',
+      comment
+        ? `${actor.fullName} mentioned you in a comment on ${describeIssue(issue)}`
+        : `${actor.fullName} mentioned you in ${describeIssue(issue)}`,
+      comment
+    );
+  }
+
+  private static async send(
+    userIds: Id[],
+    issue: IIssue,
+    actor: IUser,
+    type: NotificationType,
+    message: string,
+    comment?: IComment
+  ): Promise<number> {
+    const ids = userIds.map(toId).filter(id => id !== actor._id.toString());
+    if (ids.length === 0) return 0;
+
+    const project = issue.project ? await Project.findById(toId(issue.project)) : null;
+    const users = await User.find({ _id: { $in: ids } });
+    const recipients = users.filter(user => Authorization.can(user, 'issue:read', { issue, project }));
+
+    return (Notification as any).notify(recipients.map(user => user._id), {
+      type,
+      issueId: issue._id,
+      commentId: comment ? comment._id : null,
+      actor: actor._id,
+      message
+    });
+  }
+}
@@ -0,0 +1,63 @@
+import crypto from 'crypto';
+import { ThumbnailSize } from './thumbnails';
+
+// Signed URL time to live in seconds
+const getSignedUrlTtl = (): number => parseInt(process.env.FILE_URL_TTL || '300');
+
+// What a signed URL grants access to, the download or one size of the thumbnail
+export type SignedResource = 'download' | `thumbnail:${ThumbnailSize}`;
+
+//Utility class for short-lived HMAC-signed file URLs
+//A signed URL grants access to one resource of one file until it expires, without an access token
+export class SignedUrl {
+  //Check that a secret of its own is configured, called on startup
+  public static assertConfigured(): void {
+    this.getSecret();
+  }
+
+  private static getSecret(): string {
+    const secret = process.env.FILE_URL_SECRET;
+    if (!secret) {
+      throw new Error('FILE_URL_SECRET environment variable is not defined');
+    }
+    if (secret === process.env.JWT_SECRET) {
+      throw new Error('FILE_URL_SECRET must differ from JWT_SECRET');
+    }
+    return secret;
+  }
+
+  //Compute the signature for a resource of a file and expiry time
+  public static createSignature(fileId: string, resource: SignedResource, expires: number): string {
+    return crypto
+      .createHmac('sha256', this.getSecret())
+      .update(`${fileId}:${resource}:${expires}`)
+      .digest('hex');
+  }
+
+  //Create a signed URL for downloading a file or, with a thumbnail resource, one size of its thumbnail
+  public static sign(
+    fileId: string,
+    ttlSeconds: number = getSignedUrlTtl(),
+    resource: SignedResource = 'download'
+  ): { url: string; expiresAt: Date } {
+    const expires = Math.floor(Date.now() / 1000) + ttlSeconds;
+    const signature = this.createSignature(fileId, resource, expires);
+    const [route, size] = resource.split(':');
+
+    return {
+      url: `/api/files/${fileId}/${route}?${size ? `size=${size}&` : ''}expires=${expires}&signature=${signature}`,
+      expiresAt: new Date(expires * 1000)
+    };
+  }
+
+  //Check a signature for the requested resource and that it has not expired
+  public static verify(fileId: string, resource: SignedResource, expires: number, signature: string): boolean {
+    if (!Number.isInteger(expires) || expires < Math.floor(Date.now() / 1000)) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.createSignature(fileId, resource, expires), 'hex');
+    const actual = Buffer.from(signature, 'hex');
+    return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+  }
+}
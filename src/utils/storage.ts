@@ -0,0 +1,454 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import http from 'http';
+import https from 'https';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { logger } from './logger';
+
+// Size and modification time of a stored object
+export interface StoredObjectInfo {
+  size: number;
+  modifiedAt?: Date;
+}
+
+// Inclusive byte range of an object, as used by HTTP Range requests
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+// Anything that can store attachment contents under a key
+export interface StorageProvider {
+  readonly name: string;
+  put(key: string, body: Readable): Promise<StoredObjectInfo>;
+  get(key: string, range?: ByteRange): Promise<Readable | null>;
+  stat(key: string): Promise<StoredObjectInfo | null>;
+  delete(key: string): Promise<boolean>;
+}
+
+// Keys are generated by the API, anything that could leave the storage root is rejected
+const assertValidKey = (key: string): void => {
+  if (!key || key.startsWith('/') || key.split(/[\\/]/).some(segment => segment === '..' || segment === '')) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+};
+
+// Stores objects as files below a directory on the local disk
+export class LocalStorageProvider implements StorageProvider {
+  public readonly name = 'local';
+
+  constructor(public readonly directory: string) {}
+
+  private resolve(key: string): string {
+    assertValidKey(key);
+    return path.join(path.resolve(this.directory), key);
+  }
+
+  public async put(key: string, body: Readable): Promise<StoredObjectInfo> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+    try {
+      await pipeline(body, fs.createWriteStream(filePath));
+    } catch (error) {
+      await fs.promises.rm(filePath, { force: true });
+      throw error;
+    }
+
+    const stats = await fs.promises.stat(filePath);
+    return { size: stats.size, modifiedAt: stats.mtime };
+  }
+
+  public async get(key: string, range?: ByteRange): Promise<Readable | null> {
+    const filePath = this.resolve(key);
+    if (!(await this.stat(key))) {
+      return null;
+    }
+    return fs.createReadStream(filePath, range ? { start: range.start, end: range.end } : undefined);
+  }
+
+  public async stat(key: string): Promise<StoredObjectInfo | null> {
+    try {
+      const stats = await fs.promises.stat(this.resolve(key));
+      return stats.isFile() ? { size: stats.size, modifiedAt: stats.mtime } : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  public async delete(key: string): Promise<boolean> {
+    try {
+      await fs.promises.unlink(this.resolve(key));
+      return true;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
+
+export interface S3StorageOptions {
+  endpoint: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // Path-style URLs (endpoint/bucket/key) work with MinIO and most S3-compatible servers
+  forcePathStyle: boolean;
+  // Larger objects are sent as multipart uploads in parts of this size, S3 requires at least 5 MiB
+  partSize?: number;
+}
+
+export interface S3SignatureInput {
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+  payloadHash: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  date: Date;
+}
+
+const sha256Hex = (data: string | Buffer): string => crypto.createHash('sha256').update(data).digest('hex');
+
+const hmac = (key: string | Buffer, data: string): Buffer => crypto.createHmac('sha256', key).update(data).digest();
+
+// URI encoding as required by Signature Version 4
+const encodeRfc3986 = (value: string): string =>
+  encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+// Format a date as the basic ISO 8601 timestamp used by AWS (20130524T000000Z)
+const toAmzDate = (date: Date): string => date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+
+//Compute the Signature Version 4 Authorization header for an S3 request
+//The host, x-amz-date and x-amz-content-sha256 headers must already be present
+export const signS3Request = (input: S3SignatureInput): string => {
+  const amzDate = toAmzDate(input.date);
+  const scope = `${amzDate.slice(0, 8)}/${input.region}/s3/aws4_request`;
+
+  const headers = Object.entries(input.headers)
+    .map(([name, value]) => [name.toLowerCase(), String(value).trim().replace(/\s+/g, ' ')])
+    .sort(([a], [b]) => (a < b ? -1 : 1));
+  const signedHeaders = headers.map(([name]) => name).join(';');
+
+  const query = [...input.url.searchParams.entries()]
+    .map(([name, value]) => `${encodeRfc3986(name)}=${encodeRfc3986(value)}`)
+    .sort()
+    .join('&');
+
+  const canonicalRequest = [
+    input.method,
+    input.url.pathname,
+    query,
+    headers.map(([name, value]) => `${name}:${value}\n`).join(''),
+    signedHeaders,
+    input.payloadHash
+  ].join('\n');
+
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+  const signingKey = ['s3', 'aws4_request'].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${input.secretAccessKey}`, amzDate.slice(0, 8)), input.region)
+  );
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return `AWS4-HMAC-SHA256 Credential=${input.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+};
+
+// Default size of multipart upload parts in bytes
+const DEFAULT_PART_SIZE = 8 * 1024 * 1024;
+
+// Collect a stream into a buffer, used for small responses
+const readAll = async (body: Readable): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of body) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+};
+
+// Split a stream into buffers of at least partSize bytes, only the last one may be smaller
+// S3 needs the length and hash of every request body before it is sent, so one part at a time is held in memory
+async function* readParts(body: Readable, partSize: number): AsyncGenerator<Buffer> {
+  let chunks: Buffer[] = [];
+  let length = 0;
+  for await (const chunk of body) {
+    chunks.push(Buffer.from(chunk));
+    length += chunk.length;
+    if (length >= partSize) {
+      yield Buffer.concat(chunks);
+      chunks = [];
+      length = 0;
+    }
+  }
+  if (length > 0) {
+    yield Buffer.concat(chunks);
+  }
+}
+
+// Stores objects in a bucket of an S3-compatible object store
+export class S3StorageProvider implements StorageProvider {
+  public readonly name = 's3';
+
+  constructor(private options: S3StorageOptions) {}
+
+  private objectUrl(key: string, query: Record<string, string> = {}): URL {
+    assertValidKey(key);
+    const endpoint = new URL(this.options.endpoint);
+    const encodedKey = key.split('/').map(encodeRfc3986).join('/');
+
+    const url = this.options.forcePathStyle
+      ? new URL(`${endpoint.origin}/${this.options.bucket}/${encodedKey}`)
+      : new URL(`${endpoint.protocol}//${this.options.bucket}.${endpoint.host}/${encodedKey}`);
+    for (const [name, value] of Object.entries(query)) {
+      url.searchParams.set(name, value);
+    }
+    return url;
+  }
+
+  // Send a signed request and resolve with the response once its headers arrive
+  private request(
+    method: string,
+    key: string,
+    body?: Buffer,
+    extraHeaders: Record<string, string> = {},
+    query: Record<string, string> = {}
+  ): Promise<http.IncomingMessage> {
+    const url = this.objectUrl(key, query);
+    const date = new Date();
+    const payloadHash = sha256Hex(body || '');
+    const headers: Record<string, string> = {
+      ...extraHeaders,
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': toAmzDate(date)
+    };
+    if (body) {
+      headers['content-length'] = body.length.toString();
+    }
+
+    headers.authorization = signS3Request({
+      method,
+      url,
+      headers,
+      payloadHash,
+      region: this.options.region,
+      accessKeyId: this.options.accessKeyId,
+      secretAccessKey: this.options.secretAccessKey,
+      date
+    });
+
+    const transport = url.protocol === 'https:' ? https : http;
+    return new Promise((resolve, reject) => {
+      const req = transport.request(url, { method, headers }, resolve);
+      req.on('error', reject);
+      req.end(body);
+    });
+  }
+
+  // Turn an unexpected response into an error, draining the body first
+  private async fail(response: http.IncomingMessage, action: string, key: string): Promise<never> {
+    const body = (await readAll(response)).toString('utf8');
+    throw new Error(`S3 ${action} of ${key} failed with status ${response.statusCode}: ${body.slice(0, 200)}`);
+  }
+
+  // Objects smaller than one part are sent with a single request, larger ones as multipart upload
+  public async put(key: string, body: Readable): Promise<StoredObjectInfo> {
+    const partSize = this.options.partSize || DEFAULT_PART_SIZE;
+    const parts = readParts(body, partSize);
+    const first = await parts.next();
+    if (!first.done && first.value.length >= partSize) {
+      return this.putMultipart(key, first.value, parts);
+    }
+
+    const content = first.done ? Buffer.alloc(0) : first.value;
+    const response = await this.request('PUT', key, content);
+    if (response.statusCode !== 200) {
+      return this.fail(response, 'upload', key);
+    }
+    response.resume();
+    return { size: content.length, modifiedAt: new Date() };
+  }
+
+  // Send the parts one by one and abort the upload when anything fails, so no partial object remains
+  private async putMultipart(key: string, first: Buffer, parts: AsyncGenerator<Buffer>): Promise<StoredObjectInfo> {
+    const created = await this.request('POST', key, undefined, {}, { uploads: '' });
+    if (created.statusCode !== 200) {
+      return this.fail(created, 'upload', key);
+    }
+    const uploadId = /<UploadId>([^<]+)<\/UploadId>/.exec((await readAll(created)).toString('utf8'))?.[1];
+    if (!uploadId) {
+      throw new Error(`S3 upload of ${key} failed: no upload ID returned`);
+    }
+
+    try {
+      const etags: string[] = [];
+      let size = 0;
+      for (let part: IteratorResult<Buffer> = { value: first }; !part.done; part = await parts.next()) {
+        const response = await this.request('PUT', key, part.value, {}, { partNumber: String(etags.length + 1), uploadId });
+        if (response.statusCode !== 200) {
+          await this.fail(response, 'upload', key);
+        }
+        response.resume();
+        etags.push(String(response.headers.etag));
+        size += part.value.length;
+      }
+
+      const completion = Buffer.from(
+        '<CompleteMultipartUpload>' +
+        etags.map((etag, index) => `<Part><PartNumber>${index + 1}</PartNumber><ETag>${etag}</ETag></Part>`).join('') +
+        '</CompleteMultipartUpload>'
+      );
+      const completed = await this.request('POST', key, completion, {}, { uploadId });
+      const result = (await readAll(completed)).toString('utf8');
+      // Completing can fail after the status was sent, S3 then returns an error document with status 200
+      if (completed.statusCode !== 200 || result.includes('<Error>')) {
+        throw new Error(`S3 upload of ${key} failed with status ${completed.statusCode}: ${result.slice(0, 200)}`);
+      }
+      return { size, modifiedAt: new Date() };
+    } catch (error) {
+      await parts.return(undefined);
+      await this.request('DELETE', key, undefined, {}, { uploadId }).then(
+        response => response.resume(),
+        abortError => logger.warn(`Could not abort S3 upload of ${key}: ${abortError.message}`)
+      );
+      throw error;
+    }
+  }
+
+  public async get(key: string, range?: ByteRange): Promise<Readable | null> {
+    const response = await this.request('GET', key, undefined, range ? { range: `bytes=${range.start}-${range.end}` } : {});
+    if (response.statusCode === 404) {
+      response.resume();
+      return null;
+    }
+    if (response.statusCode !== (range ? 206 : 200)) {
+      return this.fail(response, 'download', key);
+    }
+    return response;
+  }
+
+  public async stat(key: string): Promise<StoredObjectInfo | null> {
+    const response = await this.request('HEAD', key);
+    response.resume();
+    if (response.statusCode === 404) {
+      return null;
+    }
+    if (response.statusCode !== 200) {
+      throw new Error(`S3 lookup of ${key} failed with status ${response.statusCode}`);
+    }
+
+    const lastModified = response.headers['last-modified'];
+    return {
+      size: parseInt(response.headers['content-length'] || '0'),
+      modifiedAt: lastModified ? new Date(lastModified) : undefined
+    };
+  }
+
+  public async delete(key: string): Promise<boolean> {
+    // S3 deletes succeed for missing keys, so check first to report whether anything was removed
+    if (!(await this.stat(key))) {
+      return false;
+    }
+
+    const response = await this.request('DELETE', key);
+    if (response.statusCode !== 204 && response.statusCode !== 200) {
+      return this.fail(response, 'delete', key);
+    }
+    response.resume();
+    return true;
+  }
+}
+
+// Pick the provider configured with STORAGE_DRIVER
+const createProvider = (): StorageProvider => {
+  switch (process.env.STORAGE_DRIVER) {
+    case 's3':
+      if (!process.env.S3_ENDPOINT || !process.env.S3_BUCKET) {
+        throw new Error('S3_ENDPOINT and S3_BUCKET are required when STORAGE_DRIVER is s3');
+      }
+      return new S3StorageProvider({
+        endpoint: process.env.S3_ENDPOINT,
+        bucket: process.env.S3_BUCKET,
+        region: process.env.S3_REGION || 'us-east-1',
+        accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE !== 'false',
+        partSize: parseInt(process.env.S3_PART_SIZE || String(DEFAULT_PART_SIZE))
+      });
+    default:
+      return new LocalStorageProvider(process.env.UPLOAD_DIR || 'uploads');
+  }
+};
+
+// Storage class that implements Singleton pattern for attachment contents
+// Every upload, download, delete and integrity check goes through the configured provider
+export class Storage {
+  private static instance: Storage;
+
+  private provider?: StorageProvider;
+
+  private constructor() {}
+
+  public static getInstance(): Storage {
+    if (!Storage.instance) {
+      Storage.instance = new Storage();
+    }
+    return Storage.instance;
+  }
+
+  // Replace the provider used for all further operations
+  public setProvider(provider: StorageProvider): void {
+    this.provider = provider;
+  }
+
+  public getProvider(): StorageProvider {
+    if (!this.provider) {
+      this.provider = createProvider();
+      logger.info(`Using ${this.provider.name} file storage`);
+    }
+    return this.provider;
+  }
+
+  public put(key: string, body: Readable): Promise<StoredObjectInfo> {
+    return this.getProvider().put(key, body);
+  }
+
+  public get(key: string, range?: ByteRange): Promise<Readable | null> {
+    return this.getProvider().get(key, range);
+  }
+
+  public stat(key: string): Promise<StoredObjectInfo | null> {
+    return this.getProvider().stat(key);
+  }
+
+  public async exists(key: string): Promise<boolean> {
+    return (await this.getProvider().stat(key)) !== null;
+  }
+
+  public delete(key: string): Promise<boolean> {
+    return this.getProvider().delete(key);
+  }
+
+  // Hash the stored contents, returns null when the object is missing
+  public async computeChecksum(key: string): Promise<string | null> {
+    const stream = await this.getProvider().get(key);
+    if (!stream) {
+      return null;
+    }
+
+    const hash = crypto.createHash('sha256');
+    for await (const chunk of stream) {
+      hash.update(chunk);
+    }
+    return hash.digest('hex');
+  }
+}
+
+export const storage = Storage.getInstance();
@@ -0,0 +1,109 @@
+import mongoose from 'mongoose';
+import { File } from '../models/File';
+import { Issue } from '../models/Issue';
+import { Project } from '../models/Project';
+import { UploadSession } from '../models/UploadSession';
+import { IIssue, IProject, IUser, StorageQuotaUsage } from '../types';
+import { QuotaExceededError } from './errorTypes';
+import { FileUtils } from './fileUtils';
+
+// Default quotas in bytes, 0 disables the quota (1GB per user, 10GB per project)
+const USER_STORAGE_QUOTA = parseInt(process.env.USER_STORAGE_QUOTA || '1073741824');
+const PROJECT_STORAGE_QUOTA = parseInt(process.env.PROJECT_STORAGE_QUOTA || '10737418240');
+
+// Sum the sizes of files matching a filter
+const sumFileSizes = async (match: Record<string, unknown>): Promise<number> => {
+  const [result] = await File.aggregate([
+    { $match: match },
+    { $group: { _id: null, used: { $sum: '$size' } } }
+  ]);
+  return result ? result.used : 0;
+};
+
+// Sum the announced sizes of unexpired resumable uploads matching a filter, they reserve their space until completed
+// The session being completed is excluded, its size is the one checked
+const sumReservedSizes = async (match: Record<string, unknown>, excludeSession?: string): Promise<number> => {
+  const [result] = await UploadSession.aggregate([
+    {
+      $match: {
+        ...match,
+        expiresAt: { $gt: new Date() },
+        ...(excludeSession && { _id: { $ne: new mongoose.Types.ObjectId(excludeSession) } })
+      }
+    },
+    { $group: { _id: null, reserved: { $sum: '$size' } } }
+  ]);
+  return result ? result.reserved : 0;
+};
+
+const toUsage = (used: number, limit: number | null): StorageQuotaUsage => ({
+  used,
+  limit,
+  remaining: limit === null ? null : Math.max(limit - used, 0)
+});
+
+//Utility class for per-user and per-project storage quotas
+//Usage is the size of all file versions counted from the File collection, shared contents count for every file
+//Unfinished resumable uploads count with their announced size
+export class StorageQuota {
+  //Get the quota of a user, null when unlimited
+  public static getUserLimit(user: IUser): number | null {
+    const limit = user.storageQuota ?? USER_STORAGE_QUOTA;
+    return limit > 0 ? limit : null;
+  }
+
+  //Get the quota of a project, null when unlimited
+  public static getProjectLimit(project: IProject): number | null {
+    const limit = project.storageQuota ?? PROJECT_STORAGE_QUOTA;
+    return limit > 0 ? limit : null;
+  }
+
+  //Get the bytes uploaded and being uploaded by a user
+  public static async getUserUsed(userId: mongoose.Types.ObjectId | string, excludeSession?: string): Promise<number> {
+    const match = { uploadedBy: new mongoose.Types.ObjectId(userId.toString()) };
+    return (await sumFileSizes(match)) + (await sumReservedSizes(match, excludeSession));
+  }
+
+  //Get the bytes used and being uploaded by the files of a project's issues
+  public static async getProjectUsed(projectId: mongoose.Types.ObjectId | string, excludeSession?: string): Promise<number> {
+    const issueIds = await Issue.find({ project: projectId }).distinct('_id');
+    const match = { issueId: { $in: issueIds } };
+    return (await sumFileSizes(match)) + (await sumReservedSizes(match, excludeSession));
+  }
+
+  public static async getUserUsage(user: IUser, excludeSession?: string): Promise<StorageQuotaUsage> {
+    return toUsage(await this.getUserUsed(user._id, excludeSession), this.getUserLimit(user));
+  }
+
+  public static async getProjectUsage(project: IProject, excludeSession?: string): Promise<StorageQuotaUsage> {
+    return toUsage(await this.getProjectUsed(project._id, excludeSession), this.getProjectLimit(project));
+  }
+
+  //Check that a user can add files of the given total size to an issue
+  //When completing a resumable upload, its session is passed so its reservation is not counted twice
+  //Throws a QuotaExceededError naming the quota that would be exceeded
+  public static async assertAvailable(user: IUser, issue: IIssue, bytes: number, excludeSession?: string): Promise<void> {
+    const userUsage = await this.getUserUsage(user, excludeSession);
+    if (userUsage.remaining !== null && bytes > userUsage.remaining) {
+      throw new QuotaExceededError(
+        `Upload of ${FileUtils.formatFileSize(bytes)} exceeds your storage quota, ${FileUtils.formatFileSize(userUsage.remaining)} of ${FileUtils.formatFileSize(userUsage.limit!)} remaining`
+      );
+    }
+
+    if (!issue.project) {
+      return;
+    }
+
+    const project = await Project.findById(issue.project);
+    if (!project) {
+      return;
+    }
+
+    const projectUsage = await this.getProjectUsage(project, excludeSession);
+    if (projectUsage.remaining !== null && bytes > projectUsage.remaining) {
+      throw new QuotaExceededError(
+        `Upload of ${FileUtils.formatFileSize(bytes)} exceeds the storage quota of project ${project.key}, ${FileUtils.formatFileSize(projectUsage.remaining)} of ${FileUtils.formatFileSize(projectUsage.limit!)} remaining`
+      );
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import sharp from 'sharp';
+import { Readable } from 'stream';
+import { IFile } from '../types';
+import { storage } from './storage';
+import { logger } from './logger';
+
+// Longest edge in pixels of each thumbnail size
+export const THUMBNAIL_SIZES = {
+  small: 128,
+  medium: 256,
+  large: 512
+};
+
+export type ThumbnailSize = keyof typeof THUMBNAIL_SIZES;
+
+// Prefix of storage keys holding thumbnails
+const THUMBNAIL_PREFIX = 'thumbnails/';
+
+// Image types sharp can always decode
+const IMAGE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+//Utility class for thumbnails of images and first-page previews of PDFs
+//Thumbnails are created on first request and kept in storage next to the original
+export class Thumbnails {
+  //Check whether a thumbnail can be made for a file type
+  //PDF previews need a libvips build with PDF support
+  public static isSupported(mimetype: string): boolean {
+    if (IMAGE_MIME_TYPES.includes(mimetype)) {
+      return true;
+    }
+    return mimetype === 'application/pdf' && sharp.format.pdf.input.buffer;
+  }
+
+  //Storage key of a thumbnail, shared by all files with the same stored contents
+  public static getKey(storageKey: string, size: ThumbnailSize): string {
+    return `${THUMBNAIL_PREFIX}${storageKey}.${size}.webp`;
+  }
+
+  //Get the storage key of the original from a thumbnail key, null for keys that are not thumbnails
+  public static getSourceKey(key: string): string | null {
+    if (!key.startsWith(THUMBNAIL_PREFIX) || !key.endsWith('.webp')) {
+      return null;
+    }
+    const name = key.slice(THUMBNAIL_PREFIX.length, -'.webp'.length);
+    const separator = name.lastIndexOf('.');
+    if (separator <= 0 || !Object.keys(THUMBNAIL_SIZES).includes(name.slice(separator + 1))) {
+      return null;
+    }
+    return name.slice(0, separator);
+  }
+
+  //Get a stored thumbnail, creating it first when needed
+  //Returns null when the file type is not supported or the contents cannot be decoded
+  public static async getOrCreate(file: IFile, size: ThumbnailSize): Promise<Readable | null> {
+    if (!this.isSupported(file.mimetype)) {
+      return null;
+    }
+
+    const key = this.getKey(file.storageKey, size);
+    const stored = await storage.get(key);
+    if (stored) {
+      return stored;
+    }
+
+    const content = await storage.get(file.storageKey);
+    if (!content) {
+      return null;
+    }
+
+    try {
+      // Only the first page of PDFs and animated images is used
+      const transformer = sharp({ page: 0, limitInputPixels: 100_000_000 })
+        .rotate()
+        .resize(THUMBNAIL_SIZES[size], THUMBNAIL_SIZES[size], { fit: 'inside', withoutEnlargement: true })
+        .webp({ quality: 80 });
+      const thumbnail = await content.pipe(transformer).toBuffer();
+
+      await storage.put(key, Readable.from([thumbnail]));
+      logger.info(`Thumbnail created for ${file.originalName} (${size})`);
+
+      return Readable.from([thumbnail]);
+    } catch (error) {
+      logger.warn(`Could not create thumbnail for ${file.originalName}:`, error);
+      return null;
+    }
+  }
+
+  //Delete every thumbnail of stored contents
+  public static async deleteAll(storageKey: string): Promise<void> {
+    for (const size of Object.keys(THUMBNAIL_SIZES) as ThumbnailSize[]) {
+      try {
+        await storage.delete(this.getKey(storageKey, size));
+      } catch (error) {
+        logger.error(`Error deleting ${size} thumbnail of ${storageKey}:`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,157 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { RefreshToken } from '../models/RefreshToken';
+import { User } from '../models/User';
+import { IUser, IRefreshToken, RefreshTokenRevokeReason } from '../types';
+import { JWTUtils } from './jwt';
+import { AuthenticationError } from './errorTypes';
+import { logger } from './logger';
+
+// Where a token was issued, shown in the session list
+export interface ClientContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface IssuedTokens {
+  accessToken: string;
+  refreshToken: string;
+  sessionId: string;
+}
+
+export interface SessionSummary {
+  id: string;
+  startedAt: Date;
+  lastRefreshedAt: Date;
+  expiresAt: Date;
+  userAgent?: string;
+  ipAddress?: string;
+  current: boolean;
+}
+
+//Utility class for persisted refresh tokens and the sessions they form
+export class TokenService {
+  //Hash a refresh token for storage and lookup
+  public static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  //Issue an access and refresh token pair, starting a new session unless one is given
+  public static async issueTokens(
+    user: IUser,
+    context: ClientContext = {},
+    session?: { familyId: mongoose.Types.ObjectId; startedAt: Date }
+  ): Promise<IssuedTokens & { tokenId: string }> {
+    const familyId = session ? session.familyId : new mongoose.Types.ObjectId();
+    const payload = {
+      userId: user._id.toString(),
+      email: user.email,
+      sessionId: familyId.toString()
+    };
+
+    const accessToken = JWTUtils.generateAccessToken(payload);
+    // A random ID keeps tokens issued within the same second unique
+    const refreshToken = JWTUtils.generateRefreshToken({ ...payload, jti: crypto.randomBytes(16).toString('hex') });
+
+    const stored = await RefreshToken.create({
+      user: user._id,
+      familyId,
+      tokenHash: this.hashToken(refreshToken),
+      expiresAt: JWTUtils.getTokenExpiration(refreshToken),
+      sessionStartedAt: session ? session.startedAt : new Date(),
+      userAgent: context.userAgent?.slice(0, 500),
+      ipAddress: context.ipAddress
+    });
+
+    return { accessToken, refreshToken, sessionId: familyId.toString(), tokenId: stored._id.toString() };
+  }
+
+  //Exchange a refresh token for a new pair, revoking the one presented
+  //Presenting a token that was already rotated revokes the whole session
+  public static async rotate(refreshToken: string, context: ClientContext = {}): Promise<IssuedTokens> {
+    const payload = JWTUtils.verifyRefreshToken(refreshToken);
+    const tokenHash = this.hashToken(refreshToken);
+
+    // Claim the token atomically so concurrent refreshes cannot both succeed
+    const current = await RefreshToken.findOneAndUpdate(
+      { tokenHash, revokedAt: null, expiresAt: { $gt: new Date() } },
+      { revokedAt: new Date(), revokedReason: 'rotated' },
+      { new: true }
+    );
+
+    if (!current) {
+      const known = await RefreshToken.findOne({ tokenHash });
+      if (known && known.revokedReason === 'rotated') {
+        await this.revokeFamily(known.familyId, 'reuse_detected');
+        logger.warn(`Refresh token reuse detected for user ${payload.email}, session ${known.familyId} revoked`);
+        throw new AuthenticationError('Refresh token reuse detected, please log in again');
+      }
+      throw new AuthenticationError('Invalid refresh token');
+    }
+
+    const user = await User.findById(current.user);
+    if (!user) {
+      throw new AuthenticationError('Invalid refresh token');
+    }
+
+    const issued = await this.issueTokens(user, context, {
+      familyId: current.familyId,
+      startedAt: current.sessionStartedAt
+    });
+    await RefreshToken.findByIdAndUpdate(current._id, { replacedBy: issued.tokenId });
+
+    return { accessToken: issued.accessToken, refreshToken: issued.refreshToken, sessionId: issued.sessionId };
+  }
+
+  //Revoke every active token of a session
+  public static async revokeFamily(
+    familyId: mongoose.Types.ObjectId | string,
+    reason: RefreshTokenRevokeReason
+  ): Promise<number> {
+    const result = await RefreshToken.updateMany(
+      { familyId, revokedAt: null },
+      { revokedAt: new Date(), revokedReason: reason }
+    );
+    return result.modifiedCount;
+  }
+
+  //Revoke every session of a user
+  public static async revokeAllForUser(
+    userId: mongoose.Types.ObjectId | string,
+    reason: RefreshTokenRevokeReason
+  ): Promise<number> {
+    const result = await RefreshToken.updateMany(
+      { user: userId, revokedAt: null },
+      { revokedAt: new Date(), revokedReason: reason }
+    );
+    return result.modifiedCount;
+  }
+
+  //Find the session a refresh token belongs to, if the token is known
+  public static async findByToken(refreshToken: string): Promise<IRefreshToken | null> {
+    return RefreshToken.findOne({ tokenHash: this.hashToken(refreshToken) });
+  }
+
+  //Check whether a session was ended by logout, revocation or reuse detection
+  //Rotation alone does not end a session, so requests made during a refresh keep working
+  public static async isSessionActive(familyId: string): Promise<boolean> {
+    const revoked = await RefreshToken.exists({ familyId, revokedReason: { $exists: true, $ne: 'rotated' } });
+    return !revoked;
+  }
+
+  //List the active sessions of a user, newest activity first
+  public static async listSessions(userId: mongoose.Types.ObjectId | string, currentSessionId?: string): Promise<SessionSummary[]> {
+    const tokens = await RefreshToken.find({ user: userId, revokedAt: null, expiresAt: { $gt: new Date() } })
+      .sort({ createdAt: -1 });
+
+    return tokens.map(token => ({
+      id: token.familyId.toString(),
+      startedAt: token.sessionStartedAt,
+      lastRefreshedAt: token.createdAt,
+      expiresAt: token.expiresAt,
+      userAgent: token.userAgent,
+      ipAddress: token.ipAddress,
+      current: token.familyId.toString() === currentSessionId
+    }));
+  }
+}
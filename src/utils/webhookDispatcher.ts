@@ -0,0 +1,222 @@
+import crypto from 'crypto';
+import { Webhook } from '../models/Webhook';
+import { WebhookDelivery } from '../models/WebhookDelivery';
+import { IssueEvent, IWebhookDelivery } from '../types';
+import { eventBus } from './eventBus';
+import { logger } from './logger';
+
+// Response bodies are kept in the delivery log for debugging, up to this length
+const MAX_RESPONSE_BODY_LENGTH = 1000;
+
+const getMaxAttempts = (): number => parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5');
+const getRetryBaseDelay = (): number => parseInt(process.env.WEBHOOK_RETRY_BASE_DELAY || '10000');
+const getRequestTimeout = (): number => parseInt(process.env.WEBHOOK_TIMEOUT || '10000');
+const getSweepInterval = (): number => parseInt(process.env.WEBHOOK_SWEEP_INTERVAL || '60000');
+
+// WebhookDispatcher class that implements Singleton pattern for outgoing webhook deliveries
+// Issue events become persisted deliveries, which are sent with exponential backoff retries
+export class WebhookDispatcher {
+  private static instance: WebhookDispatcher;
+
+  private unsubscribe?: () => void;
+
+  private sweepTimer?: NodeJS.Timeout;
+
+  private constructor() {}
+
+  public static getInstance(): WebhookDispatcher {
+    if (!WebhookDispatcher.instance) {
+      WebhookDispatcher.instance = new WebhookDispatcher();
+    }
+    return WebhookDispatcher.instance;
+  }
+
+  // Sign a request body with the webhook secret
+  public static sign(secret: string, body: string): string {
+    return `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+  }
+
+  // Delay before the next attempt, doubling after every failed attempt
+  public static getRetryDelay(attempts: number): number {
+    return getRetryBaseDelay() * Math.pow(2, Math.max(attempts - 1, 0));
+  }
+
+  // Start listening for issue events and retrying due deliveries
+  public start(): void {
+    if (this.unsubscribe) return;
+
+    this.unsubscribe = eventBus.subscribe(event => {
+      this.enqueue(event).catch(error => {
+        logger.error(`Failed to queue webhook deliveries for ${event.type}:`, error);
+      });
+    });
+
+    // Picks up retries that were scheduled before a restart
+    this.sweepTimer = setInterval(() => {
+      this.processDueDeliveries().catch(error => {
+        logger.error('Failed to process due webhook deliveries:', error);
+      });
+    }, getSweepInterval());
+    this.sweepTimer.unref();
+  }
+
+  // Stop listening for events
+  public stop(): void {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = undefined;
+    }
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+  }
+
+  // Create a delivery for every webhook subscribed to the event and send them
+  public async enqueue(event: IssueEvent): Promise<IWebhookDelivery[]> {
+    const webhooks = await Webhook.find({ active: true, events: { $in: [event.type, '*'] } });
+    const subscribed = webhooks.filter(webhook => webhook.isSubscribedTo(event));
+    if (subscribed.length === 0) {
+      return [];
+    }
+
+    // Store plain JSON so the payload is identical on every attempt
+    const payload = JSON.parse(JSON.stringify({
+      event: event.type,
+      timestamp: event.timestamp,
+      issueId: event.issueId,
+      projectId: event.projectId,
+      actorId: event.actorId,
+      data: event.data
+    }));
+
+    const deliveries = await WebhookDelivery.insertMany(subscribed.map(webhook => ({
+      webhookId: webhook._id,
+      event: event.type,
+      payload,
+      nextAttemptAt: new Date()
+    })));
+
+    await Promise.all(deliveries.map(delivery => this.deliver(delivery._id.toString())));
+    return deliveries as unknown as IWebhookDelivery[];
+  }
+
+  // Send a copy of an earlier delivery as a new delivery
+  public async redeliver(original: IWebhookDelivery): Promise<IWebhookDelivery | null> {
+    const delivery = await WebhookDelivery.create({
+      webhookId: original.webhookId,
+      event: original.event,
+      payload: original.payload,
+      nextAttemptAt: new Date(),
+      redeliveryOf: original._id
+    });
+
+    return this.deliver(delivery._id.toString());
+  }
+
+  // Send every pending delivery whose retry time has passed
+  public async processDueDeliveries(): Promise<number> {
+    const due = await WebhookDelivery.find({ status: 'pending', nextAttemptAt: { $lte: new Date() } }).select('_id');
+    for (const delivery of due) {
+      await this.deliver(delivery._id.toString());
+    }
+    return due.length;
+  }
+
+  // Attempt a single delivery and record the outcome
+  public async deliver(deliveryId: string): Promise<IWebhookDelivery | null> {
+    const now = new Date();
+
+    // Claim the attempt so a concurrent retry does not send it twice
+    // The lease expires if the process dies mid-request
+    const delivery = await WebhookDelivery.findOneAndUpdate(
+      { _id: deliveryId, status: 'pending', nextAttemptAt: { $lte: now } },
+      {
+        $inc: { attempts: 1 },
+        $set: { lastAttemptAt: now, nextAttemptAt: new Date(now.getTime() + getRequestTimeout() * 2) }
+      },
+      { new: true }
+    );
+    if (!delivery) {
+      return WebhookDelivery.findById(deliveryId);
+    }
+
+    const webhook = await Webhook.findById(delivery.webhookId).select('+secret');
+    if (!webhook || !webhook.active) {
+      return WebhookDelivery.findByIdAndUpdate(
+        deliveryId,
+        { status: 'failed', nextAttemptAt: null, error: 'Webhook is disabled or no longer exists' },
+        { new: true }
+      );
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const started = Date.now();
+    let responseStatus: number | undefined;
+    let responseBody: string | undefined;
+    let error: string | undefined;
+
+    try {
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'IssueLog-Webhooks/1.0',
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Delivery': delivery._id.toString(),
+          'X-Webhook-Signature-256': WebhookDispatcher.sign(webhook.secret, body)
+        },
+        body,
+        signal: AbortSignal.timeout(getRequestTimeout())
+      });
+
+      responseStatus = response.status;
+      responseBody = (await response.text()).slice(0, MAX_RESPONSE_BODY_LENGTH);
+      if (!response.ok) {
+        error = `Receiver responded with status ${response.status}`;
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    const succeeded = !error;
+    const canRetry = !succeeded && delivery.attempts < getMaxAttempts();
+    const retryDelay = WebhookDispatcher.getRetryDelay(delivery.attempts);
+
+    const updated = await WebhookDelivery.findByIdAndUpdate(
+      deliveryId,
+      {
+        status: succeeded ? 'success' : canRetry ? 'pending' : 'failed',
+        nextAttemptAt: canRetry ? new Date(Date.now() + retryDelay) : null,
+        responseStatus,
+        responseBody,
+        error: error || null,
+        duration: Date.now() - started
+      },
+      { new: true }
+    );
+
+    if (succeeded) {
+      logger.info(`Webhook delivery ${deliveryId} (${delivery.event}) sent to ${webhook.url}`);
+    } else if (canRetry) {
+      logger.warn(`Webhook delivery ${deliveryId} failed (attempt ${delivery.attempts}), retrying in ${retryDelay}ms: ${error}`);
+      this.scheduleRetry(deliveryId, retryDelay);
+    } else {
+      logger.error(`Webhook delivery ${deliveryId} failed after ${delivery.attempts} attempt(s): ${error}`);
+    }
+
+    return updated;
+  }
+
+  private scheduleRetry(deliveryId: string, delay: number): void {
+    const timer = setTimeout(() => {
+      this.deliver(deliveryId).catch(error => {
+        logger.error(`Webhook delivery ${deliveryId} retry failed:`, error);
+      });
+    }, delay);
+    // Pending retries must not keep the process alive, the sweep picks them up after a restart
+    timer.unref();
+  }
+}
+
+export const webhookDispatcher = WebhookDispatcher.getInstance();